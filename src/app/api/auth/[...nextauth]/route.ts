@@ -1,5 +1,12 @@
 import NextAuth from "next-auth";
+import type { Session } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import { getTokenExpiryMs } from "@/utils/tokenExpiry";
+import { refreshAccessToken } from "@/utils/tokenRefresh";
+
+// Refresh this long before the access token expires, so requests made
+// while the refresh is in flight still carry a valid token
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
 
 // Define our auth handler
 const handler = NextAuth({
@@ -56,6 +63,7 @@ const handler = NextAuth({
             name: data.username || data.name || data.email,
             email: data.email,
             access_token: data.access_token,
+            refresh_token: data.refresh_token,
             expiresAt: data.expires_at || data.expiresAt,
           };
         } catch (error) {
@@ -72,12 +80,28 @@ const handler = NextAuth({
         userAccessToken: user?.access_token ? "Present" : "Missing",
       });
 
+      // Initial sign in
       if (user) {
         token.access_token = user.access_token;
+        token.refresh_token = user.refresh_token;
         token.expiresAt = user.expiresAt;
         token.id = user.id;
+        delete token.error;
+        return token;
+      }
+
+      // Still valid (or no expiry reported): keep the current access token
+      const expiryMs = getTokenExpiryMs(token.expiresAt);
+      if (!expiryMs || Date.now() < expiryMs - REFRESH_MARGIN_MS) {
+        return token;
       }
-      return token;
+
+      // A failed refresh is final; the client signs out when it sees it
+      if (!token.refresh_token || token.error) {
+        return { ...token, error: "RefreshAccessTokenError" };
+      }
+
+      return refreshAccessToken(token);
     },
     async session({ session, token }) {
       ({
@@ -89,6 +113,7 @@ const handler = NextAuth({
       // Use type assertion to ensure TypeScript recognizes these properties
       session.access_token = token.access_token as string;
       session.expiresAt = token.expiresAt as string;
+      session.error = token.error as Session["error"];
 
       if (session.user) {
         session.user.id = token.id as string;
@@ -0,0 +1,50 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseLinkMetadata } from "./metadata";
+
+const article = readFileSync(
+  new URL("./fixtures/article.html", import.meta.url),
+  "utf8"
+);
+
+describe("parseLinkMetadata", () => {
+  it("reads the Open Graph tags of the fixture page", () => {
+    expect(
+      parseLinkMetadata(article, "https://blog.example.com/p/123")
+    ).toEqual({
+      url: "https://blog.example.com/posts/shipping",
+      title: "Shipping faster & safer",
+      description: "How we cut our release time — without cutting corners.",
+      image: "https://blog.example.com/images/cover.png?w=1200&h=630",
+      site_name: "Example Blog",
+    });
+  });
+
+  it("falls back to the title tag and the page URL", () => {
+    const html =
+      "<html><head><title> Just a title </title></head><body></body></html>";
+
+    expect(parseLinkMetadata(html, "https://example.com/")).toEqual({
+      url: "https://example.com/",
+      title: "Just a title",
+      description: undefined,
+      image: undefined,
+      site_name: undefined,
+    });
+  });
+
+  it("returns null for a page without a title", () => {
+    expect(
+      parseLinkMetadata("<html><head></head></html>", "https://example.com/")
+    ).toBeNull();
+  });
+
+  it("drops image URLs that aren't http(s)", () => {
+    const html =
+      '<head><meta property="og:title" content="x"><meta property="og:image" content="javascript:alert(1)"></head>';
+
+    expect(parseLinkMetadata(html, "https://example.com/")?.image).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,122 @@
+// Open Graph / Twitter card extraction for link previews.
+// Only the document head matters and pages are often malformed, so the
+// tags are picked out with patterns instead of a full HTML parser.
+
+import type { LinkPreview } from "@/types/linkPreview";
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const META_TAG = /<meta\b[^>]*>/gi;
+const LINK_TAG = /<link\b[^>]*>/gi;
+const ATTRIBUTE = /([^\s=/>"']+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const TITLE_TAG = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff
+        ? String.fromCodePoint(value)
+        : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const clean = (text: string | undefined, maxLength: number) => {
+  if (!text) return undefined;
+  const value = decodeEntities(text).replace(/\s+/g, " ").trim();
+  if (!value) return undefined;
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength - 1).trimEnd()}…`
+    : value;
+};
+
+const readAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTRIBUTE)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+};
+
+// Absolute http(s) URL resolved against the page, or undefined
+const resolveUrl = (value: string | undefined, base: string) => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.href
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extract preview metadata from a page. Returns null when the page has no
+ * title to show.
+ */
+export const parseLinkMetadata = (
+  html: string,
+  pageUrl: string
+): LinkPreview | null => {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  // og:* and twitter:* use `property` or `name` depending on the site
+  const meta: Record<string, string> = {};
+  for (const tag of head.match(META_TAG) || []) {
+    const attributes = readAttributes(tag);
+    const key = (attributes.property || attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let canonical: string | undefined;
+  for (const tag of head.match(LINK_TAG) || []) {
+    const attributes = readAttributes(tag);
+    if (attributes.rel?.toLowerCase() === "canonical") {
+      canonical = resolveUrl(attributes.href, pageUrl);
+      break;
+    }
+  }
+
+  const title = clean(
+    meta["og:title"] || meta["twitter:title"] || TITLE_TAG.exec(head)?.[1],
+    MAX_TITLE_LENGTH
+  );
+  if (!title) return null;
+
+  return {
+    url: resolveUrl(meta["og:url"], pageUrl) || canonical || pageUrl,
+    title,
+    description: clean(
+      meta["og:description"] ||
+        meta["twitter:description"] ||
+        meta["description"],
+      MAX_DESCRIPTION_LENGTH
+    ),
+    image: resolveUrl(
+      meta["og:image"] ||
+        meta["og:image:url"] ||
+        meta["twitter:image"] ||
+        meta["twitter:image:src"],
+      pageUrl
+    ),
+    site_name: clean(meta["og:site_name"], MAX_TITLE_LENGTH),
+  };
+};
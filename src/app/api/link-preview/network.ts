@@ -0,0 +1,132 @@
+// SSRF guard for link previews.
+// Preview URLs come from chat messages, so anyone can make the server
+// request them. Only http(s) on the default ports is allowed, and every
+// address a hostname resolves to is checked at connect time (not just up
+// front), so DNS rebinding can't sneak a private address past the check.
+
+import dns from "node:dns";
+import net from "node:net";
+
+// Hosts (`host` or `host:port`) exempt from the address and port checks,
+// e.g. LINK_PREVIEW_ALLOWED_HOSTS=127.0.0.1:4010 for a local fixture server
+const ALLOWED_HOSTS = new Set(
+  (process.env.LINK_PREVIEW_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+};
+
+// Loopback, private networks, link-local (cloud metadata), CGNAT,
+// documentation, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// are matched against the IPv4 ranges by BlockList itself; listing
+// ::ffff:0:0/96 would block every IPv4 address.
+const BLOCKED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"], // NAT64
+  ["2001:db8::", 32, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockList = new net.BlockList();
+BLOCKED_RANGES.forEach(([address, prefix, family]) =>
+  blockList.addSubnet(address, prefix, family)
+);
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockList.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const isAllowedHost = (url: URL) =>
+  ALLOWED_HOSTS.has(url.hostname.toLowerCase()) ||
+  ALLOWED_HOSTS.has(url.host.toLowerCase());
+
+/**
+ * Check a URL before requesting it. Returns whether private addresses may
+ * be used for it (allow-listed hosts only); throws BlockedUrlError otherwise.
+ */
+export const checkUrl = (url: URL): { allowPrivate: boolean } => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedUrlError("Only http and https links can be previewed");
+  }
+  if (url.username || url.password) {
+    throw new BlockedUrlError("Links with credentials can't be previewed");
+  }
+
+  if (isAllowedHost(url)) {
+    return { allowPrivate: true };
+  }
+
+  if (url.port && url.port !== DEFAULT_PORTS[url.protocol]) {
+    throw new BlockedUrlError("Links on non-standard ports can't be previewed");
+  }
+
+  // Address literals never go through DNS, so check them here
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new BlockedUrlError("Links to private addresses can't be previewed");
+  }
+
+  return { allowPrivate: false };
+};
+
+/**
+ * A `lookup` for http.request that refuses to connect to private addresses
+ */
+export const guardedLookup =
+  (allowPrivate: boolean): net.LookupFunction =>
+  (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address, family) => {
+      if (error) {
+        callback(error, address, family);
+        return;
+      }
+
+      const addresses = Array.isArray(address)
+        ? address.map((entry) => entry.address)
+        : [address];
+      if (!allowPrivate && !addresses.every(isPublicAddress)) {
+        callback(
+          new BlockedUrlError(`${hostname} resolves to a private address`),
+          address,
+          family
+        );
+        return;
+      }
+
+      callback(null, address, family);
+    });
+  };
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { takeToken } from "@/app/api/proxy/rateLimit";
+import { getLinkPreview } from "@/app/api/link-preview/unfurl";
+import { BlockedUrlError } from "@/app/api/link-preview/network";
+import type { LinkPreviewResponse } from "@/types/linkPreview";
+
+// Uses node:http and node:dns for the SSRF guard
+export const runtime = "nodejs";
+
+const MAX_URL_LENGTH = 2048;
+
+// GET /api/link-preview?url=... - Open Graph / Twitter card metadata for a
+// link found in a message. Only signed-in users may use it, so the server
+// can't be used as an open proxy.
+export async function GET(req: NextRequest) {
+  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+  if (!token) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Sign in to load link previews" },
+      { status: 401 }
+    );
+  }
+
+  const subject = token.sub || (token.id as string | undefined) || "anonymous";
+  const { allowed, retryAfter } = takeToken(subject, "link-preview");
+  if (!allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate Limited",
+        message: `Too many requests, try again in ${retryAfter}s`,
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  const rawUrl = req.nextUrl.searchParams.get("url") || "";
+  let url: URL;
+  try {
+    if (!rawUrl || rawUrl.length > MAX_URL_LENGTH) throw new Error();
+    url = new URL(rawUrl);
+  } catch {
+    return NextResponse.json(
+      { error: "Bad Request", message: "A valid url parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body: LinkPreviewResponse = { preview: await getLinkPreview(url) };
+    return NextResponse.json(body, {
+      headers: { "Cache-Control": "private, max-age=3600" },
+    });
+  } catch (error) {
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json(
+        { error: "Forbidden", message: error.message },
+        { status: 403 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "Link Preview Error",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Fixture pages served on 127.0.0.1, which is allow-listed for the test
+const hits = new Map<string, number>();
+let closedEarly = false;
+
+const PAGE = (title: string) =>
+  `<html><head><title>${title}</title></head><body>ok</body></html>`;
+
+const server = http.createServer((req, res) => {
+  const path = req.url || "/";
+  hits.set(path, (hits.get(path) || 0) + 1);
+
+  switch (path) {
+    case "/article":
+    case "/cached":
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(PAGE(`Fixture ${path}`));
+      return;
+    case "/redirect-to-private":
+      res.writeHead(302, { Location: "http://10.0.0.1/internal" });
+      res.end();
+      return;
+    case "/redirect-to-other-host":
+      res.writeHead(302, {
+        Location: `http://localhost:${port()}/article`,
+      });
+      res.end();
+      return;
+    case "/slow": {
+      // Sends a byte now and then but never finishes
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.write("<html><head><title>Slow</title>");
+      const drip = setInterval(() => res.write(" "), 100);
+      res.on("close", () => clearInterval(drip));
+      return;
+    }
+    case "/huge": {
+      // A head followed by an endless body
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.write("<html><head><title>Huge page</title></head><body>");
+      const filler = "x".repeat(64 * 1024);
+      const pump = () => {
+        while (!res.destroyed && res.write(filler));
+        if (!res.destroyed) res.once("drain", pump);
+      };
+      res.on("close", () => {
+        closedEarly = !res.writableEnded;
+      });
+      pump();
+      return;
+    }
+    default:
+      res.writeHead(404);
+      res.end();
+  }
+});
+
+const port = () => (server.address() as AddressInfo).port;
+const fixtureUrl = (path: string) =>
+  new URL(`http://127.0.0.1:${port()}${path}`);
+
+let getLinkPreview: typeof import("./unfurl").getLinkPreview;
+let guardedLookup: typeof import("./network").guardedLookup;
+let BlockedUrlError: typeof import("./network").BlockedUrlError;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  // Read when network.ts loads, so it must be set before the import
+  process.env.LINK_PREVIEW_ALLOWED_HOSTS = `127.0.0.1:${port()}`;
+  ({ getLinkPreview } = await import("./unfurl"));
+  ({ guardedLookup, BlockedUrlError } = await import("./network"));
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("getLinkPreview", () => {
+  it("unfurls a page from the fixture server", async () => {
+    await expect(getLinkPreview(fixtureUrl("/article"))).resolves.toEqual({
+      url: fixtureUrl("/article").href,
+      title: "Fixture /article",
+      description: undefined,
+      image: undefined,
+      site_name: undefined,
+    });
+  });
+
+  it("doesn't follow a redirect to a private address", async () => {
+    await expect(
+      getLinkPreview(fixtureUrl("/redirect-to-private"))
+    ).resolves.toBeNull();
+  });
+
+  it("doesn't follow a redirect to a host that isn't allow-listed", async () => {
+    const articleHits = hits.get("/article") || 0;
+
+    await expect(
+      getLinkPreview(fixtureUrl("/redirect-to-other-host"))
+    ).resolves.toBeNull();
+    expect(hits.get("/article") || 0).toBe(articleHits);
+  });
+
+  it("gives up on a response that never finishes", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    try {
+      const preview = getLinkPreview(fixtureUrl("/slow"));
+      // Let the server start dripping before the deadline passes
+      await vi.waitFor(() => expect(hits.get("/slow")).toBe(1), {
+        interval: 10,
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+      await expect(preview).resolves.toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("stops reading a page at the size cap", async () => {
+    await expect(getLinkPreview(fixtureUrl("/huge"))).resolves.toMatchObject({
+      title: "Huge page",
+    });
+    await vi.waitFor(() => expect(closedEarly).toBe(true));
+  });
+
+  it("serves a second request for the same URL from the cache", async () => {
+    const first = await getLinkPreview(fixtureUrl("/cached"));
+    const second = await getLinkPreview(fixtureUrl("/cached#section"));
+
+    expect(second).toEqual(first);
+    expect(hits.get("/cached")).toBe(1);
+  });
+});
+
+describe("guardedLookup", () => {
+  const lookup = (hostname: string, allowPrivate: boolean) =>
+    new Promise<string>((resolve, reject) =>
+      guardedLookup(allowPrivate)(hostname, {}, (error, address) =>
+        error ? reject(error) : resolve(address as string)
+      )
+    );
+
+  it("refuses a hostname that resolves to a private address", async () => {
+    await expect(lookup("localhost", false)).rejects.toBeInstanceOf(
+      BlockedUrlError
+    );
+  });
+
+  it("resolves it for allow-listed hosts", async () => {
+    await expect(lookup("localhost", true)).resolves.toMatch(
+      /^(127\.0\.0\.1|::1)$/
+    );
+  });
+});
@@ -0,0 +1,166 @@
+// Fetching and caching of link previews.
+// Pages are requested with node:http(s) rather than fetch() so the guarded
+// DNS lookup applies to every connection, including each redirect hop.
+// Results (including "no preview") are cached in memory per server instance.
+
+import http from "node:http";
+import https from "node:https";
+import type { LinkPreview } from "@/types/linkPreview";
+import { parseLinkMetadata } from "@/app/api/link-preview/metadata";
+import { checkUrl, guardedLookup } from "@/app/api/link-preview/network";
+
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+// The head is all we need; stop reading after this much of the page
+const MAX_BODY_BYTES = 512 * 1024;
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const EMPTY_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+const USER_AGENT = "Mozilla/5.0 (compatible; ChatLinkPreview/1.0)";
+
+interface CacheEntry {
+  preview: LinkPreview | null;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+// Concurrent requests for the same URL share one fetch
+const pending = new Map<string, Promise<LinkPreview | null>>();
+
+interface Page {
+  url: URL;
+  html: string | null; // null when the response isn't an HTML page
+}
+
+const charsetOf = (contentType: string) => {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset || "utf-8");
+  } catch {
+    return new TextDecoder("utf-8");
+  }
+};
+
+const requestPage = (url: URL, redirectsLeft: number): Promise<Page> =>
+  new Promise((resolve, reject) => {
+    const { allowPrivate } = checkUrl(url);
+    const client = url.protocol === "https:" ? https : http;
+
+    const request = client.get(
+      url,
+      {
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: "text/html,application/xhtml+xml",
+        },
+        lookup: guardedLookup(allowPrivate),
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+      (response) => {
+        const status = response.statusCode || 0;
+        const location = response.headers.location;
+
+        if (status >= 300 && status < 400 && location) {
+          response.resume();
+          if (redirectsLeft === 0) {
+            reject(new Error("Too many redirects"));
+            return;
+          }
+          try {
+            resolve(requestPage(new URL(location, url), redirectsLeft - 1));
+          } catch (error) {
+            reject(error);
+          }
+          return;
+        }
+
+        const contentType = response.headers["content-type"] || "";
+        if (
+          status < 200 ||
+          status >= 300 ||
+          !/text\/html|application\/xhtml\+xml/i.test(contentType)
+        ) {
+          response.resume();
+          resolve({ url, html: null });
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const finish = () =>
+          resolve({
+            url,
+            html: charsetOf(contentType).decode(Buffer.concat(chunks)),
+          });
+
+        response.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          size += chunk.length;
+          if (size >= MAX_BODY_BYTES) {
+            response.destroy();
+            finish();
+          }
+        });
+        response.on("end", finish);
+        response.on("error", reject);
+      }
+    );
+
+    const abort = () => {
+      request.destroy();
+      reject(new Error("Link preview request timed out"));
+    };
+
+    // Also bounds slow-drip responses, not just idle sockets
+    const deadline = setTimeout(abort, REQUEST_TIMEOUT_MS);
+    request.on("close", () => clearTimeout(deadline));
+    request.on("timeout", abort);
+    request.on("error", reject);
+  });
+
+const remember = (key: string, preview: LinkPreview | null) => {
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(key, {
+    preview,
+    expiresAt: Date.now() + (preview ? CACHE_TTL_MS : EMPTY_CACHE_TTL_MS),
+  });
+};
+
+/**
+ * Preview for a URL, from the cache when possible. Resolves to null when
+ * the page can't be fetched or has no metadata; throws BlockedUrlError
+ * for URLs the server must not request.
+ */
+export const getLinkPreview = async (url: URL): Promise<LinkPreview | null> => {
+  // Validate before touching the cache so blocked URLs always fail
+  checkUrl(url);
+
+  const key = new URL(url.href.split("#")[0]).href;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.preview;
+  }
+
+  let request = pending.get(key);
+  if (!request) {
+    request = requestPage(url, MAX_REDIRECTS)
+      .then((page) =>
+        page.html ? parseLinkMetadata(page.html, page.url.href) : null
+      )
+      .catch(() => null)
+      .then((preview) => {
+        remember(key, preview);
+        return preview;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+
+  return request;
+};
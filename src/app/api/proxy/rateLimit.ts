@@ -0,0 +1,84 @@
+// Token-bucket rate limiting for the API proxy.
+// Each (user, route class) pair gets its own bucket so a runaway loop in one
+// feature can't starve the others. Buckets live in memory, so limits are per
+// server instance - enough to stop a client from flooding the backend.
+
+export type RateLimitClass =
+  | "message-send"
+  | "search"
+  | "upload"
+  | "link-preview";
+
+interface BucketConfig {
+  capacity: number; // burst size
+  refillPerSecond: number; // sustained rate
+}
+
+export const RATE_LIMITS: Record<RateLimitClass, BucketConfig> = {
+  "message-send": { capacity: 30, refillPerSecond: 1 },
+  search: { capacity: 10, refillPerSecond: 0.5 },
+  upload: { capacity: 10, refillPerSecond: 0.2 },
+  "link-preview": { capacity: 30, refillPerSecond: 0.5 },
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until a token is available again (0 when allowed)
+  retryAfter: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+// Prune idle buckets once the map grows past this size
+const MAX_BUCKETS = 10000;
+const IDLE_BUCKET_MS = 10 * 60 * 1000;
+
+const pruneBuckets = (now: number) => {
+  buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt > IDLE_BUCKET_MS) {
+      buckets.delete(key);
+    }
+  });
+};
+
+/**
+ * Take one token from the bucket for this subject and route class
+ */
+export const takeToken = (
+  subject: string,
+  limitClass: RateLimitClass,
+  now: number = Date.now()
+): RateLimitResult => {
+  const { capacity, refillPerSecond } = RATE_LIMITS[limitClass];
+  const key = `${subject}:${limitClass}`;
+
+  if (buckets.size > MAX_BUCKETS) {
+    pruneBuckets(now);
+  }
+
+  const bucket = buckets.get(key) || { tokens: capacity, updatedAt: now };
+
+  // Refill for the time elapsed since the last request
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(
+    capacity,
+    bucket.tokens + elapsedSeconds * refillPerSecond
+  );
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  return {
+    allowed: false,
+    retryAfter: Math.ceil((1 - bucket.tokens) / refillPerSecond),
+  };
+};
@@ -0,0 +1,567 @@
+// Route registry for the catch-all API proxy.
+// Every request under /api/proxy is matched against PROXY_ROUTES (first match
+// wins) to decide which backend service receives it, whether the session token
+// is forwarded, how long we wait, and what to answer when the backend fails.
+// Adding a backend service means adding its base URL to SERVICE_BASE_URLS in
+// utils/serviceUrls.ts and one entry to PROXY_ROUTES.
+
+import type { RateLimitClass } from "@/app/api/proxy/rateLimit";
+import type { ServiceName } from "@/utils/serviceUrls";
+
+export type ProxyService = ServiceName;
+
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// "session" forwards the NextAuth access token when there is one,
+// "none" never sends an Authorization header (e.g. login)
+export type AuthRequirement = "session" | "none";
+
+export type RouteParams = Record<string, string>;
+
+export interface RouteContext {
+  path: string;
+  method: HttpMethod;
+  params: RouteParams;
+  // Upstream status when the backend answered with an error
+  status?: number;
+  // Error message from the upstream response or the failed fetch
+  error?: string;
+}
+
+export interface ProxyRoute {
+  name: string;
+  // Path patterns relative to /api/proxy. ":name" captures one segment and a
+  // trailing "*" matches any remaining segments (including none), captured
+  // joined by "/" as the "*" param.
+  pattern: string | string[];
+  // Extra constraints for captured params
+  where?: Record<string, RegExp>;
+  // Methods handled by this entry - omit to match every method
+  methods?: HttpMethod[];
+  service: ProxyService;
+  auth: AuthRequirement;
+  // Abort the upstream request after this many milliseconds
+  timeoutMs?: number;
+  // Token bucket (per user) that requests on this route draw from
+  rateLimit?: RateLimitClass;
+  // Answer with a "max retries" payload once the client-side `_retryCount`
+  // query param reaches this value
+  maxRetries?: number;
+  // Requests are answered with connection details instead of being proxied
+  websocket?: boolean;
+  // Successful responses are piped through untouched (status, body and
+  // download headers) instead of being parsed - used for file downloads.
+  // Binary responses on any route are streamed the same way.
+  stream?: boolean;
+  // Upstream path when it differs from the incoming one
+  rewrite?: (params: RouteParams) => string;
+  // Fields merged into JSON request bodies
+  injectBody?: (params: RouteParams) => Record<string, unknown>;
+  // Reshapes successful upstream payloads (JSON or text)
+  transform?: (data: any, ctx: RouteContext) => unknown;
+  // Placeholder payload for failed GET requests. Unreachable upstreams,
+  // timeouts and 5xx answers on routes with a fallback are answered with a
+  // ProxyErrorEnvelope; clients that send X-Proxy-Fallback: true get this
+  // payload inside a ProxyFallbackEnvelope. 4xx answers pass through.
+  fallback?: (ctx: RouteContext) => unknown;
+  // Shapes the body for upstream 4xx statuses, and for 5xx ones when no
+  // fallback is configured
+  formatError?: (data: any, ctx: RouteContext) => unknown;
+  // Status and body when the upstream cannot be reached (no fallback configured)
+  unreachableStatus?: number;
+  formatUnreachable?: (message: string) => unknown;
+}
+
+export interface RouteMatch {
+  route: ProxyRoute;
+  params: RouteParams;
+  upstreamPath: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const historyPayload = (data: any) => ({
+  messages: data.messages || data.data || (Array.isArray(data) ? data : []),
+  data: data.data || data.messages || (Array.isArray(data) ? data : []),
+  ...data,
+  success: true,
+});
+
+const emptyGroupList = () => ({
+  groups: [],
+  current_page: 1,
+  page_size: 20,
+  total: 0,
+});
+
+const emptyGroupMessages = () => ({
+  messages: [],
+  current_page: 1,
+  page_size: 20,
+  total: 0,
+});
+
+const emptyFileList = () => ({
+  files: [],
+  current_page: 1,
+  page_size: 20,
+  total: 0,
+});
+
+const fileServiceUnavailable = () => ({
+  success: false,
+  message: "File service temporarily unavailable",
+});
+
+export const PROXY_ROUTES: ProxyRoute[] = [
+  {
+    name: "messages-websocket",
+    pattern: "messages/ws",
+    service: "group",
+    auth: "session",
+    websocket: true,
+  },
+  {
+    name: "message-history",
+    pattern: [
+      "messages/history",
+      "messages/:targetId/history",
+      "messages/:type/:targetId/history",
+      "messages/private/*",
+      "messages/group/*",
+    ],
+    methods: ["GET"],
+    service: "group",
+    auth: "session",
+    timeoutMs: 15000,
+    maxRetries: 2,
+    transform: (data) =>
+      typeof data === "string"
+        ? { messages: [], data: [], text: data, success: true }
+        : historyPayload(data),
+    fallback: () => ({
+      messages: [],
+      data: [],
+      success: false,
+      error: "Could not retrieve message history",
+      errorCode: "ALL_METHODS_FAILED",
+      pagination: {
+        current_page: 1,
+        total_pages: 1,
+        total_items: 0,
+        items_per_page: 20,
+        has_more_pages: false,
+      },
+    }),
+  },
+  {
+    name: "message-by-id",
+    pattern: "messages/:messageId/*",
+    where: { messageId: UUID_PATTERN },
+    methods: ["GET"],
+    service: "group",
+    auth: "session",
+    timeoutMs: 5000,
+    fallback: ({ params, status, error }) => ({
+      message: null,
+      data: null,
+      success: true,
+      _error:
+        status !== undefined
+          ? `Server error fetching message ${params.messageId}`
+          : error || "Error fetching message",
+      _status: status,
+    }),
+  },
+  {
+    // Group message edits/deletes are served by the messages endpoint
+    name: "group-message-mutation",
+    pattern: "groups/:groupId/messages/:messageId",
+    methods: ["PUT", "PATCH", "DELETE"],
+    service: "group",
+    auth: "session",
+    rewrite: ({ messageId }) => `messages/${messageId}`,
+    injectBody: ({ groupId }) => ({ group_id: groupId }),
+  },
+  {
+    // Legacy singular form used by older clients; anything after
+    // "messages" (e.g. a message id) is kept
+    name: "legacy-group-messages",
+    pattern: "group/:groupId/messages/*",
+    service: "group",
+    auth: "session",
+    rewrite: ({ groupId, "*": rest }) =>
+      rest
+        ? `groups/${groupId}/messages/${rest}`
+        : `groups/${groupId}/messages`,
+  },
+  {
+    name: "legacy-group",
+    pattern: "group/*",
+    service: "group",
+    auth: "session",
+  },
+  {
+    name: "message-send",
+    pattern: "messages",
+    methods: ["POST"],
+    service: "group",
+    auth: "session",
+    rateLimit: "message-send",
+    transform: (data) =>
+      typeof data === "string"
+        ? {
+            success: true,
+            data: { sent: true },
+            message: "Message sent successfully",
+          }
+        : {
+            ...data,
+            success: true,
+            data: data?.data || data || { sent: true },
+            message: data?.message || "Message sent successfully",
+          },
+    formatError: (data) => ({
+      success: false,
+      error:
+        (typeof data === "string"
+          ? data
+          : data?.message || data?.error || JSON.stringify(data)) ||
+        "Failed to send message",
+    }),
+    formatUnreachable: (message) => ({ success: false, error: message }),
+  },
+  {
+    // Each scheduled message is sent later, so creating one counts as a send
+    name: "message-schedule",
+    pattern: "messages/scheduled",
+    methods: ["POST"],
+    service: "group",
+    auth: "session",
+    rateLimit: "message-send",
+  },
+  {
+    name: "message-search",
+    pattern: "messages/search",
+    methods: ["GET"],
+    service: "group",
+    auth: "session",
+    rateLimit: "search",
+  },
+  {
+    name: "message-media",
+    pattern: "messages/media",
+    methods: ["POST"],
+    service: "group",
+    auth: "session",
+    rateLimit: "upload",
+  },
+  {
+    name: "messages",
+    pattern: "messages/*",
+    service: "group",
+    auth: "session",
+  },
+  {
+    // Called by NextAuth on the server, before a session cookie exists.
+    // Token refreshes go to the auth service directly (utils/tokenRefresh).
+    name: "auth-public",
+    pattern: "auth/login",
+    service: "api",
+    auth: "none",
+  },
+  {
+    name: "auth",
+    pattern: "auth/*",
+    service: "api",
+    auth: "session",
+    formatError: (data) =>
+      typeof data === "string" ? { error: "Authentication failed" } : data,
+    unreachableStatus: 503,
+    formatUnreachable: () => ({ error: "Authentication service unavailable" }),
+  },
+  {
+    name: "friend-requests",
+    pattern: "friends/requests",
+    service: "api",
+    auth: "session",
+    transform: (data) => {
+      if (Array.isArray(data) || Array.isArray(data?.data)) return data;
+      if (Array.isArray(data?.requests)) return { data: data.requests };
+      if (Array.isArray(data?.friend_requests)) {
+        return { data: data.friend_requests };
+      }
+      return [];
+    },
+    fallback: () => [],
+  },
+  {
+    name: "friends",
+    pattern: "friends",
+    service: "api",
+    auth: "session",
+    transform: (data) => {
+      if (Array.isArray(data) || Array.isArray(data?.data)) return data;
+      if (Array.isArray(data?.friends)) return data.friends;
+      return [];
+    },
+    fallback: () => [],
+  },
+  {
+    name: "friend-search",
+    pattern: "friends/search/*",
+    service: "api",
+    auth: "session",
+    rateLimit: "search",
+    fallback: () => [],
+  },
+  {
+    name: "friend-details",
+    pattern: "friends/:friendId",
+    service: "api",
+    auth: "session",
+    fallback: ({ params, status }) =>
+      status === undefined
+        ? []
+        : {
+            id: params.friendId,
+            name: `User ${params.friendId.substring(0, 8)}...`,
+            email: "",
+            username: `user_${params.friendId.substring(0, 6)}`,
+            status: "offline",
+            profile_picture_url: null,
+            avatar: null,
+          },
+  },
+  {
+    name: "friends-other",
+    pattern: "friends/*",
+    service: "api",
+    auth: "session",
+    fallback: ({ status }) => (status === undefined ? [] : { success: true }),
+  },
+  {
+    name: "presence-users",
+    pattern: "presence/users/*",
+    service: "presence",
+    auth: "session",
+    fallback: () => ({ users: [] }),
+  },
+  {
+    name: "presence",
+    pattern: "presence/*",
+    service: "presence",
+    auth: "session",
+    fallback: () => ({ success: true }),
+  },
+  {
+    name: "notification-unread-count",
+    pattern: "notifications/unread-count",
+    service: "notification",
+    auth: "session",
+    transform: (data) => {
+      if (typeof data === "string") {
+        const count = parseInt(data, 10);
+        return { count: isNaN(count) ? 0 : count };
+      }
+      if (typeof data === "number") return { count: data };
+      if (typeof data?.count === "number") return data;
+      if (typeof data?.unread_count === "number") {
+        return { count: data.unread_count };
+      }
+      return { count: 0 };
+    },
+    fallback: () => ({ count: 0 }),
+  },
+  {
+    name: "notification-list",
+    pattern: "notifications",
+    service: "notification",
+    auth: "session",
+    fallback: () => [],
+  },
+  {
+    name: "notifications",
+    pattern: "notifications/*",
+    service: "notification",
+    auth: "session",
+    fallback: ({ status }) => (status === undefined ? { success: true } : {}),
+  },
+  {
+    name: "legacy-notification",
+    pattern: "notification/*",
+    service: "notification",
+    auth: "session",
+  },
+  {
+    name: "group-list",
+    pattern: "groups",
+    service: "group",
+    auth: "session",
+    fallback: emptyGroupList,
+  },
+  {
+    name: "group-messages",
+    pattern: "groups/:groupId/messages/*",
+    service: "group",
+    auth: "session",
+    fallback: ({ status }) =>
+      status === undefined ? {} : emptyGroupMessages(),
+  },
+  {
+    name: "group-members",
+    pattern: "groups/:groupId/members/*",
+    service: "group",
+    auth: "session",
+    fallback: ({ status }) =>
+      status === undefined ? {} : { members: [], total: 0 },
+  },
+  {
+    name: "group-details",
+    pattern: "groups/:groupId/*",
+    service: "group",
+    auth: "session",
+    fallback: ({ params, status }) =>
+      status === undefined
+        ? {}
+        : {
+            id: params.groupId,
+            name: "Group not available",
+            members: [],
+            member_count: 0,
+          },
+  },
+  {
+    name: "file-upload",
+    pattern: "files/upload",
+    methods: ["POST"],
+    service: "files",
+    auth: "session",
+    rateLimit: "upload",
+  },
+  {
+    // Starting a chunked upload counts as one upload; its chunks, status
+    // and completion requests go through the "files" route
+    name: "file-upload-session",
+    pattern: "files/uploads",
+    methods: ["POST"],
+    service: "files",
+    auth: "session",
+    rateLimit: "upload",
+  },
+  {
+    name: "file-download",
+    pattern: [
+      "files/:fileId/download",
+      "files/:fileId/preview",
+      "files/group/:groupId/:fileId/download",
+      "files/group/:groupId/:fileId/preview",
+    ],
+    methods: ["GET", "HEAD"],
+    service: "files",
+    auth: "session",
+    stream: true,
+    fallback: fileServiceUnavailable,
+  },
+  {
+    name: "file-list",
+    pattern: ["files", "files/group/*", "files/user/*"],
+    service: "files",
+    auth: "session",
+    fallback: ({ path, status }) =>
+      path === "files" || status !== undefined
+        ? emptyFileList()
+        : fileServiceUnavailable(),
+  },
+  {
+    name: "files",
+    pattern: "files/*",
+    service: "files",
+    auth: "session",
+    fallback: fileServiceUnavailable,
+  },
+  {
+    name: "media",
+    pattern: "media/*",
+    service: "files",
+    auth: "session",
+    fallback: ({ status }) =>
+      status === undefined ? fileServiceUnavailable() : [],
+  },
+  {
+    name: "default",
+    pattern: "*",
+    service: "api",
+    auth: "session",
+  },
+];
+
+// Matches path segments against a single pattern, returning captured params
+const matchPattern = (
+  pattern: string,
+  segments: string[],
+  where: Record<string, RegExp> = {}
+): RouteParams | null => {
+  const patternSegments = pattern.split("/");
+  const params: RouteParams = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+
+    if (patternSegment === "*") {
+      params["*"] = segments.slice(i).join("/");
+      return params;
+    }
+
+    const segment = segments[i];
+    if (segment === undefined) {
+      return null;
+    }
+
+    if (patternSegment.startsWith(":")) {
+      const name = patternSegment.slice(1);
+      if (where[name] && !where[name].test(segment)) {
+        return null;
+      }
+      params[name] = segment;
+    } else if (patternSegment !== segment) {
+      return null;
+    }
+  }
+
+  return segments.length === patternSegments.length ? params : null;
+};
+
+/**
+ * Find the registry entry for a proxied path and method
+ */
+export const matchRoute = (
+  path: string,
+  method: HttpMethod,
+  routes: ProxyRoute[] = PROXY_ROUTES
+): RouteMatch | null => {
+  const segments = path.split("/").filter(Boolean);
+
+  for (const route of routes) {
+    if (route.methods && !route.methods.includes(method)) {
+      continue;
+    }
+
+    const patterns = Array.isArray(route.pattern)
+      ? route.pattern
+      : [route.pattern];
+
+    for (const pattern of patterns) {
+      const params = matchPattern(pattern, segments, route.where);
+      if (params) {
+        return {
+          route,
+          params,
+          upstreamPath: route.rewrite ? route.rewrite(params) : path,
+        };
+      }
+    }
+  }
+
+  return null;
+};
@@ -2,10 +2,18 @@
 
 import { SessionProvider } from "next-auth/react";
 
+const SESSION_REFETCH_INTERVAL_SECONDS = 60;
+
 export function AuthSessionProvider({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  return <SessionProvider>{children}</SessionProvider>;
+  // Poll the session so the jwt callback can refresh the access token
+  // before it expires, even while the tab sits idle
+  return (
+    <SessionProvider refetchInterval={SESSION_REFETCH_INTERVAL_SECONDS}>
+      {children}
+    </SessionProvider>
+  );
 }
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  FaCloudUploadAlt,
+  FaFile,
+  FaMicrophone,
+  FaTimes,
+  FaVideo,
+} from "react-icons/fa";
+import { formatFileSize, getMediaType } from "@/utils/fileUploadHelper";
+import type { DraftAttachment } from "@/utils/drafts";
+
+interface AttachmentTrayProps {
+  attachments: DraftAttachment[];
+  onRemove: (id: string) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+}
+
+// Thumbnail for images, an icon for everything else
+const AttachmentPreview: React.FC<{ attachment: DraftAttachment }> = ({
+  attachment,
+}) => {
+  const mediaType = getMediaType(attachment.type);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mediaType !== "image") return;
+    const objectUrl = URL.createObjectURL(attachment.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [attachment.blob, mediaType]);
+
+  if (mediaType === "image") {
+    return url ? (
+      <img
+        src={url}
+        alt={attachment.name}
+        className="h-20 w-full object-cover rounded-md"
+      />
+    ) : (
+      <div className="h-20 w-full bg-gray-200 rounded-md" />
+    );
+  }
+
+  const Icon =
+    mediaType === "video"
+      ? FaVideo
+      : mediaType === "audio"
+      ? FaMicrophone
+      : FaFile;
+  return (
+    <div className="h-20 w-full flex flex-col items-center justify-center bg-white rounded-md px-2">
+      <Icon className="h-6 w-6 text-gray-400 mb-1" />
+      <span className="text-xs text-gray-700 truncate max-w-full">
+        {attachment.name}
+      </span>
+    </div>
+  );
+};
+
+// Files waiting in the composer; each goes out as its own message with
+// its caption on the next send
+export const AttachmentTray: React.FC<AttachmentTrayProps> = ({
+  attachments,
+  onRemove,
+  onCaptionChange,
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 mb-2 overflow-x-auto pb-1">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className="relative flex-shrink-0 w-36 bg-gray-100 border border-gray-200 rounded-lg p-1.5"
+        >
+          <AttachmentPreview attachment={attachment} />
+          <button
+            type="button"
+            onClick={() => onRemove(attachment.id)}
+            className="absolute top-0.5 right-0.5 h-5 w-5 flex items-center justify-center rounded-full bg-gray-800 bg-opacity-60 text-white hover:bg-opacity-80"
+            title="Remove attachment"
+            aria-label={`Remove ${attachment.name}`}
+          >
+            <FaTimes className="h-2.5 w-2.5" />
+          </button>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatFileSize(attachment.size)}
+          </p>
+          <input
+            type="text"
+            value={attachment.caption || ""}
+            onChange={(e) => onCaptionChange(attachment.id, e.target.value)}
+            placeholder="Add a caption"
+            className="mt-1 w-full text-xs border border-gray-300 rounded px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label={`Caption for ${attachment.name}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Covers the chat area while files are dragged over it
+export const AttachmentDropOverlay: React.FC = () => (
+  <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-blue-50 bg-opacity-90 border-2 border-dashed border-blue-400 rounded-lg pointer-events-none">
+    <FaCloudUploadAlt className="h-10 w-10 text-blue-500 mb-2" />
+    <p className="text-sm font-medium text-blue-600">Drop files to attach</p>
+  </div>
+);
@@ -3,17 +3,35 @@ import {
   FaUser,
   FaClock,
   FaCheck,
+  FaCheckDouble,
   FaExclamationTriangle,
   FaFile,
   FaEllipsisV,
   FaPencilAlt,
   FaTrash,
   FaDownload,
+  FaReply,
+  FaShare,
+  FaThumbtack,
 } from "react-icons/fa";
 import { formatMessageTimestamp } from "@/utils/timestampHelper";
 import { OptimizedAvatar } from "../optimized-avatar";
 import { useFiles } from "@/hooks/files/useFiles";
 import { toast } from "react-hot-toast";
+import {
+  DeliveryStatus,
+  deliveryStatusOf,
+  MessageReaction,
+  ReplyPreview,
+} from "@/types/messages";
+import MessageReactions, { ReactionPicker } from "./message-reactions";
+import { ReplyQuote } from "./reply-quote";
+import { MessageContent } from "./message-content";
+import { LinkPreviewCard } from "./link-preview-card";
+import { UploadProgress } from "./upload-progress";
+import { VoiceMessagePlayer } from "./voice-message";
+import { extractLinks } from "@/utils/markdown";
+import { VOICE_MESSAGE_CAPTION } from "@/utils/voiceMessages";
 
 // Helper function to validate avatar URLs including data URLs
 const validateAvatarUrl = (avatarUrl: string): string | null => {
@@ -44,6 +62,7 @@ interface ImageWithRetryProps {
   className?: string;
   onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
   messageId: string;
+  placeholder?: string; // shown blurred until the image has loaded
 }
 
 const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
@@ -52,8 +71,10 @@ const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
   className,
   onClick,
   messageId,
+  placeholder,
 }) => {
   const [imageSrc, setImageSrc] = useState(src);
+  const [isLoaded, setIsLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [hasError, setHasError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
@@ -133,13 +154,24 @@ const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
         </div>
       )}
+      {placeholder && !isLoaded && !isLoading && (
+        <img
+          src={placeholder}
+          alt=""
+          aria-hidden="true"
+          className={`${className || ""} w-48 object-cover blur-sm`}
+        />
+      )}
       <img
         src={imageSrc}
         alt={alt}
         className={className}
         onClick={onClick}
+        onLoad={() => setIsLoaded(true)}
         onError={handleError}
-        style={{ display: isLoading ? "none" : "block" }}
+        style={{
+          display: isLoading || (placeholder && !isLoaded) ? "none" : "block",
+        }}
       />
     </div>
   );
@@ -173,11 +205,14 @@ interface ChatAreaItemProps {
     failed?: boolean;
     retrying?: boolean;
     delivered?: boolean;
+    deliveryStatus?: DeliveryStatus;
+    uploadProgress?: number; // 0-100 while the attachment uploads
     attachment?: {
-      type: "image" | "file";
+      type: "image" | "file" | "audio";
       url: string;
       name: string;
       size?: string;
+      placeholder?: string; // low-res preview shown while an image loads
     };
     sender?: {
       id: string;
@@ -192,6 +227,9 @@ interface ChatAreaItemProps {
     recipient?: any;
     sent?: boolean;
     message_type?: string;
+    reactions?: MessageReaction[];
+    reply_to?: string;
+    forwarded?: boolean;
   };
   recipient: {
     id: string;
@@ -200,17 +238,52 @@ interface ChatAreaItemProps {
     profile_picture_url?: string;
   };
   onRetryClick?: (message: any) => void;
+  onCancelUpload?: (messageId: string) => void;
   onEditClick?: (messageId: string) => void;
   onDeleteClick?: (messageId: string) => void;
+  // Adds the emoji, or removes it when the current user already reacted
+  onReactionToggle?: (messageId: string, emoji: string) => void;
+  currentUserId?: string;
+  resolveReactorName?: (userId: string) => string;
+  onReplyClick?: (messageId: string) => void;
+  // The message this one replies to; null when it is not loaded
+  replyPreview?: ReplyPreview | null;
+  onQuoteClick?: (messageId: string) => void;
+  onForwardClick?: (messageId: string) => void;
+  // Omitted when the current user may not pin in this conversation
+  onPinToggle?: (messageId: string) => void;
+  isPinned?: boolean;
   // Note: Edit functionality is handled via text bar, but buttons are in bubble for UX
 }
 
+// One tick once sent, two once delivered, two blue ones once read
+const DeliveryTicks: React.FC<{ status: DeliveryStatus }> = ({ status }) => {
+  if (status === "sent") {
+    return <FaCheck className="h-3 w-3 opacity-75" title="Sent" />;
+  }
+  return status === "read" ? (
+    <FaCheckDouble className="h-3 w-3 text-blue-300" title="Read" />
+  ) : (
+    <FaCheckDouble className="h-3 w-3 opacity-75" title="Delivered" />
+  );
+};
+
 const ChatAreaItem: React.FC<ChatAreaItemProps> = ({
   message,
   recipient,
   onRetryClick,
+  onCancelUpload,
   onEditClick,
   onDeleteClick,
+  onReactionToggle,
+  currentUserId,
+  resolveReactorName,
+  onReplyClick,
+  replyPreview,
+  onQuoteClick,
+  onForwardClick,
+  onPinToggle,
+  isPinned,
 }) => {
   // Local state for dropdown
   const [showActions, setShowActions] = useState(false);
@@ -313,6 +386,23 @@ const ChatAreaItem: React.FC<ChatAreaItemProps> = ({
     }
   };
 
+  // Only messages the server knows about can be reacted to, replied to
+  // or forwarded
+  const isSent =
+    !message.isDeleted &&
+    !message.pending &&
+    !message.failed &&
+    !message.retrying &&
+    !message.id.startsWith("temp-");
+  const canReact = Boolean(onReactionToggle) && isSent;
+  const canReply = Boolean(onReplyClick) && isSent;
+  const canForward = Boolean(onForwardClick) && isSent;
+  const canPin = Boolean(onPinToggle) && isSent;
+
+  const handleReactionToggle = (emoji: string) => {
+    onReactionToggle?.(message.id, emoji);
+  };
+
   const toggleActions = (e: React.MouseEvent) => {
     e.stopPropagation();
     setShowActions(!showActions);
@@ -374,11 +464,22 @@ const ChatAreaItem: React.FC<ChatAreaItemProps> = ({
     return validated;
   }, [senderAvatar, message.id]);
 
+  // The player stands in for the caption of a voice message
+  const isVoiceMessage =
+    message.attachment?.type === "audio" &&
+    message.content === VOICE_MESSAGE_CAPTION;
+
+  // Only the first link gets a preview card
+  const previewUrl = useMemo(
+    () => (message.isDeleted ? undefined : extractLinks(message.content)[0]),
+    [message.isDeleted, message.content]
+  );
+
   return (
     <div
       className={`flex ${
         message.isCurrentUser ? "justify-end" : "justify-start"
-      } mb-3 sm:mb-4`}
+      } mb-3 sm:mb-4 group/message`}
       data-message-id={message.id}
     >
       {/* Avatar for other users */}
@@ -395,176 +496,292 @@ const ChatAreaItem: React.FC<ChatAreaItemProps> = ({
 
       {/* Message bubble wrapper */}
       <div
-        className={`rounded-xl sm:rounded-2xl px-3 sm:px-4 py-2 sm:py-3 relative group shadow-sm ${
-          message.isDeleted
-            ? "bg-gray-200 text-gray-500 italic"
-            : message.isCurrentUser
-            ? message.failed
-              ? "bg-red-100 text-red-800 border border-red-300 cursor-pointer hover:bg-red-200"
-              : "bg-blue-500 text-white"
-            : "bg-white border border-gray-200 text-gray-800 hover:shadow-md"
-        } transition-all duration-200`}
-        onClick={message.failed ? handleRetryClick : undefined}
-        title={
-          message.failed ? "Click to retry sending this message" : undefined
-        }
+        className={`flex flex-col ${
+          message.isCurrentUser ? "items-end" : "items-start"
+        }`}
       >
-        {/* Message actions dropdown for current user's messages */}
-        {message.isCurrentUser &&
-          !message.isDeleted &&
-          !message.pending &&
-          !message.failed &&
-          !message.retrying &&
-          onEditClick &&
-          onDeleteClick && (
-            <div className="absolute top-2 right-2" ref={dropdownRef}>
-              <button
-                onClick={toggleActions}
-                className="text-white hover:text-blue-200 p-1.5 rounded-full focus:outline-none opacity-0 group-hover:opacity-100 transition-opacity bg-black bg-opacity-20 hover:bg-opacity-40 touch-manipulation"
-              >
-                <FaEllipsisV className="h-3 w-3" />
-              </button>
-
-              {/* Dropdown menu */}
-              {showActions && (
-                <div className="absolute right-0 top-8 w-32 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
-                  <div className="py-1">
-                    <button
-                      onClick={handleEditClick}
-                      className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
-                    >
-                      <FaPencilAlt className="mr-2 text-xs" /> Edit
-                    </button>
-                    <button
-                      onClick={handleDeleteClick}
-                      className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
-                    >
-                      <FaTrash className="mr-2 text-xs" /> Unsend
-                    </button>
-                  </div>
+        <div
+          className={`flex items-center ${
+            message.isCurrentUser ? "flex-row-reverse" : ""
+          }`}
+        >
+          <div
+            className={`rounded-xl sm:rounded-2xl px-3 sm:px-4 py-2 sm:py-3 relative group shadow-sm ${
+              message.isDeleted
+                ? "bg-gray-200 text-gray-500 italic"
+                : message.isCurrentUser
+                ? message.failed
+                  ? "bg-red-100 text-red-800 border border-red-300 cursor-pointer hover:bg-red-200"
+                  : "bg-blue-500 text-white"
+                : "bg-white border border-gray-200 text-gray-800 hover:shadow-md"
+            } transition-all duration-200`}
+            onClick={message.failed ? handleRetryClick : undefined}
+            title={
+              message.failed ? "Click to retry sending this message" : undefined
+            }
+          >
+            {/* Message actions dropdown for current user's messages */}
+            {message.isCurrentUser &&
+              !message.isDeleted &&
+              !message.pending &&
+              !message.failed &&
+              !message.retrying &&
+              onEditClick &&
+              onDeleteClick && (
+                <div className="absolute top-2 right-2" ref={dropdownRef}>
+                  <button
+                    onClick={toggleActions}
+                    className="text-white hover:text-blue-200 p-1.5 rounded-full focus:outline-none opacity-0 group-hover:opacity-100 transition-opacity bg-black bg-opacity-20 hover:bg-opacity-40 touch-manipulation"
+                  >
+                    <FaEllipsisV className="h-3 w-3" />
+                  </button>
+
+                  {/* Dropdown menu */}
+                  {showActions && (
+                    <div className="absolute right-0 top-8 w-32 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                      <div className="py-1">
+                        <button
+                          onClick={handleEditClick}
+                          className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
+                        >
+                          <FaPencilAlt className="mr-2 text-xs" /> Edit
+                        </button>
+                        <button
+                          onClick={handleDeleteClick}
+                          className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
+                        >
+                          <FaTrash className="mr-2 text-xs" /> Unsend
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
-            </div>
-          )}
 
-        {/* Status indicators */}
-        {message.pending && (
-          <div className="absolute top-0 right-0 -mt-1 -mr-1">
-            <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent"></div>
-          </div>
-        )}
+            {/* Status indicators */}
+            {message.pending && (
+              <div className="absolute top-0 right-0 -mt-1 -mr-1">
+                <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent"></div>
+              </div>
+            )}
 
-        {message.retrying && (
-          <div className="absolute top-0 right-0 -mt-1 -mr-1">
-            <div className="animate-pulse rounded-full h-3 w-3 bg-yellow-500"></div>
-          </div>
-        )}
-
-        {/* Attachment display */}
-        {message.attachment && (
-          <div className="mb-1">
-            {message.attachment.type === "image" ? (
-              <ImageWithRetry
-                src={message.attachment.url}
-                alt={message.attachment.name}
-                className="max-w-full h-auto rounded cursor-pointer hover:opacity-90 transition-opacity max-h-48"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  window.open(message.attachment!.url, "_blank");
-                }}
-                messageId={message.id}
-              />
-            ) : (
-              <button
-                onClick={(e) =>
-                  handleDownloadFile(
-                    e,
-                    message.attachment!.url,
-                    message.attachment!.name
-                  )
-                }
-                disabled={isDownloading}
-                className="text-blue-500 hover:underline flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-xs"
-                title={`Download ${message.attachment!.name}`}
+            {message.retrying && (
+              <div className="absolute top-0 right-0 -mt-1 -mr-1">
+                <div className="animate-pulse rounded-full h-3 w-3 bg-yellow-500"></div>
+              </div>
+            )}
+
+            {/* Marker for messages copied from another conversation */}
+            {message.forwarded && !message.isDeleted && (
+              <p
+                className={`flex items-center text-xs italic mb-1 ${
+                  message.isCurrentUser ? "text-blue-100" : "text-gray-500"
+                }`}
               >
-                {isDownloading ? (
-                  <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent" />
+                <FaShare className="h-2.5 w-2.5 mr-1" /> Forwarded
+              </p>
+            )}
+
+            {/* Quoted original for replies */}
+            {message.reply_to && !message.isDeleted && (
+              <ReplyQuote
+                preview={replyPreview}
+                isCurrentUser={message.isCurrentUser}
+                onClick={() => onQuoteClick?.(message.reply_to!)}
+              />
+            )}
+
+            {/* Attachment display */}
+            {message.attachment && (
+              <div className="mb-1">
+                {message.attachment.type === "audio" ? (
+                  <VoiceMessagePlayer
+                    url={message.attachment.url}
+                    onDark={message.isCurrentUser && !message.failed}
+                  />
+                ) : message.attachment.type === "image" ? (
+                  <ImageWithRetry
+                    src={message.attachment.url}
+                    alt={message.attachment.name}
+                    className="max-w-full h-auto rounded cursor-pointer hover:opacity-90 transition-opacity max-h-48"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      window.open(message.attachment!.url, "_blank");
+                    }}
+                    messageId={message.id}
+                    placeholder={message.attachment.placeholder}
+                  />
                 ) : (
-                  <FaFile className="text-gray-500 h-3 w-3" />
+                  <button
+                    onClick={(e) =>
+                      handleDownloadFile(
+                        e,
+                        message.attachment!.url,
+                        message.attachment!.name
+                      )
+                    }
+                    disabled={isDownloading}
+                    className="text-blue-500 hover:underline flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-xs"
+                    title={`Download ${message.attachment!.name}`}
+                  >
+                    {isDownloading ? (
+                      <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent" />
+                    ) : (
+                      <FaFile className="text-gray-500 h-3 w-3" />
+                    )}
+                    <span className="text-xs truncate max-w-32">
+                      {message.attachment!.name}
+                    </span>
+                    {!isDownloading && (
+                      <FaDownload className="h-2.5 w-2.5 text-gray-400" />
+                    )}
+                  </button>
                 )}
-                <span className="text-xs truncate max-w-32">
-                  {message.attachment!.name}
-                </span>
-                {!isDownloading && (
-                  <FaDownload className="h-2.5 w-2.5 text-gray-400" />
+                {message.uploadProgress !== undefined && (
+                  <UploadProgress
+                    progress={message.uploadProgress}
+                    onCancel={
+                      onCancelUpload && (() => onCancelUpload(message.id))
+                    }
+                    onDark={message.isCurrentUser && !message.failed}
+                  />
                 )}
-              </button>
+              </div>
             )}
-          </div>
-        )}
-
-        {/* Message content - simplified since editing is only via text bar */}
-        <div>
-          <p className="text-sm break-words whitespace-pre-wrap">
-            {message.isDeleted ? "This message was deleted" : message.content}
-          </p>
-
-          {/* Error message for failed messages */}
-          {message.failed && message.errorMessage && (
-            <p className="text-xs text-red-300 mt-1 italic">
-              {message.errorMessage}
-            </p>
-          )}
-        </div>
 
-        {/* Timestamp and status indicators */}
-        <div className="flex items-center justify-end space-x-1 mt-1">
-          {message.isEdited && !message.isDeleted && (
-            <span className="text-xs opacity-75">(edited)</span>
-          )}
+            {/* Message content - simplified since editing is only via text bar */}
+            <div>
+              {message.isDeleted ? (
+                <p className="text-sm break-words whitespace-pre-wrap">
+                  This message was deleted
+                </p>
+              ) : isVoiceMessage ? null : (
+                <MessageContent
+                  content={message.content}
+                  currentUserId={currentUserId}
+                  onDark={message.isCurrentUser && !message.failed}
+                  className="text-sm"
+                />
+              )}
 
-          {message.failed && (
-            <span className="text-xs text-red-600 font-medium">
-              Failed{" "}
-              {message.retryCount && message.retryCount > 0
-                ? `(${message.retryCount})`
-                : ""}
-            </span>
-          )}
+              {previewUrl && (
+                <LinkPreviewCard
+                  url={previewUrl}
+                  onDark={message.isCurrentUser && !message.failed}
+                />
+              )}
+
+              {/* Error message for failed messages */}
+              {message.failed && message.errorMessage && (
+                <p className="text-xs text-red-300 mt-1 italic">
+                  {message.errorMessage}
+                </p>
+              )}
+            </div>
 
-          <span className="text-xs opacity-75">
-            {formatMessageTimestamp({
-              timestamp: message.timestamp,
-              raw_timestamp: message.raw_timestamp,
-              created_at: message.created_at,
-              sent_at: message.sent_at,
-              format: "time",
-            }) || "No Time"}
-          </span>
-
-          {/* Status icons for current user messages */}
-          {message.isCurrentUser && (
-            <div className="ml-1">
-              {message.pending && <FaClock className="h-3 w-3 opacity-75" />}
-              {message.retrying && (
-                <div className="animate-spin rounded-full h-3 w-3 border border-current border-t-transparent opacity-75"></div>
+            {/* Timestamp and status indicators */}
+            <div className="flex items-center justify-end space-x-1 mt-1">
+              {message.isEdited && !message.isDeleted && (
+                <span className="text-xs opacity-75">(edited)</span>
               )}
+
+              {isPinned && !message.isDeleted && (
+                <FaThumbtack
+                  className="h-2.5 w-2.5 opacity-75"
+                  title="Pinned"
+                />
+              )}
+
               {message.failed && (
-                <FaExclamationTriangle className="h-3 w-3 text-red-300" />
+                <span className="text-xs text-red-600 font-medium">
+                  Failed{" "}
+                  {message.retryCount && message.retryCount > 0
+                    ? `(${message.retryCount})`
+                    : ""}
+                </span>
+              )}
+
+              <span className="text-xs opacity-75">
+                {formatMessageTimestamp({
+                  timestamp: message.timestamp,
+                  raw_timestamp: message.raw_timestamp,
+                  created_at: message.created_at,
+                  sent_at: message.sent_at,
+                  format: "time",
+                }) || "No Time"}
+              </span>
+
+              {/* Status icons for current user messages */}
+              {message.isCurrentUser && (
+                <div className="ml-1">
+                  {message.pending && (
+                    <FaClock className="h-3 w-3 opacity-75" />
+                  )}
+                  {message.retrying && (
+                    <div className="animate-spin rounded-full h-3 w-3 border border-current border-t-transparent opacity-75"></div>
+                  )}
+                  {message.failed && (
+                    <FaExclamationTriangle className="h-3 w-3 text-red-300" />
+                  )}
+                  {!message.pending && !message.failed && !message.retrying && (
+                    <DeliveryTicks
+                      status={
+                        message.deliveryStatus || deliveryStatusOf(message)
+                      }
+                    />
+                  )}
+                </div>
               )}
-              {!message.pending &&
-                !message.failed &&
-                !message.retrying &&
-                message.delivered && <FaCheck className="h-3 w-3 opacity-75" />}
-              {!message.pending &&
-                !message.failed &&
-                !message.retrying &&
-                message.read && (
-                  <FaCheck className="h-3 w-3 opacity-75 text-blue-300" />
-                )}
             </div>
+          </div>
+          {canReact && (
+            <ReactionPicker
+              onSelect={handleReactionToggle}
+              align={message.isCurrentUser ? "right" : "left"}
+            />
+          )}
+          {canReply && (
+            <button
+              type="button"
+              onClick={() => onReplyClick?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title="Reply"
+              aria-label="Reply"
+            >
+              <FaReply className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {canForward && (
+            <button
+              type="button"
+              onClick={() => onForwardClick?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title="Forward"
+              aria-label="Forward"
+            >
+              <FaShare className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {canPin && (
+            <button
+              type="button"
+              onClick={() => onPinToggle?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title={isPinned ? "Unpin" : "Pin"}
+              aria-label={isPinned ? "Unpin message" : "Pin message"}
+            >
+              <FaThumbtack className="h-3.5 w-3.5" />
+            </button>
           )}
         </div>
+
+        <MessageReactions
+          reactions={message.reactions}
+          currentUserId={currentUserId}
+          resolveName={resolveReactorName}
+          onToggle={canReact ? handleReactionToggle : undefined}
+          align={message.isCurrentUser ? "right" : "left"}
+        />
       </div>
     </div>
   );
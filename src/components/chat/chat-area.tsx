@@ -14,18 +14,43 @@ import {
   FaEllipsisV,
   FaTimes,
   FaPaperclip,
+  FaEye,
+  FaClock,
 } from "react-icons/fa";
 import { Paperclip } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useMessages } from "@/hooks/messages/useMessages";
+import { useOutbox } from "@/hooks/messages/useOutbox";
+import { useScrollToMessage } from "@/hooks/messages/useScrollToMessage";
+import { usePinnedMessages } from "@/hooks/messages/usePinnedMessages";
+import { useScheduledMessages } from "@/hooks/messages/useScheduledMessages";
+import { useConversationDraft } from "@/hooks/messages/useDrafts";
+import { useAttachmentInput } from "@/hooks/messages/useAttachmentInput";
+import { OutboxEntry, outboxEntryToMessage } from "@/utils/outbox";
+import { DraftAttachment, draftAttachmentToFile } from "@/utils/drafts";
+import { VOICE_MESSAGE_CAPTION } from "@/utils/voiceMessages";
+import { queryKeys } from "@/hooks/queries/queryKeys";
+import { privateHistoryQuery } from "@/hooks/queries/useMessageQueries";
+import {
+  advanceDeliveryStatus,
+  applyReaction,
+  ConversationHistory,
+  DeliveryStatus,
+  deliveryStatusOf,
+  MessageReaction,
+  normalizeReactions,
+  ReplyPreview,
+} from "@/types/messages";
+import { DeliveredData, MessageReactionData } from "@/types/websocket";
+import type { ScheduledMessage } from "@/types/scheduledMessages";
 import { useFriendship, Friend } from "@/hooks/auth/useFriends";
 import usePresence from "@/hooks/presence/usePresence";
 import { toast } from "react-hot-toast";
 import { formatMessageTimestamp } from "@/utils/timestampHelper";
 import {
-  uploadFileAndSendMessage,
-  validateFile,
   formatFileSize,
-  getMediaType,
+  getAttachmentType,
+  validateFile,
 } from "@/utils/fileUploadHelper";
 import { useWebSocketContext } from "@/hooks/websocket/WebSocketProviderNew";
 import { useEventBus } from "@/hooks/websocket/useEventBus";
@@ -33,6 +58,18 @@ import { OptimizedAvatar } from "../optimized-avatar";
 import SearchOnFriend from "./search-on-friend";
 import UserProfileInfo from "./friend-info-panel";
 import ChatAreaItem from "./chat-area-item";
+import { ReplyComposerBar } from "./reply-quote";
+import { PinnedMessagesStrip } from "./pinned-messages";
+import { MessagePreview } from "./message-content";
+import { AttachmentDropOverlay, AttachmentTray } from "./attachment-tray";
+import { VoiceRecordButton } from "./voice-message";
+import {
+  ScheduleMessageDialog,
+  ScheduledMessagesBar,
+} from "./scheduled-messages";
+import ForwardMessageDialog, {
+  ForwardableMessage,
+} from "./forward-message-dialog";
 
 // Define message interface based on the Vue template
 interface Message {
@@ -54,11 +91,15 @@ interface Message {
   isCurrentUser: boolean;
   read?: boolean;
   is_read?: boolean;
+  // Set on the current user's messages once the server has accepted them
+  deliveryStatus?: DeliveryStatus;
   isEdited?: boolean;
   isDeleted?: boolean;
   is_deleted?: boolean;
   attachment?: Attachment;
+  attachment_url?: string;
   pending?: boolean;
+  uploadProgress?: number; // 0-100 while the attachment uploads
   retrying?: boolean;
   retryCount?: number;
   sent?: boolean;
@@ -68,15 +109,20 @@ interface Message {
   fromWebSocket?: boolean;
   receivedViaWebSocket?: boolean;
   sourceApi?: boolean;
+  temp_id?: string;
+  reactions?: MessageReaction[];
+  reply_to?: string;
+  forwarded?: boolean;
   sender?: any;
   recipient?: any;
 }
 
 interface Attachment {
-  type: "image" | "file";
+  type: "image" | "file" | "audio";
   url: string;
   name: string;
   size?: string;
+  placeholder?: string; // low-res preview shown while an image loads
 }
 
 interface Recipient {
@@ -199,6 +245,16 @@ export function ChatArea({
   // State hooks
   const [inputMessage, setInputMessage] = useState("");
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ReplyPreview | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<
+    DraftAttachment[]
+  >([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [editingScheduled, setEditingScheduled] =
+    useState<ScheduledMessage | null>(null);
+  const [forwardingMessage, setForwardingMessage] =
+    useState<ForwardableMessage | null>(null);
   const [showProfile, setShowProfile] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
@@ -209,8 +265,6 @@ export function ChatArea({
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [isUploadingFile, setIsUploadingFile] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [localMessages, setLocalMessages] = useState<Message[]>([]);
   const [sessionReady, setSessionReady] = useState(false);
   const [recipientAvatarError, setRecipientAvatarError] = useState(false);
@@ -223,6 +277,7 @@ export function ChatArea({
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   // Prevent dependency array issues by using refs for functions that could change
   const isMountedRef = useRef(true);
+  const queryClient = useQueryClient();
   const previousFriendIdRef = useRef<string | null | undefined>(null);
 
   // Api hooks
@@ -234,6 +289,8 @@ export function ChatArea({
     getMessages,
     editMessage,
     deleteMessage,
+    addReaction,
+    removeReaction,
   } = useMessages();
 
   const {
@@ -280,6 +337,48 @@ export function ChatArea({
     unsubscribeFromPrivateMessages,
   } = useWebSocketContext();
 
+  // Unsent messages for this conversation, persisted across reloads
+  const {
+    entries: outboxEntries,
+    uploadProgress: outboxUploadProgress,
+    previewUrls: outboxPreviewUrls,
+    enqueue: enqueueOutbox,
+    retry: retryOutbox,
+    discard: discardOutbox,
+  } = useOutbox("private", friendId);
+
+  // Send-later messages, sent by the server when due
+  const {
+    scheduled,
+    schedule: scheduleMessage,
+    update: updateScheduled,
+    cancel: cancelScheduled,
+  } = useScheduledMessages("private", friendId);
+
+  // Unsent text, files and reply/edit context survive switching chats
+  useConversationDraft(
+    "private",
+    friendId,
+    {
+      content: inputMessage,
+      attachments: pendingAttachments,
+      reply_to: replyingTo || undefined,
+      editing_message_id: editingMessageId || undefined,
+    },
+    (draft) => {
+      setInputMessage(draft.content);
+      setPendingAttachments(draft.attachments);
+      setReplyingTo(draft.reply_to || null);
+      setEditingMessageId(draft.editing_message_id || null);
+    }
+  );
+
+  // Picker, drag-and-drop and pasted images all fill the attachment tray
+  const attachmentInput = useAttachmentInput(
+    pendingAttachments,
+    setPendingAttachments
+  );
+
   // Add effect to track session readiness
   useEffect(() => {
     if (session?.user?.id && currentUserId) {
@@ -518,8 +617,16 @@ export function ChatArea({
   }, [currentUserId, sessionReady, localMessages.length, isCurrentUserMessage]);
 
   // Helper functions for file handling
-  const getFileTypeFromUrl = (url: string): "image" | "file" => {
+  const getFileTypeFromUrl = (
+    url: string,
+    messageType?: string
+  ): "image" | "file" | "audio" => {
     const imageExtensions = [".jpg", ".jpeg", ".png", ".gif", ".bmp", ".webp"];
+    const audioExtensions = [".mp3", ".wav", ".ogg", ".m4a", ".aac", ".opus"];
+    if (messageType === "audio") return "audio";
+    if (audioExtensions.some((ext) => url.toLowerCase().includes(ext))) {
+      return "audio";
+    }
     return imageExtensions.some((ext) => url.toLowerCase().includes(ext))
       ? "image"
       : "file";
@@ -611,10 +718,42 @@ export function ChatArea({
     [blockedUsers]
   );
 
+  // Queued messages are rendered from the outbox until the server accepts
+  // them, carrying its pending/retrying/failed state and upload progress
+  const queuedMessages = useMemo(
+    (): Message[] =>
+      outboxEntries.map((entry) => ({
+        ...outboxEntryToMessage(entry),
+        sender_id: entry.sender_id || String(currentUserId),
+        receiver_id: entry.target_id,
+        raw_timestamp: entry.created_at,
+        timestamp: formatTimestamp(entry.created_at),
+        // Shown once its object URL is ready
+        attachment:
+          entry.attachment && outboxPreviewUrls[entry.temp_id]
+            ? {
+                type: getAttachmentType(entry.attachment.type),
+                url: outboxPreviewUrls[entry.temp_id],
+                name: entry.attachment.name,
+                size: formatFileSize(entry.attachment.size),
+              }
+            : undefined,
+        uploadProgress:
+          entry.attachment &&
+          !entry.attachment.uploaded &&
+          entry.status !== "failed"
+            ? outboxUploadProgress[entry.temp_id] ?? 0
+            : undefined,
+      })),
+    [outboxEntries, outboxPreviewUrls, outboxUploadProgress, currentUserId]
+  );
+
   // Enhanced message grouping by date with better formatting
   const groupedMessages = useMemo(() => {
     // Use filteredMessages when searching, otherwise use localMessages
-    const messagesToProcess = isSearching ? filteredMessages : localMessages;
+    const messagesToProcess = isSearching
+      ? filteredMessages
+      : [...localMessages, ...queuedMessages];
 
     console.log("groupedMessages - isSearching:", isSearching);
     console.log(
@@ -707,105 +846,67 @@ export function ChatArea({
     return Object.values(messagesByDate).sort(
       (a, b) => new Date(a.dateKey).getTime() - new Date(b.dateKey).getTime()
     );
-  }, [localMessages, filteredMessages, isSearching, filterBlockedMessages]);
+  }, [
+    localMessages,
+    queuedMessages,
+    filteredMessages,
+    isSearching,
+    filterBlockedMessages,
+  ]);
 
-  // Session storage management for message caching
-  const saveToSessionStorage = useCallback(
+  // Query cache management for message caching. The first page of each
+  // conversation lives under queryKeys.messages.private, so switching back to
+  // a chat shows it instantly and WebSocket events keep it current.
+  const saveToQueryCache = useCallback(
     (messagesList: Message[]) => {
       if (!messagesList || messagesList.length === 0 || !friendId) return;
 
-      try {
-        const conversationKey = `chat_${friendId}`;
+      const queryKey = queryKeys.messages.private(friendId);
 
-        // Sort messages by timestamp first to ensure newest messages are kept
-        const sortedMessages = [...messagesList].sort((a, b) => {
+      // Sort messages by timestamp first to ensure newest messages are kept
+      const sortedMessages = [...messagesList]
+        .filter((msg) => !msg.id?.startsWith("temp-")) // Exclude temp messages
+        .sort((a, b) => {
           const timeA = new Date(
             a.raw_timestamp || a.sent_at || a.created_at || a.timestamp || 0
           ).getTime();
           const timeB = new Date(
             b.raw_timestamp || b.sent_at || b.created_at || b.timestamp || 0
           ).getTime();
-          return timeB - timeA; // Sort in descending order (newest first)
-        });
-
-        // Optimize storage by saving only essential fields
-        const optimizedMessages = sortedMessages
-          .filter((msg) => !msg.id?.startsWith("temp-")) // Exclude temp messages
-          .slice(0, 100) // Keep only last 100 messages to prevent storage quota issues
-          .map((msg) => ({
-            id: msg.id,
-            content: msg.content,
-            sender_id: msg.sender_id,
-            recipient_id: msg.recipient_id,
-            created_at: msg.created_at,
-            raw_timestamp: msg.raw_timestamp || msg.sent_at || msg.created_at, // Include raw timestamp for accurate sorting
-            timestamp: msg.timestamp,
-            isCurrentUser: msg.isCurrentUser,
-            read: msg.read,
-            isEdited: msg.isEdited,
-            isDeleted: msg.isDeleted,
-            type: msg.type,
-            attachment: msg.attachment,
-          }));
-
-        sessionStorage.setItem(
-          conversationKey,
-          JSON.stringify(optimizedMessages)
-        );
-      } catch (error) {
-        // Handle QuotaExceededError by keeping only 50 latest messages
-        if (
-          error instanceof DOMException &&
-          error.name === "QuotaExceededError"
-        ) {
-          try {
-            // Sort by timestamp to ensure newest messages are kept
-            const sortedMessages = [...messagesList].sort((a, b) => {
-              const timeA = new Date(
-                a.raw_timestamp || a.sent_at || a.created_at || a.timestamp || 0
-              ).getTime();
-              const timeB = new Date(
-                b.raw_timestamp || b.sent_at || b.created_at || b.timestamp || 0
-              ).getTime();
-              return timeB - timeA; // Descending order (newest first)
-            });
-
-            // Take only the 50 newest messages
-            const reducedMessages = sortedMessages.slice(0, 50);
-            const conversationKey = `chat_${friendId}`;
-            sessionStorage.setItem(
-              conversationKey,
-              JSON.stringify(reducedMessages)
-            );
-          } catch (retryError) {}
-        }
-      }
+          return timeA - timeB;
+        })
+        .slice(-100); // Keep only the last 100 messages
+
+      // Keep the original fetch time so local edits don't postpone a refetch
+      const state = queryClient.getQueryState(queryKey);
+      queryClient.setQueryData<ConversationHistory>(
+        queryKey,
+        (old) => ({ ...old, messages: sortedMessages }),
+        { updatedAt: state?.dataUpdatedAt ?? 0 }
+      );
     },
-    [friendId]
+    [friendId, queryClient]
   );
 
-  // Load messages from session storage
-  const loadFromSessionStorage = useCallback((): Message[] => {
+  // Load messages from the query cache
+  const loadFromQueryCache = useCallback((): Message[] => {
     if (!friendId) return [];
 
-    try {
-      const conversationKey = `chat_${friendId}`;
-      const stored = sessionStorage.getItem(conversationKey);
-      if (stored) {
-        const parsedMessages = JSON.parse(stored);
-        // PERBAIKAN: Jangan recalculate ownership jika currentUserId belum ready
-        if (!currentUserId) {
-          return parsedMessages; // Return as-is, akan di-update nanti
-        }
-        // Recalculate ownership untuk cached messages
-        return parsedMessages.map((msg: any) => ({
-          ...msg,
-          isCurrentUser: isCurrentUserMessage(msg),
-        }));
-      }
-    } catch (error) {}
-    return [];
-  }, [friendId, isCurrentUserMessage, currentUserId]); // Tambahkan currentUserId ke dependency
+    const cached = queryClient.getQueryData<ConversationHistory>(
+      queryKeys.messages.private(friendId)
+    );
+    const cachedMessages = cached?.messages || [];
+
+    // PERBAIKAN: Jangan recalculate ownership jika currentUserId belum ready
+    if (!currentUserId) {
+      return cachedMessages; // Return as-is, akan di-update nanti
+    }
+    // Recalculate ownership untuk cached messages
+    return cachedMessages.map((msg: any) => ({
+      ...msg,
+      isCurrentUser: isCurrentUserMessage(msg),
+    }));
+  }, [friendId, isCurrentUserMessage, currentUserId, queryClient]);
 
   // Enhanced message validation and processing - backend now returns consistent data
   const processApiMessages = useCallback(
@@ -843,10 +944,17 @@ export function ChatArea({
           sent_at: message.sent_at,
           content: message.content || "",
           read: Boolean(message.read || message.is_read),
+          deliveryStatus: message.pending
+            ? undefined
+            : advanceDeliveryStatus(
+                message.deliveryStatus,
+                deliveryStatusOf(message)
+              ),
           isEdited: Boolean(message.isEdited || message.is_edited),
           isDeleted: Boolean(message.isDeleted || message.is_deleted),
           pending: Boolean(message.pending),
           failed: Boolean(message.failed),
+          reactions: normalizeReactions(message.reactions),
           isCurrentUser: false, // Will be set below
         };
 
@@ -858,13 +966,17 @@ export function ChatArea({
 
         // Handle attachment creation from attachment_url (similar to group-chat-area.tsx)
         if (message.attachment_url && !processedMessage.attachment) {
-          const fileType = getFileTypeFromUrl(message.attachment_url);
+          const fileType = getFileTypeFromUrl(
+            message.attachment_url,
+            message.type || message.message_type
+          );
           // Transform backend URL to proper frontend proxy URL
           const transformedUrl = transformFileUrl(message.attachment_url);
           processedMessage.attachment = {
             type: fileType,
             url: transformedUrl,
             name: getFileNameFromUrl(message.attachment_url),
+            placeholder: message.attachment_placeholder,
           };
           // Attachment created from URL
         }
@@ -890,7 +1002,7 @@ export function ChatArea({
     [isCurrentUserMessage, currentUserId, friendId, enhanceMessageWithAvatar]
   );
 
-  // Enhanced message loading with session storage integration (Vue.js style)
+  // Enhanced message loading with query cache integration (Vue.js style)
   useEffect(() => {
     // Skip if friendId hasn't changed or is null
     if (!friendId || friendId === previousFriendIdRef.current) return;
@@ -901,13 +1013,15 @@ export function ChatArea({
     // Reset state for new conversation
     setFilteredMessages([]);
     setEditingMessageId(null);
+    setReplyingTo(null);
+    setPendingAttachments([]);
     setInputMessage("");
     setIsSearching(false);
 
     setIsLoading(true);
 
     // 1. Load cached messages first for instant display
-    const cachedMessages = loadFromSessionStorage();
+    const cachedMessages = loadFromQueryCache();
     if (cachedMessages.length > 0) {
       const processedCachedMessages = processApiMessages(cachedMessages);
       setLocalMessages(processedCachedMessages);
@@ -971,51 +1085,17 @@ export function ChatArea({
     // Always load fresh messages from API
     const loadFreshMessages = async () => {
       try {
-        // Always get the latest messages when switching rooms
-        const response = await getMessages(friendId);
+        // Served from the cache while fresh, so switching rooms doesn't
+        // refetch; concurrent loads of the same chat share one request
+        const response = await queryClient.fetchQuery(
+          privateHistoryQuery(friendId, () => getMessages(friendId))
+        );
 
         if (!isMountedRef.current) return; // Stop if component unmounted
 
-        // Extract messages from the API response
-        let messagesArray = [];
-
-        // Check if response indicates an error state
-        if (response && response.success === false) {
-          // Handle specific error cases
-          if (
-            response.errorCode === "ALL_METHODS_FAILED" ||
-            response.error?.includes("Could not retrieve message history")
-          ) {
-            // Don't throw error, just use cached messages
-            messagesArray = [];
-          } else {
-            // For other errors, still try to extract any messages that might be present
-            messagesArray = response.messages || response.data || [];
-          }
-        } else {
-          // Normal response processing
-          if (Array.isArray(response)) {
-            messagesArray = response;
-          } else if (response && Array.isArray(response.data)) {
-            messagesArray = response.data;
-          } else if (response && Array.isArray(response.messages)) {
-            messagesArray = response.messages;
-          } else if (response && typeof response === "object") {
-            // Find the first array property in the response
-            const arrayProps = Object.entries(response)
-              .filter(([_, value]) => Array.isArray(value))
-              .sort(([_, a], [__, b]) =>
-                Array.isArray(b)
-                  ? b.length - (Array.isArray(a) ? a.length : 0)
-                  : 0
-              );
-
-            if (arrayProps.length > 0) {
-              const [propName, array] = arrayProps[0];
-              messagesArray = array;
-            }
-          }
-        }
+        // The cached history is already normalized; failed loads throw with
+        // their errorCode and are handled below
+        const messagesArray = response.messages;
 
         // Enhanced logic to ensure latest messages are properly displayed
         if (messagesArray.length > 0) {
@@ -1061,7 +1141,7 @@ export function ChatArea({
                 }));
 
               // Save to session storage for next time
-              saveToSessionStorage(sortedMessages);
+              saveToQueryCache(sortedMessages);
 
               return sortedMessages;
             });
@@ -1076,7 +1156,7 @@ export function ChatArea({
                 })
               );
               setLocalMessages(messagesWithCorrectOwnership);
-              saveToSessionStorage(messagesWithCorrectOwnership);
+              saveToQueryCache(messagesWithCorrectOwnership);
             } else if (
               processedMessages.length > 0 &&
               cachedMessages.length === 0
@@ -1090,15 +1170,13 @@ export function ChatArea({
                 })
               );
               setLocalMessages(messagesWithCorrectOwnership);
-              saveToSessionStorage(messagesWithCorrectOwnership);
+              saveToQueryCache(messagesWithCorrectOwnership);
             }
           }
         } else {
           if (cachedMessages.length === 0) {
             setLocalMessages([]);
           }
-          // Clear session storage if no messages
-          saveToSessionStorage([]);
         }
       } catch (error: any) {
         // Handle specific API error cases
@@ -1159,9 +1237,10 @@ export function ChatArea({
     getFriends,
     getMessages,
     isCurrentUserMessage,
-    loadFromSessionStorage,
+    loadFromQueryCache,
     processApiMessages,
-    saveToSessionStorage,
+    queryClient,
+    saveToQueryCache,
     setRecipientData,
     recipientName,
   ]);
@@ -1212,12 +1291,16 @@ export function ChatArea({
         type: messageData.type || messageData.message_type || "text",
         isCurrentUser: isCurrentUserMessage(messageData),
         read: Boolean(messageData.read || messageData.is_read),
+        // Our own message coming back is the server's acknowledgement
+        deliveryStatus: deliveryStatusOf(messageData),
         isEdited: Boolean(messageData.isEdited || messageData.is_edited),
         isDeleted: Boolean(messageData.isDeleted || messageData.is_deleted),
         fromWebSocket: true,
         receivedViaWebSocket: true,
         sender: messageData.sender,
         attachment: messageData.attachment,
+        reply_to: messageData.reply_to,
+        forwarded: messageData.forwarded,
         timestamp: formatTimestamp(validRawTimestamp),
       };
 
@@ -1261,7 +1344,7 @@ export function ChatArea({
         });
 
         // Important: Always update session storage with new messages
-        saveToSessionStorage(updatedMessages);
+        saveToQueryCache(updatedMessages);
 
         return updatedMessages;
       });
@@ -1312,7 +1395,12 @@ export function ChatArea({
           prev.map((msg) =>
             messageIds.includes(msg.id) ||
             messageIds.includes(msg.message_id || "")
-              ? { ...msg, read: true, is_read: true }
+              ? {
+                  ...msg,
+                  read: true,
+                  is_read: true,
+                  deliveryStatus: "read" as const,
+                }
               : msg
           )
         );
@@ -1344,7 +1432,7 @@ export function ChatArea({
     };
 
     // Register enhanced event listeners
-    const unsubscribeNewMessage = eventBus.on("new_message", handleNewMessage);
+    const unsubscribeNewMessage = eventBus.on("new-message", handleNewMessage);
     const unsubscribeMessageReceived = eventBus.on(
       "message-received",
       handleNewMessage
@@ -1353,23 +1441,18 @@ export function ChatArea({
       "typing-status-changed",
       handleTypingStatus
     );
-    const unsubscribeUserTyping = eventBus.on(
-      "user_typing",
-      handleTypingStatus
-    ); // Alternative event name
     const unsubscribeMessageRead = eventBus.on(
-      "message-read",
+      "messages-read",
       handleMessageRead
-    ); // Fixed event name
-    // Note: message_updated and message_deleted are not defined in EventTypes
-    // These would need to be added to the EventTypes interface or handled differently
+    );
+    // Note: edits and deletions are not applied here yet, see message-edited
+    // and message-deleted in types/events.ts
 
     // Cleanup
     return () => {
       unsubscribeNewMessage();
       unsubscribeMessageReceived();
       unsubscribeTypingStatus();
-      unsubscribeUserTyping();
       unsubscribeMessageRead();
       // Removed message_updated and message_deleted event cleanup
     };
@@ -1377,7 +1460,7 @@ export function ChatArea({
     friendId,
     currentUserId,
     isCurrentUserMessage,
-    saveToSessionStorage,
+    saveToQueryCache,
     enhanceMessageWithAvatar,
   ]);
 
@@ -1438,267 +1521,338 @@ export function ChatArea({
 
   // HANDLERS
 
-  // Enhanced message sending with optimistic updates and retry mechanisms (Vue.js style)
+  // A queued file is cancelled by dropping it from the outbox
+  const handleCancelUpload = useCallback(
+    async (messageId: string) => {
+      await discardOutbox(messageId);
+      toast("Upload cancelled");
+    },
+    [discardOutbox]
+  );
+
+  // Files are queued in the outbox like text, which uploads them and then
+  // posts the message
+  const sendAttachment = async (file: File, caption?: string) => {
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      toast.error(validation.error || "Invalid file");
+      return;
+    }
+
+    await enqueueOutbox(caption || `📎 ${file.name}`, { file });
+    if (!navigator.onLine) {
+      toast("File will be sent when you're back online");
+    }
+  };
+
+  // Messages go through the outbox: it stores them before sending, so a
+  // reload or a dropped connection doesn't lose them, and replays them in order
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!inputMessage.trim() || !friendId || isSending) return;
+    if (
+      (!inputMessage.trim() && pendingAttachments.length === 0) ||
+      !friendId ||
+      isSending
+    ) {
+      return;
+    }
 
     const messageContent = inputMessage.trim();
+    const replyTo = replyingTo;
+    const attachments = pendingAttachments;
     setInputMessage(""); // Clear input early for better UX
+    setReplyingTo(null);
+    setPendingAttachments([]);
     setIsSending(true);
 
-    // Generate unique temp ID for optimistic update
-    const tempId = `temp-${Date.now()}-${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-
+    let queuedFiles = 0;
     try {
-      // Create optimistic message for immediate UI feedback
-      const nowIsoString = new Date().toISOString();
-      const optimisticMessage: Message = {
-        id: tempId,
-        message_id: tempId,
-        content: messageContent,
-        created_at: nowIsoString,
-        timestamp: formatTimestamp(nowIsoString),
-        raw_timestamp: nowIsoString, // Store raw timestamp for accurate sorting
-        sender_id: currentUserId,
-        recipient_id: friendId,
-        receiver_id: friendId, // Add receiver_id for consistency with API standard
-        isCurrentUser: true,
-        pending: true,
-        read: false,
-        type: "text",
-        sent: false,
-        failed: false,
-        retryCount: 0,
-      };
+      // Files go first, each as its own message
+      for (const attachment of attachments) {
+        await sendAttachment(
+          draftAttachmentToFile(attachment),
+          attachment.caption?.trim() || undefined
+        );
+        queuedFiles += 1;
+      }
 
-      // Add optimistic message to UI immediately
-      setLocalMessages((prev) => {
-        const updatedMessages = [...prev, optimisticMessage].sort((a, b) => {
-          // Use raw_timestamp for most accurate sorting, fallback to other timestamps
-          const timeA = new Date(
-            a.raw_timestamp || a.created_at || a.sent_at || a.timestamp || 0
-          ).getTime();
-          const timeB = new Date(
-            b.raw_timestamp || b.created_at || a.sent_at || b.timestamp || 0
-          ).getTime();
-          return timeA - timeB;
-        });
-        return updatedMessages;
-      });
+      if (messageContent) {
+        await enqueueOutbox(messageContent, { replyTo: replyTo?.id });
+      }
 
       // Auto-scroll to show the new message
       setTimeout(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
       }, 50);
+    } catch (error) {
+      // Only reached when the outbox itself is unavailable
+      setInputMessage(messageContent);
+      setReplyingTo(replyTo);
+      setPendingAttachments(attachments.slice(queuedFiles));
+      toast.error("Failed to send message. Please try again.", {
+        duration: 5000,
+        position: "top-center",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-      let response: any = null;
-      let messageId = tempId;
+  // Errors are left to the schedule dialog, which shows them
+  const handleScheduleMessage = async (sendAt: string) => {
+    const messageContent = inputMessage.trim();
+    if (!messageContent) return;
 
-      // Enhanced sending logic with WebSocket priority and API fallback
-      if (isConnected) {
-        try {
-          const wsResult = await sendPrivateMessage(friendId, messageContent);
-          // WebSocket returns boolean, use temp ID for now
-          if (wsResult) {
-            // Keep temp ID for WebSocket messages since they don't return message ID
-            messageId = tempId;
-          }
-        } catch (wsError) {
-          response = await sendMessage(friendId, messageContent);
-
-          if (
-            response &&
-            typeof response === "object" &&
-            response.data &&
-            (response.data.id || response.data.message_id)
-          ) {
-            messageId = response.data.id || response.data.message_id;
+    await scheduleMessage(messageContent, sendAt, {
+      reply_to: replyingTo?.id,
+    });
+    setInputMessage("");
+    setReplyingTo(null);
+    toast.success("Message scheduled");
+  };
+
+  const handleCancelScheduled = async (message: ScheduledMessage) => {
+    try {
+      await cancelScheduled(message.id);
+      toast.success("Scheduled message cancelled");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel scheduled message"
+      );
+    }
+  };
+
+  // Failed messages stay in the outbox; retrying sends them again
+  const retryFailedMessage = useCallback(
+    async (message: Message) => {
+      await retryOutbox(message.temp_id || message.id);
+    },
+    [retryOutbox]
+  );
+
+  // Move delivered outbox messages into the conversation under their
+  // server id
+  useEffect(() => {
+    if (!friendId) return;
+
+    const handleDelivered = ({
+      entry,
+      message,
+    }: {
+      entry: OutboxEntry;
+      message: any;
+    }) => {
+      if (entry.conversation_type !== "private" || entry.target_id !== friendId)
+        return;
+
+      const [delivered] = processApiMessages([
+        {
+          ...message,
+          id: message?.id || message?.message_id || entry.temp_id,
+          temp_id: entry.temp_id,
+          sender_id: message?.sender_id || entry.sender_id,
+          recipient_id: friendId,
+          content: message?.content ?? entry.content,
+          created_at: message?.created_at || entry.created_at,
+          type: message?.type || entry.message_type,
+          reply_to: message?.reply_to || entry.reply_to,
+        },
+      ]);
+
+      setLocalMessages((prev) => {
+        // The WebSocket echo may have added it already
+        if (prev.some((msg) => msg.id === delivered.id)) return prev;
+
+        const updatedMessages = [...prev, { ...delivered, sent: true }].sort(
+          (a, b) => {
+            const timeA = new Date(
+              a.raw_timestamp || a.sent_at || a.created_at || a.timestamp || 0
+            ).getTime();
+            const timeB = new Date(
+              b.raw_timestamp || b.sent_at || b.created_at || b.timestamp || 0
+            ).getTime();
+            return timeA - timeB;
           }
-        }
-      } else {
-        response = await sendMessage(friendId, messageContent);
+        );
+        saveToQueryCache(updatedMessages);
+        return updatedMessages;
+      });
+    };
 
-        if (
-          response &&
-          typeof response === "object" &&
-          response.data &&
-          (response.data.id || response.data.message_id)
-        ) {
-          messageId = response.data.id || response.data.message_id;
-        }
-      }
+    return eventBus.on("outbox-delivered", handleDelivered);
+  }, [friendId, eventBus, processApiMessages, saveToQueryCache]);
 
-      // Update optimistic message with successful state
+  // Move the current user's messages forward in the delivery pipeline
+  const advanceDelivery = useCallback(
+    (statuses: Map<string, DeliveryStatus>) => {
       setLocalMessages((prev) => {
+        let changed = false;
         const updatedMessages = prev.map((msg) => {
-          if (msg.id === tempId) {
-            return {
-              ...msg,
-              id: messageId,
-              message_id: messageId,
-              receiver_id: friendId, // Ensure receiver_id is set to friendId
-              recipient_id: friendId, // Ensure recipient_id is set to friendId
-              pending: false,
-              sent: true,
-              failed: false,
-              sourceApi: !isConnected, // Track if sent via API fallback
-              // Include any additional data from response
-              ...(response && typeof response === "object" ? response : {}),
-            };
-          }
-          return msg;
+          const status =
+            statuses.get(msg.id) || statuses.get(msg.message_id || "");
+          if (!status || !msg.isCurrentUser || msg.pending) return msg;
+
+          const deliveryStatus = advanceDeliveryStatus(
+            msg.deliveryStatus,
+            status
+          );
+          if (deliveryStatus === msg.deliveryStatus) return msg;
+          changed = true;
+          return deliveryStatus === "read"
+            ? { ...msg, deliveryStatus, read: true, is_read: true }
+            : { ...msg, deliveryStatus };
         });
+        if (!changed) return prev;
 
-        // Update session storage with successful message
-        saveToSessionStorage(updatedMessages);
+        saveToQueryCache(updatedMessages);
         return updatedMessages;
       });
-    } catch (error) {
-      // Update optimistic message to show failure state
-      setLocalMessages((prev) =>
-        prev.map((msg) => {
-          if (msg.id === tempId) {
-            return {
-              ...msg,
-              pending: false,
-              failed: true,
-              sent: false,
-              errorMessage:
-                error instanceof Error
-                  ? error.message
-                  : "Failed to send message",
-              retryCount: (msg.retryCount || 0) + 1,
-            };
-          }
-          return msg;
-        })
+    },
+    [saveToQueryCache]
+  );
+
+  // Delivery acknowledgements from the recipient's client. After a
+  // reconnect, acknowledgements missed while offline are caught up from
+  // the server's copy of the conversation.
+  useEffect(() => {
+    if (!friendId) return;
+
+    const handleDeliveredAck = (data: DeliveredData) => {
+      if (data.recipient_id && String(data.recipient_id) !== friendId) return;
+      advanceDelivery(
+        new Map(
+          data.message_ids.map((id) => [String(id), "delivered" as const])
+        )
       );
+    };
 
-      // Show error notification
-      toast.error("Failed to send message. Click the message to retry.", {
-        duration: 5000,
-        position: "top-center",
-      });
-    } finally {
-      setIsSending(false);
-    }
-  };
+    const handleReconnected = async (socket: "messages" | "presence") => {
+      if (socket !== "messages") return;
 
-  // Enhanced retry mechanism for failed messages
-  const retryFailedMessage = useCallback(
-    async (message: Message) => {
-      if (!message.content || !friendId) return;
+      try {
+        const response = await queryClient.fetchQuery({
+          ...privateHistoryQuery(friendId, () => getMessages(friendId)),
+          staleTime: 0,
+        });
+        advanceDelivery(
+          new Map(
+            response.messages.map((message) => [
+              String(message.id || message.message_id),
+              deliveryStatusOf(message),
+            ])
+          )
+        );
+      } catch (error) {
+        // Statuses catch up on the next load of the conversation
+      }
+    };
 
-      // Update message to show retrying state
+    const unsubscribeDelivered = eventBus.on(
+      "messages-delivered",
+      handleDeliveredAck
+    );
+    const unsubscribeConnected = eventBus.on(
+      "websocket-connected",
+      handleReconnected
+    );
+    return () => {
+      unsubscribeDelivered();
+      unsubscribeConnected();
+    };
+  }, [friendId, advanceDelivery, queryClient, getMessages]);
+
+  // Apply a reaction change to one message in local state
+  const updateMessageReactions = useCallback(
+    (
+      messageId: string,
+      userId: string,
+      emoji: string,
+      action: "add" | "remove"
+    ) => {
       setLocalMessages((prev) =>
         prev.map((msg) =>
-          msg.id === message.id
-            ? { ...msg, retrying: true, failed: false, errorMessage: undefined }
+          msg.id === messageId || msg.message_id === messageId
+            ? {
+                ...msg,
+                reactions: applyReaction(msg.reactions, userId, emoji, action),
+              }
             : msg
         )
       );
+    },
+    []
+  );
 
-      try {
-        let response: any = null;
-        let messageId = message.id;
+  // Toggle the current user's reaction, optimistically
+  const handleReactionToggle = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!currentUserId) return;
 
-        // Retry with same logic as new messages
-        if (isConnected) {
-          try {
-            const wsResult = await sendPrivateMessage(
-              friendId,
-              message.content
-            );
-            if (wsResult) {
-              // WebSocket successful, keep existing message ID
-              messageId = message.id;
-            }
-          } catch (wsError) {
-            response = await sendMessage(friendId, message.content);
-            if (
-              response &&
-              typeof response === "object" &&
-              response.data &&
-              (response.data.id || response.data.message_id)
-            ) {
-              messageId = response.data.id || response.data.message_id;
-            }
-          }
-        } else {
-          response = await sendMessage(friendId, message.content);
-          if (
-            response &&
-            typeof response === "object" &&
-            response.data &&
-            (response.data.id || response.data.message_id)
-          ) {
-            messageId = response.data.id || response.data.message_id;
-          }
-        }
-
-        // Update message to show success
-        setLocalMessages((prev) => {
-          const updatedMessages = prev.map((msg) =>
-            msg.id === message.id
-              ? {
-                  ...msg,
-                  id: messageId,
-                  message_id: messageId,
-                  receiver_id: friendId, // Ensure receiver_id is set to friendId
-                  recipient_id: friendId, // Ensure recipient_id is set to friendId
-                  retrying: false,
-                  failed: false,
-                  sent: true,
-                  errorMessage: undefined,
-                  retryCount: (msg.retryCount || 0) + 1,
-                }
-              : msg
-          );
+      const userId = String(currentUserId);
+      const message = localMessages.find((msg) => msg.id === messageId);
+      const hasReacted = Boolean(
+        message?.reactions?.some(
+          (reaction) =>
+            reaction.emoji === emoji && reaction.users.includes(userId)
+        )
+      );
+      const action = hasReacted ? "remove" : "add";
 
-          saveToSessionStorage(updatedMessages);
-          return updatedMessages;
-        });
+      updateMessageReactions(messageId, userId, emoji, action);
 
-        toast.success("Message sent successfully!", {
-          duration: 2000,
-          position: "top-center",
-        });
+      try {
+        if (hasReacted) {
+          await removeReaction(messageId, emoji);
+        } else {
+          await addReaction(messageId, emoji);
+        }
       } catch (error) {
-        // Update message to show retry failure
-        setLocalMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === message.id
-              ? {
-                  ...msg,
-                  retrying: false,
-                  failed: true,
-                  errorMessage:
-                    error instanceof Error ? error.message : "Retry failed",
-                  retryCount: (msg.retryCount || 0) + 1,
-                }
-              : msg
-          )
+        // Roll back the optimistic change
+        updateMessageReactions(
+          messageId,
+          userId,
+          emoji,
+          hasReacted ? "add" : "remove"
         );
-
-        toast.error("Retry failed. Please try again.", {
-          duration: 4000,
-          position: "top-center",
-        });
+        toast.error("Failed to update reaction");
       }
     },
     [
-      friendId,
-      isConnected,
-      sendPrivateMessage,
-      sendMessage,
-      saveToSessionStorage,
+      currentUserId,
+      localMessages,
+      updateMessageReactions,
+      addReaction,
+      removeReaction,
     ]
   );
 
+  // Reactions from either side of the conversation, live over the socket.
+  // Our own reactions come back too; applyReaction ignores the repeat.
+  useEffect(() => {
+    const handleReaction = (data: MessageReactionData) => {
+      updateMessageReactions(
+        data.message_id,
+        String(data.user_id),
+        data.emoji,
+        data.action || "add"
+      );
+    };
+
+    return eventBus.on("message-reaction", handleReaction);
+  }, [eventBus, updateMessageReactions]);
+
+  // Name shown in the reaction tooltip
+  const resolveReactorName = useCallback(
+    (userId: string) =>
+      userId === friendId
+        ? recipient.display_name || recipient.name
+        : "Unknown",
+    [friendId, recipient]
+  );
+
   // Handle typing indicator with enhanced WebSocket integration
   const handleTyping = useCallback(() => {
     // Clear existing timeout
@@ -1724,6 +1878,106 @@ export function ChatArea({
     }, 3000);
   }, [isConnected, friendId]);
 
+  // Messages by id, for resolving the originals of replies
+  const messagesById = useMemo(
+    () => new Map(localMessages.map((msg) => [msg.id, msg])),
+    [localMessages]
+  );
+
+  const getReplyPreview = useCallback(
+    (messageId: string): ReplyPreview | null => {
+      const original = messagesById.get(messageId);
+      if (!original) return null;
+
+      return {
+        id: original.id,
+        senderName: original.isCurrentUser
+          ? "You"
+          : recipient.display_name || recipient.name,
+        content: original.content || original.attachment?.name || "",
+        isDeleted: original.isDeleted,
+      };
+    },
+    [messagesById, recipient]
+  );
+
+  const handleReplyClick = useCallback(
+    (messageId: string) => {
+      const preview = getReplyPreview(messageId);
+      if (!preview) return;
+
+      setReplyingTo(preview);
+      textareaRef.current?.focus();
+    },
+    [getReplyPreview]
+  );
+
+  const handleForwardClick = useCallback(
+    (messageId: string) => {
+      const original = messagesById.get(messageId);
+      if (!original || original.isDeleted) return;
+
+      setForwardingMessage({
+        content: original.content,
+        type: original.type || original.message_type,
+        attachment_url: original.attachment_url,
+        attachment: original.attachment,
+      });
+    },
+    [messagesById]
+  );
+
+  // Older pages loaded while looking for the original of a reply
+  const mergeOlderMessages = useCallback(
+    (olderMessages: any[]) => {
+      const processed = processApiMessages(olderMessages);
+
+      setLocalMessages((prev) => {
+        const existingIds = new Set(prev.map((msg) => msg.id));
+        const missing = processed.filter((msg) => !existingIds.has(msg.id));
+        if (missing.length === 0) return prev;
+
+        return [...missing, ...prev].sort((a, b) => {
+          const timeA = new Date(
+            a.raw_timestamp || a.sent_at || a.created_at || a.timestamp || 0
+          ).getTime();
+          const timeB = new Date(
+            b.raw_timestamp || b.sent_at || b.created_at || b.timestamp || 0
+          ).getTime();
+          return timeA - timeB;
+        });
+      });
+    },
+    [processApiMessages]
+  );
+
+  const { scrollToMessage } = useScrollToMessage({
+    targetId: friendId,
+    type: "private",
+    onOlderMessages: mergeOlderMessages,
+  });
+
+  // Both participants of a private chat may pin
+  const { pins, isPinned, togglePin } = usePinnedMessages("private", friendId);
+
+  const handlePinToggle = useCallback(
+    (messageId: string) => {
+      const original = messagesById.get(messageId);
+      if (!original) return;
+
+      togglePin({
+        message_id: original.id,
+        sender_id: original.sender_id,
+        sender_name: original.isCurrentUser
+          ? session?.user?.name || "You"
+          : recipient.display_name || recipient.name,
+        content: original.content,
+        attachment_url: original.attachment_url || original.attachment?.url,
+      });
+    },
+    [messagesById, togglePin, session?.user?.name, recipient]
+  );
+
   // Enhanced edit message functionality
   const handleEditMessage = useCallback(
     (messageId: string) => {
@@ -1803,7 +2057,7 @@ export function ChatArea({
         );
 
         // Update session storage
-        saveToSessionStorage(updatedMessages);
+        saveToQueryCache(updatedMessages);
         return updatedMessages;
       });
 
@@ -1851,7 +2105,7 @@ export function ChatArea({
     inputMessage,
     localMessages,
     editMessage,
-    saveToSessionStorage,
+    saveToQueryCache,
   ]);
 
   // Enhanced delete/unsend message with confirmation
@@ -1925,7 +2179,7 @@ export function ChatArea({
           );
 
           // Update session storage
-          saveToSessionStorage(updatedMessages);
+          saveToQueryCache(updatedMessages);
           return updatedMessages;
         });
 
@@ -1947,7 +2201,7 @@ export function ChatArea({
         });
       }
     },
-    [localMessages, deleteMessage, saveToSessionStorage]
+    [localMessages, deleteMessage, saveToQueryCache]
   );
 
   // Handle search
@@ -2041,7 +2295,11 @@ export function ChatArea({
   return (
     <div className="flex h-full bg-white">
       {/* Main chat area */}
-      <div className="flex flex-col flex-1 min-w-0">
+      <div
+        className="relative flex flex-col flex-1 min-w-0"
+        {...attachmentInput.dropZoneProps}
+      >
+        {attachmentInput.isDragging && <AttachmentDropOverlay />}
         {/* Header with recipient info */}
         <div className="px-6 py-4 bg-white border-b border-gray-200 flex items-center justify-between">
           <div className="flex items-center">
@@ -2096,6 +2354,12 @@ export function ChatArea({
           onSearch={handleAdvancedSearch}
         />
 
+        <PinnedMessagesStrip
+          pins={pins}
+          onSelect={scrollToMessage}
+          onUnpin={togglePin}
+        />
+
         {/* Messages container */}
         <div
           className="flex-1 overflow-auto p-6 space-y-4 relative"
@@ -2165,8 +2429,24 @@ export function ChatArea({
                   message={message}
                   recipient={recipient}
                   onRetryClick={retryFailedMessage}
+                  onCancelUpload={handleCancelUpload}
                   onEditClick={handleEditMessage}
                   onDeleteClick={handleUnsendMessage}
+                  onReactionToggle={handleReactionToggle}
+                  currentUserId={
+                    currentUserId ? String(currentUserId) : undefined
+                  }
+                  resolveReactorName={resolveReactorName}
+                  onReplyClick={handleReplyClick}
+                  replyPreview={
+                    message.reply_to
+                      ? getReplyPreview(message.reply_to)
+                      : undefined
+                  }
+                  onQuoteClick={scrollToMessage}
+                  onForwardClick={handleForwardClick}
+                  onPinToggle={handlePinToggle}
+                  isPinned={isPinned(message.id)}
                 />
               ))}
             </div>
@@ -2192,6 +2472,32 @@ export function ChatArea({
             </div>
           )}
 
+          {replyingTo && !editingMessageId && (
+            <ReplyComposerBar
+              preview={replyingTo}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+
+          <ScheduledMessagesBar
+            scheduled={scheduled}
+            onEdit={setEditingScheduled}
+            onCancel={handleCancelScheduled}
+          />
+
+          <AttachmentTray
+            attachments={pendingAttachments}
+            onRemove={attachmentInput.removeAttachment}
+            onCaptionChange={attachmentInput.setCaption}
+          />
+
+          {showPreview && (
+            <MessagePreview
+              content={inputMessage}
+              currentUserId={currentUserId ? String(currentUserId) : undefined}
+            />
+          )}
+
           <form
             onSubmit={handleFormSubmit}
             className="flex items-center space-x-3"
@@ -2200,83 +2506,9 @@ export function ChatArea({
               type="file"
               ref={fileInputRef}
               className="hidden"
-              onChange={async (e) => {
-                const file = e.target.files?.[0];
-                if (file && friendId) {
-                  try {
-                    // Validate file first
-                    const validation = validateFile(file);
-                    if (!validation.valid) {
-                      toast.error(validation.error || "Invalid file");
-                      return;
-                    }
-
-                    setIsUploadingFile(true);
-                    setUploadProgress(0);
-
-                    // Upload file and send message using fileUploadHelper
-                    const result = await uploadFileAndSendMessage(
-                      file,
-                      friendId,
-                      `📎 ${file.name}`,
-                      false, // isGroup = false for individual chat
-                      (progress) => setUploadProgress(progress),
-                      session?.access_token
-                    );
-
-                    // Add the message to local state
-                    const newMessage: Message = {
-                      id: result.messageId || `file-${Date.now()}`,
-                      content: `📎 ${file.name}`,
-                      sender_id: String(currentUserId),
-                      receiver_id: friendId,
-                      recipient_id: friendId,
-                      isCurrentUser: true,
-                      timestamp: new Date().toISOString(),
-                      sent_at: new Date().toISOString(),
-                      created_at: new Date().toISOString(),
-                      raw_timestamp: new Date().toISOString(),
-                      pending: false,
-                      attachment: {
-                        type:
-                          getMediaType(file.type) === "image"
-                            ? "image"
-                            : "file",
-                        url: result.fileUrl,
-                        name: file.name,
-                        size: formatFileSize(file.size),
-                      },
-                    };
-
-                    setLocalMessages((prev) => {
-                      const updatedMessages = [...prev, newMessage];
-                      saveToSessionStorage(updatedMessages);
-                      return updatedMessages;
-                    });
-
-                    // Scroll to bottom to show new message
-                    setTimeout(() => {
-                      messagesEndRef.current?.scrollIntoView({
-                        behavior: "smooth",
-                      });
-                    }, 100);
-
-                    toast.success("File uploaded successfully!");
-                  } catch (error) {
-                    toast.error(
-                      error instanceof Error
-                        ? error.message
-                        : "File upload failed"
-                    );
-                  } finally {
-                    setIsUploadingFile(false);
-                    setUploadProgress(0);
-                    // Clear the file input
-                    e.target.value = "";
-                  }
-                }
-              }}
-              accept="image/*,application/pdf,.doc,.docx,.txt"
+              multiple
+              onChange={attachmentInput.handleFileInputChange}
+              accept="image/*,audio/*,application/pdf,.doc,.docx,.txt"
             />
 
             <button
@@ -2288,9 +2520,24 @@ export function ChatArea({
               <Paperclip className="h-4 w-4" />
             </button>
 
+            <button
+              type="button"
+              onClick={() => setShowPreview((prev) => !prev)}
+              className={`p-1.5 transition-colors ${
+                showPreview
+                  ? "text-blue-500"
+                  : "text-gray-400 hover:text-blue-400"
+              }`}
+              title={showPreview ? "Hide preview" : "Preview formatting"}
+              aria-pressed={showPreview}
+            >
+              <FaEye className="h-4 w-4" />
+            </button>
+
             <textarea
               ref={textareaRef}
               value={inputMessage}
+              onPaste={attachmentInput.handlePaste}
               onChange={(e) => {
                 setInputMessage(e.target.value);
                 handleTyping();
@@ -2316,9 +2563,35 @@ export function ChatArea({
               }}
             />
 
+            {!editingMessageId && (
+              <VoiceRecordButton
+                onRecorded={(file) =>
+                  sendAttachment(file, VOICE_MESSAGE_CAPTION).catch(() =>
+                    toast.error("Failed to send voice message")
+                  )
+                }
+                disabled={isSending}
+              />
+            )}
+
+            {!editingMessageId && (
+              <button
+                type="button"
+                onClick={() => setIsScheduling(true)}
+                disabled={!inputMessage.trim() || isSending}
+                className="p-1.5 text-gray-400 hover:text-blue-400 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+                title="Schedule message"
+              >
+                <FaClock className="h-4 w-4" />
+              </button>
+            )}
+
             <button
               type="submit"
-              disabled={!inputMessage.trim() || isSending}
+              disabled={
+                (!inputMessage.trim() && pendingAttachments.length === 0) ||
+                isSending
+              }
               className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               title="Send message"
             >
@@ -2329,23 +2602,6 @@ export function ChatArea({
               )}
             </button>
           </form>
-
-          {isUploadingFile && (
-            <div className="mt-1 bg-blue-50 border border-blue-200 rounded-md p-2">
-              <div className="flex items-center">
-                <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent mr-2" />
-                <span className="text-xs text-blue-600">
-                  Uploading... {uploadProgress}%
-                </span>
-              </div>
-              <div className="w-full bg-blue-200 rounded-full h-1 mt-1">
-                <div
-                  className="bg-blue-500 h-1 rounded-full transition-all duration-300"
-                  style={{ width: `${uploadProgress}%` }}
-                />
-              </div>
-            </div>
-          )}
         </div>
       </div>
 
@@ -2362,6 +2618,36 @@ export function ChatArea({
             username: recipient.name,
           }}
           onClose={() => setShowInfo(false)}
+          onJumpToMessage={scrollToMessage}
+        />
+      )}
+
+      {forwardingMessage && (
+        <ForwardMessageDialog
+          message={forwardingMessage}
+          onClose={() => setForwardingMessage(null)}
+        />
+      )}
+
+      {isScheduling && (
+        <ScheduleMessageDialog
+          title="Schedule message"
+          submitLabel="Schedule"
+          onSubmit={handleScheduleMessage}
+          onClose={() => setIsScheduling(false)}
+        />
+      )}
+
+      {editingScheduled && (
+        <ScheduleMessageDialog
+          title="Edit scheduled message"
+          content={editingScheduled.content}
+          sendAt={editingScheduled.send_at}
+          submitLabel="Save"
+          onSubmit={(sendAt, content) =>
+            updateScheduled(editingScheduled.id, { send_at: sendAt, content })
+          }
+          onClose={() => setEditingScheduled(null)}
         />
       )}
     </div>
@@ -0,0 +1,268 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  FaCheck,
+  FaFile,
+  FaSearch,
+  FaShare,
+  FaTimes,
+  FaUsers,
+} from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { useMessages } from "@/hooks/messages/useMessages";
+import { useFriendsQuery } from "@/hooks/queries/useFriendQueries";
+import { useGroupsQuery } from "@/hooks/queries/useGroupQueries";
+import { stripMentionTokens } from "@/utils/mentions";
+import { OptimizedAvatar } from "../optimized-avatar";
+
+// What gets copied into the target conversations
+export interface ForwardableMessage {
+  content: string; // may carry group mention tokens
+  type?: string; // message type of the original
+  attachment_url?: string;
+  attachment?: {
+    type: "image" | "file" | "audio";
+    url: string;
+    name: string;
+  };
+}
+
+type ForwardTarget = {
+  type: "friend" | "group";
+  id: string;
+  name: string;
+  avatar?: string;
+};
+
+const targetKey = (target: Pick<ForwardTarget, "type" | "id">) =>
+  `${target.type}:${target.id}`;
+
+interface ForwardMessageDialogProps {
+  message: ForwardableMessage;
+  onClose: () => void;
+}
+
+// Multi-select picker of friends and groups to forward a message to
+const ForwardMessageDialog: React.FC<ForwardMessageDialogProps> = ({
+  message,
+  onClose,
+}) => {
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: friends = [], isLoading: friendsLoading } = useFriendsQuery();
+  const { data: groups = [], isLoading: groupsLoading } = useGroupsQuery();
+  const { sendMessageToFriend, sendMessageToGroup } = useMessages();
+
+  const targets = useMemo<ForwardTarget[]>(
+    () => [
+      ...friends.map((friend) => ({
+        type: "friend" as const,
+        id: friend.id,
+        name: friend.name,
+        avatar: friend.profile_picture_url || friend.avatar,
+      })),
+      ...groups.map((group: any) => ({
+        type: "group" as const,
+        id: group.id,
+        name: group.name,
+        avatar: group.avatar_url,
+      })),
+    ],
+    [friends, groups]
+  );
+
+  const filteredTargets = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return targets;
+    return targets.filter((target) =>
+      target.name?.toLowerCase().includes(query)
+    );
+  }, [targets, search]);
+
+  const toggleTarget = (target: ForwardTarget) => {
+    const key = targetKey(target);
+    setSelected((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const attachmentUrl = message.attachment_url || message.attachment?.url;
+  const attachmentName = message.attachment?.name;
+  // Mentions only mean something in their own group, so they go out as
+  // plain @Name text
+  const content = stripMentionTokens(message.content);
+  // Audio keeps its inline player
+  const type = attachmentUrl
+    ? message.type && message.type !== "text"
+      ? message.type
+      : message.attachment?.type === "audio"
+      ? "audio"
+      : "file"
+    : "text";
+
+  const handleForward = async () => {
+    const chosen = targets.filter((target) =>
+      selected.includes(targetKey(target))
+    );
+    if (chosen.length === 0) return;
+
+    setIsSending(true);
+    const extras = { attachment_url: attachmentUrl, forwarded: true };
+
+    const results = await Promise.allSettled(
+      chosen.map((target) =>
+        target.type === "group"
+          ? sendMessageToGroup(target.id, content, type, extras)
+          : sendMessageToFriend(target.id, content, type, extras)
+      )
+    );
+    setIsSending(false);
+
+    const failed = chosen.filter(
+      (_, index) => results[index].status === "rejected"
+    );
+    if (failed.length === 0) {
+      toast.success(
+        chosen.length === 1
+          ? `Forwarded to ${chosen[0].name}`
+          : `Forwarded to ${chosen.length} conversations`
+      );
+      onClose();
+      return;
+    }
+
+    toast.error(
+      `Could not forward to ${failed.map((target) => target.name).join(", ")}`
+    );
+    // Keep only the failed targets selected so they can be retried
+    setSelected(failed.map(targetKey));
+  };
+
+  const isLoading = friendsLoading || groupsLoading;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-md w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-medium text-lg">Forward Message</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <FaTimes className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Preview of what is being forwarded */}
+        <div className="mb-4 p-3 bg-gray-50 rounded-md flex items-center">
+          {attachmentUrl && (
+            <div className="w-10 h-10 rounded-md bg-blue-100 flex items-center justify-center mr-3 flex-shrink-0">
+              <FaFile className="h-5 w-5 text-blue-500" />
+            </div>
+          )}
+          <div className="min-w-0">
+            {attachmentName && (
+              <p className="text-sm font-medium truncate">{attachmentName}</p>
+            )}
+            {content && (
+              <p className="text-sm text-gray-600 line-clamp-2 break-words">
+                {content}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="relative mb-3">
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search friends and groups"
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg mb-4">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-500 border-t-transparent"></div>
+            </div>
+          ) : filteredTargets.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">
+              No conversations found
+            </p>
+          ) : (
+            filteredTargets.map((target) => {
+              const isSelected = selected.includes(targetKey(target));
+              return (
+                <div
+                  key={targetKey(target)}
+                  className={`flex items-center justify-between p-3 border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                    isSelected ? "bg-blue-50" : ""
+                  }`}
+                  onClick={() => toggleTarget(target)}
+                >
+                  <div className="flex items-center min-w-0">
+                    <OptimizedAvatar
+                      src={target.avatar}
+                      alt={target.name}
+                      size="sm"
+                      className="mr-2 flex-shrink-0"
+                      fallbackIcon={
+                        target.type === "group" ? (
+                          <FaUsers className="h-4 w-4 text-gray-500" />
+                        ) : undefined
+                      }
+                    />
+                    <div className="min-w-0">
+                      <span className="block text-sm truncate">
+                        {target.name}
+                      </span>
+                      {target.type === "group" && (
+                        <span className="block text-xs text-gray-500">
+                          Group
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {isSelected && (
+                    <div className="h-5 w-5 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0">
+                      <FaCheck className="h-2 w-2 text-white" />
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleForward}
+            className="flex items-center px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            disabled={selected.length === 0 || isSending}
+          >
+            {isSending ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
+            ) : (
+              <FaShare className="h-3.5 w-3.5 mr-2" />
+            )}
+            Forward{selected.length > 0 ? ` (${selected.length})` : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForwardMessageDialog;
@@ -13,7 +13,10 @@ import {
 } from "react-icons/fa";
 import { useFriendship } from "@/hooks/auth/useFriends";
 import { useFiles } from "@/hooks/files/useFiles";
+import { usePinnedMessages } from "@/hooks/messages/usePinnedMessages";
+import { ServiceUnavailableNotice } from "@/components/service-unavailable-notice";
 import toast from "react-hot-toast";
+import { PinnedMessagesList } from "./pinned-messages";
 
 interface Friend {
   id: string;
@@ -72,11 +75,14 @@ interface Pagination {
 interface FriendInfoPanelProps {
   friendDetails?: FriendDetails;
   onClose: () => void;
+  // Scrolls the conversation to a message, e.g. a pinned one
+  onJumpToMessage?: (messageId: string) => void;
 }
 
 const FriendInfoPanel: React.FC<FriendInfoPanelProps> = ({
   friendDetails,
   onClose,
+  onJumpToMessage,
 }) => {
   // State management - simplified to single attachments list
   const [attachments, setAttachments] = useState<AttachmentItem[]>([]);
@@ -113,7 +119,9 @@ const FriendInfoPanel: React.FC<FriendInfoPanelProps> = ({
     downloadFile: downloadFileAction,
     shareFile,
     formatFileSize,
+    serviceUnavailable: filesUnavailable,
   } = useFiles();
+  const { pins, togglePin } = usePinnedMessages("private", friendDetails?.id);
 
   // Computed values
   const displayName = useMemo(() => {
@@ -428,6 +436,19 @@ const FriendInfoPanel: React.FC<FriendInfoPanelProps> = ({
         </div>
       </div>
 
+      {/* Pinned Messages Section */}
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-black font-medium mb-3">
+          Pinned Messages
+          <span className="text-gray-500 text-sm"> ({pins.length})</span>
+        </h3>
+        <PinnedMessagesList
+          pins={pins}
+          onSelect={onJumpToMessage}
+          onUnpin={togglePin}
+        />
+      </div>
+
       {/* Attachments Section */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex justify-between items-center mb-3">
@@ -445,6 +466,10 @@ const FriendInfoPanel: React.FC<FriendInfoPanelProps> = ({
           </button>
         </div>
 
+        {filesUnavailable && (
+          <ServiceUnavailableNotice service="File" className="mb-3" />
+        )}
+
         {/* Attachments List */}
         <div className="relative">
           {isLoading && (
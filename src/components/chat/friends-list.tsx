@@ -18,6 +18,7 @@ import { useFriendship } from "@/hooks/auth/useFriends";
 import usePresence, { PresenceStatus } from "@/hooks/presence/usePresence";
 import { useMessages } from "@/hooks/messages/useMessages";
 import { NotificationDropdown } from "@/components/notification-dropdown";
+import { ServiceUnavailableNotice } from "@/components/service-unavailable-notice";
 import { FriendRequest } from "@/components/chat/friend-request";
 import { formatMessageTimestamp } from "@/utils/timestampHelper";
 
@@ -36,6 +37,7 @@ export default function FriendsList() {
   const {
     loading: isLoading,
     error,
+    serviceUnavailable,
     friends,
     friendRequests,
     getFriends,
@@ -365,6 +367,17 @@ export default function FriendsList() {
         </div>
       ) : (
         <div className="flex-1 overflow-auto">
+          {serviceUnavailable && (
+            <ServiceUnavailableNotice
+              service="Friends"
+              className="mb-4"
+              onRetry={() => {
+                getFriends();
+                getFriendRequests();
+              }}
+            />
+          )}
+
           {/* Friend Requests Section - Collapsible */}
           {incomingRequests.length > 0 && (
             <div className="mb-6 bg-blue-50 rounded-lg overflow-hidden border border-blue-100">
@@ -419,7 +432,7 @@ export default function FriendsList() {
               )}
             </h2>
 
-            {sortedFriends.length === 0 ? (
+            {sortedFriends.length === 0 && !serviceUnavailable ? (
               <div className="h-64 flex flex-col items-center justify-center text-center p-6 bg-gray-50 rounded-lg border border-gray-100">
                 <FaUser className="h-12 w-12 text-gray-300 mb-3" />
                 <p className="text-gray-500 font-medium">
@@ -21,22 +21,66 @@ import {
   FaInfoCircle,
   FaClock,
   FaCheck,
+  FaEye,
 } from "react-icons/fa";
 import { Paperclip, X, Edit2, Trash, Info } from "lucide-react";
 import { toast } from "react-hot-toast";
 import {
-  uploadFileAndSendMessage,
-  validateFile,
   formatFileSize,
-  getMediaType,
+  getAttachmentType,
+  validateFile,
 } from "@/utils/fileUploadHelper";
 import SearchFilterPopup from "./search-on-group";
 import GroupProfileInfo from "./group-info-panel";
 import GroupMessageItem from "./group-message-item";
+import { ReplyComposerBar } from "./reply-quote";
+import { PinnedMessagesStrip } from "./pinned-messages";
+import { MentionSuggestions } from "./mentions";
+import { MessagePreview } from "./message-content";
+import { AttachmentDropOverlay, AttachmentTray } from "./attachment-tray";
+import { VoiceRecordButton } from "./voice-message";
+import {
+  ScheduleMessageDialog,
+  ScheduledMessagesBar,
+} from "./scheduled-messages";
+import ForwardMessageDialog, {
+  ForwardableMessage,
+} from "./forward-message-dialog";
 import { useAuth } from "@/hooks/auth/useAuth";
 import { useUserInfoContext } from "@/components/auth/user-info-provider";
 import { useGroup } from "@/hooks/auth/useGroup";
+import { useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/hooks/queries/queryKeys";
+import { groupHistoryQuery } from "@/hooks/queries/useMessageQueries";
 import { useWebSocketContext } from "@/hooks/websocket/WebSocketProviderNew";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import { useOutbox } from "@/hooks/messages/useOutbox";
+import { useScrollToMessage } from "@/hooks/messages/useScrollToMessage";
+import { usePinnedMessages } from "@/hooks/messages/usePinnedMessages";
+import { useMentionAutocomplete } from "@/hooks/messages/useMentionAutocomplete";
+import { useScheduledMessages } from "@/hooks/messages/useScheduledMessages";
+import { useConversationDraft } from "@/hooks/messages/useDrafts";
+import { useAttachmentInput } from "@/hooks/messages/useAttachmentInput";
+import { useGroupReadAcknowledgements } from "@/hooks/messages/useGroupReadAcknowledgements";
+import {
+  decodeMentions,
+  encodeMentions,
+  stripMentionTokens,
+} from "@/utils/mentions";
+import type { OutboxEntry } from "@/utils/outbox";
+import { DraftAttachment, draftAttachmentToFile } from "@/utils/drafts";
+import { VOICE_MESSAGE_CAPTION } from "@/utils/voiceMessages";
+import {
+  applyGroupRead,
+  applyReaction,
+  GroupReadReceipt,
+  MessageReaction,
+  normalizeReactions,
+  normalizeReadReceipts,
+  ReplyPreview,
+} from "@/types/messages";
+import type { GroupReadData, MessageReactionData } from "@/types/websocket";
+import type { ScheduledMessage } from "@/types/scheduledMessages";
 import type {
   GroupMessage as ApiGroupMessage,
   GroupMember as ApiGroupMember,
@@ -99,21 +143,24 @@ interface GroupMessage {
   isEdited?: boolean;
   isDeleted?: boolean;
   attachment?: {
-    type: "image" | "file";
+    type: "image" | "file" | "audio";
     url: string;
     name: string;
     size?: string;
+    placeholder?: string; // low-res preview shown while an image loads
   };
   // Enhanced status tracking for better UX
   pending?: boolean;
   failed?: boolean;
   retrying?: boolean;
   delivered?: boolean;
+  uploadProgress?: number; // 0-100 while the attachment uploads
   read?: boolean;
-  readBy?: string[];
+  readBy?: GroupReadReceipt[];
   editHistory?: { content: string; editedAt: string }[];
-  replyTo?: string;
-  reactions?: { emoji: string; users: string[] }[];
+  reply_to?: string; // id of the message this one answers
+  forwarded?: boolean;
+  reactions?: MessageReaction[];
   // Local state tracking to prevent server overwrites
   lastEditedAt?: string;
   lastDeletedAt?: string;
@@ -225,9 +272,11 @@ const saveEditedMessageToStorage = (groupId: string, messageId: string) => {
 const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
   // Refs for managing scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
 
   // Get user info and WebSocket context
   const { data: session } = useSession();
+  const queryClient = useQueryClient();
   const { user } = useAuth();
   const { userInfo } = useUserInfoContext();
   const {
@@ -238,6 +287,8 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     sendGroupMessageWithAttachment,
     editGroupMessage,
     deleteGroupMessage,
+    addGroupMessageReaction,
+    removeGroupMessageReaction,
     getGroupBlocks,
     blockedUsers,
   } = useGroup();
@@ -247,6 +298,24 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     error: wsError,
   } = useWebSocketContext();
 
+  // Unsent messages for this group, persisted across reloads
+  const {
+    entries: outboxEntries,
+    uploadProgress: outboxUploadProgress,
+    previewUrls: outboxPreviewUrls,
+    enqueue: enqueueOutbox,
+    retry: retryOutbox,
+    discard: discardOutbox,
+  } = useOutbox("group", groupId);
+
+  // Send-later messages, sent by the server when due
+  const {
+    scheduled,
+    schedule: scheduleMessage,
+    update: updateScheduled,
+    cancel: cancelScheduled,
+  } = useScheduledMessages("group", groupId);
+
   // Enhanced user ID detection - Use userInfo from UserInfoContext
   const currentUserId = useMemo(() => {
     // Try to get user ID from multiple sources
@@ -260,9 +329,17 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
   const [messages, setMessages] = useState<GroupMessage[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
-  const [isUploadingFile, setIsUploadingFile] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ReplyPreview | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<
+    DraftAttachment[]
+  >([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [editingScheduled, setEditingScheduled] =
+    useState<ScheduledMessage | null>(null);
+  const [forwardingMessage, setForwardingMessage] =
+    useState<ForwardableMessage | null>(null);
   const [showProfile, setShowProfile] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -415,8 +492,16 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const getFileTypeFromUrl = (url: string): "image" | "file" => {
+  const getFileTypeFromUrl = (
+    url: string,
+    messageType?: string
+  ): "image" | "file" | "audio" => {
     const imageExtensions = [".jpg", ".jpeg", ".png", ".gif", ".bmp", ".webp"];
+    const audioExtensions = [".mp3", ".wav", ".ogg", ".m4a", ".aac", ".opus"];
+    if (messageType === "audio") return "audio";
+    if (audioExtensions.some((ext) => url.toLowerCase().includes(ext))) {
+      return "audio";
+    }
     return imageExtensions.some((ext) => url.toLowerCase().includes(ext))
       ? "image"
       : "file";
@@ -457,7 +542,10 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
               id: member.id || member.user_id,
               name: memberName,
               status: "offline" as const,
-              role: member.is_owner ? ("admin" as const) : ("member" as const),
+              role:
+                member.is_owner || member.role === "admin"
+                  ? ("admin" as const)
+                  : ("member" as const),
               avatar_url: member.avatar_url || member.user?.profile_picture_url,
               lastSeen: "Not available",
               user_id: member.user_id,
@@ -511,247 +599,287 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     }
   }, [groupId, getGroupBlocks]);
 
-  // Fetch group messages - FIXED: Use unified messages endpoint like private chat
-  const fetchGroupMessages = useCallback(
-    async (page = 1, limit = 20) => {
-      try {
-        setLoadingMessages(true);
-
-        // CHANGED: Use the same unified endpoint as private chat for consistency
-        // This endpoint has better support for edit/delete states
-        const response = await fetch(
-          `/api/proxy/messages/history?type=group&target_id=${groupId}&limit=${limit}&page=${page}`,
-          {
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${session?.access_token}`,
-            },
-          }
+  // Map an API message to the shape the message bubbles render
+  const formatApiMessage = useCallback(
+    (
+      apiMsg: ApiGroupMessage,
+      editedMessagesFromStorage: string[]
+    ): GroupMessage => {
+      const messageId = apiMsg.id || apiMsg.message_id || String(Date.now());
+      const isCurrentUser = isMessageFromCurrentUser(apiMsg.sender_id);
+      const senderInfo = resolveSenderName(apiMsg.sender_id, isCurrentUser);
+
+      // Process message data
+
+      let attachment = undefined;
+      if (apiMsg.attachment_url) {
+        const fileType = getFileTypeFromUrl(
+          apiMsg.attachment_url,
+          apiMsg.message_type || apiMsg.type
         );
+        attachment = {
+          type: fileType,
+          url: apiMsg.attachment_url,
+          name: getFileNameFromUrl(apiMsg.attachment_url),
+          placeholder: apiMsg.attachment_placeholder,
+        };
+      }
 
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+      // Use robust edit detection checking all possible flag variants
+      // AND check localStorage for edited state
+      const isEdited = Boolean(
+        (apiMsg as any).isEdited ||
+          (apiMsg as any).is_edited ||
+          (apiMsg as any).edited ||
+          (apiMsg as any).editedAt ||
+          (apiMsg as any).edited_at ||
+          // Check localStorage for edited state - this ensures persistence across refreshes
+          editedMessagesFromStorage.includes(messageId)
+      );
 
-        const messagesData = await response.json();
-
-        // DEBUG: Log the server response structure
-        console.log("Server response structure:", {
-          hasMessages: !!messagesData.messages,
-          hasData: !!messagesData.data,
-          isArray: Array.isArray(messagesData),
-          messageCount:
-            messagesData.messages?.length ||
-            messagesData.data?.length ||
-            (Array.isArray(messagesData) ? messagesData.length : 0),
-          sampleMessage:
-            messagesData.messages?.[0] ||
-            messagesData.data?.[0] ||
-            messagesData[0],
-          fullResponse: messagesData,
-        });
+      const isDeleted = Boolean(
+        (apiMsg as any).isDeleted ||
+          (apiMsg as any).is_deleted ||
+          (apiMsg as any).deleted ||
+          (apiMsg as any).deletedAt ||
+          (apiMsg as any).deleted_at ||
+          apiMsg.content === "This message was deleted" ||
+          apiMsg.content === "[Deleted]" ||
+          (apiMsg.content === "" && (apiMsg as any).deleted)
+      );
 
-        // Extract messages from various possible response formats
-        let messagesList = [];
-        if (Array.isArray(messagesData)) {
-          messagesList = messagesData;
-        } else if (
-          messagesData.messages &&
-          Array.isArray(messagesData.messages)
-        ) {
-          messagesList = messagesData.messages;
-        } else if (messagesData.data && Array.isArray(messagesData.data)) {
-          messagesList = messagesData.data;
-        }
+      // For deleted messages, show appropriate content
+      let messageContent = apiMsg.content;
+      if (
+        isDeleted &&
+        apiMsg.content &&
+        apiMsg.content !== "This message was deleted"
+      ) {
+        messageContent = "This message was deleted";
+      }
 
-        const paginationData = {
-          current_page: messagesData.current_page || page,
-          total_pages:
-            Math.ceil((messagesData.total || messagesList.length) / limit) || 1,
-          total_items: messagesData.total || messagesList.length || 0,
-          items_per_page: limit,
-          has_more_pages:
-            (messagesData.current_page || page) <
-            (Math.ceil((messagesData.total || messagesList.length) / limit) ||
-              1),
-        };
+      // Use more robust timestamp handling
+      const messageTimestamp =
+        apiMsg.created_at || apiMsg.sent_at || new Date().toISOString();
 
-        setPagination(paginationData);
-        setCanLoadMoreMessages(paginationData.has_more_pages);
+      const message: GroupMessage = {
+        id: messageId,
+        content: messageContent,
+        sender: {
+          id: String(apiMsg.sender_id),
+          name: senderInfo.name,
+          avatar_url: senderInfo.avatar,
+        },
+        timestamp: messageTimestamp,
+        // Preserve all timestamp fields for accurate time display
+        raw_timestamp: apiMsg.created_at || apiMsg.sent_at,
+        created_at: apiMsg.created_at,
+        sent_at: apiMsg.sent_at,
+        isCurrentUser,
+        attachment,
+        pending: false,
+        failed: false,
+        delivered: true,
+        isEdited,
+        isDeleted,
+        // Set permanent edit flag if the message is in localStorage
+        editedPermanently:
+          isEdited || editedMessagesFromStorage.includes(messageId),
+        reactions: normalizeReactions((apiMsg as any).reactions),
+        readBy: normalizeReadReceipts(apiMsg.read_by),
+        reply_to: apiMsg.reply_to,
+        forwarded: apiMsg.forwarded,
+      };
 
-        // Get edited message IDs from localStorage
-        const editedMessagesFromStorage = getEditedMessagesFromStorage(groupId);
-        
-        const formattedMessages = messagesData.messages.map(
-          (apiMsg: ApiGroupMessage): GroupMessage => {
-            const messageId =
-              apiMsg.id || apiMsg.message_id || String(Date.now());
-            const isCurrentUser = isMessageFromCurrentUser(apiMsg.sender_id);
-            const senderInfo = resolveSenderName(
-              apiMsg.sender_id,
-              isCurrentUser
-            );
-
-            // Process message data
-
-            let attachment = undefined;
-            if (apiMsg.attachment_url) {
-              const fileType = getFileTypeFromUrl(apiMsg.attachment_url);
-              attachment = {
-                type: fileType,
-                url: apiMsg.attachment_url,
-                name: getFileNameFromUrl(apiMsg.attachment_url),
-              };
-            }
+      return message;
+    },
+    [isMessageFromCurrentUser, resolveSenderName]
+  );
 
-            // Use robust edit detection checking all possible flag variants
-            // AND check localStorage for edited state
-            const isEdited = Boolean(
-              (apiMsg as any).isEdited || 
-              (apiMsg as any).is_edited ||
-              (apiMsg as any).edited ||
-              (apiMsg as any).editedAt ||
-              (apiMsg as any).edited_at ||
-              // Check localStorage for edited state - this ensures persistence across refreshes
-              (editedMessagesFromStorage.includes(messageId))
-            );
-
-            const isDeleted = Boolean(
-              (apiMsg as any).isDeleted ||
-                (apiMsg as any).is_deleted ||
-                (apiMsg as any).deleted ||
-                (apiMsg as any).deletedAt ||
-                (apiMsg as any).deleted_at ||
-                apiMsg.content === "This message was deleted" ||
-                apiMsg.content === "[Deleted]" ||
-                (apiMsg.content === "" && (apiMsg as any).deleted)
-            );
-
-            // For deleted messages, show appropriate content
-            let messageContent = apiMsg.content;
-            if (
-              isDeleted &&
-              apiMsg.content &&
-              apiMsg.content !== "This message was deleted"
-            ) {
-              messageContent = "This message was deleted";
-            }
+  // Fetch group messages - FIXED: Use unified messages endpoint like private chat
+  const fetchGroupMessages = useCallback(
+    async (page = 1, limit = 20) => {
+      try {
+        setLoadingMessages(true);
 
-            // Use more robust timestamp handling
-            const messageTimestamp =
-              apiMsg.created_at || apiMsg.sent_at || new Date().toISOString();
-
-            const message: GroupMessage = {
-              id: messageId,
-              content: messageContent,
-              sender: {
-                id: String(apiMsg.sender_id),
-                name: senderInfo.name,
-                avatar_url: senderInfo.avatar,
+        const loadPage = async () => {
+          // CHANGED: Use the same unified endpoint as private chat for consistency
+          // This endpoint has better support for edit/delete states
+          const response = await fetch(
+            `/api/proxy/messages/history?type=group&target_id=${groupId}&limit=${limit}&page=${page}`,
+            {
+              headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${session?.access_token}`,
               },
-              timestamp: messageTimestamp,
-              // Preserve all timestamp fields for accurate time display
-              raw_timestamp: apiMsg.created_at || apiMsg.sent_at,
-              created_at: apiMsg.created_at,
-              sent_at: apiMsg.sent_at,
-              isCurrentUser,
-              attachment,
-              pending: false,
-              failed: false,
-              delivered: true,
-              isEdited,
-              isDeleted,
-              // Set permanent edit flag if the message is in localStorage
-              editedPermanently: isEdited || editedMessagesFromStorage.includes(messageId),
-            };
+            }
+          );
 
-            return message;
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
           }
-        );
 
-        const sortedMessages = formattedMessages.sort(
-          (a: GroupMessage, b: GroupMessage) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
+          return response.json();
+        };
 
-        if (page === 1) {
-          // SMART MERGE: Preserve local edit/delete states that haven't been synced yet
-          setMessages((prevMessages) => {
-            const mergedMessages = sortedMessages.map(
-              (newMsg: GroupMessage) => {
-                const existingMsg = prevMessages.find(
-                  (m) => m.id === newMsg.id
-                );
-
-                // If we have a locally edited/deleted message that's newer than server data,
-                // preserve the local state
-                if (existingMsg) {
-                  const now = Date.now();
-                  const hasEditProtection =
-                    existingMsg.localEditProtection &&
-                    now < existingMsg.localEditProtection;
-                  const hasDeleteProtection =
-                    existingMsg.localDeleteProtection &&
-                    now < existingMsg.localDeleteProtection;
-
-                  const hasLocalEdit =
-                    existingMsg.lastEditedAt &&
-                    new Date(existingMsg.lastEditedAt) >
-                      new Date(newMsg.timestamp);
-                  const hasLocalDelete =
-                    existingMsg.lastDeletedAt &&
-                    new Date(existingMsg.lastDeletedAt) >
-                      new Date(newMsg.timestamp);
-
-                  // ENHANCED: Also preserve if local state shows edit/delete but server doesn't
-                  // Always preserve locally edited state marked by editTimestamp
-                  const localEditNotOnServer =
-                    (existingMsg.isEdited && !newMsg.isEdited) ||
-                    existingMsg.editTimestamp ||
-                    existingMsg.editedPermanently;
-                  const localDeleteNotOnServer =
-                    existingMsg.isDeleted && !newMsg.isDeleted;
-
-                  const shouldPreserveLocal =
-                    hasEditProtection ||
-                    hasDeleteProtection ||
-                    hasLocalEdit ||
-                    hasLocalDelete ||
-                    localEditNotOnServer ||
-                    localDeleteNotOnServer;
-
-                  if (shouldPreserveLocal) {
-                    // Preserve local state over server state
-
-                    return {
-                      ...newMsg, // Use server data as base
-                      content: existingMsg.content, // But keep local content
-                      isEdited: existingMsg.isEdited || existingMsg.editedPermanently, // Keep local edit state
-                      isDeleted: existingMsg.isDeleted || existingMsg.deletedPermanently, // Keep local delete state
-                      lastEditedAt: existingMsg.lastEditedAt, // Keep local timestamps
-                      lastDeletedAt: existingMsg.lastDeletedAt,
-                      localEditProtection: existingMsg.localEditProtection, // Keep protections
-                      localDeleteProtection: existingMsg.localDeleteProtection,
-                      pending: existingMsg.pending, // Keep pending state
-                      editTimestamp: existingMsg.editTimestamp, // Keep edit timestamp
-                      editedPermanently: existingMsg.editedPermanently, // Keep permanent edit flag
-                      deletedPermanently: existingMsg.deletedPermanently, // Keep permanent delete flag
-                    };
+        // Format a page of messages and merge it into the list
+        const applyMessages = (messagesData: any) => {
+          // DEBUG: Log the server response structure
+          console.log("Server response structure:", {
+            hasMessages: !!messagesData.messages,
+            hasData: !!messagesData.data,
+            isArray: Array.isArray(messagesData),
+            messageCount:
+              messagesData.messages?.length ||
+              messagesData.data?.length ||
+              (Array.isArray(messagesData) ? messagesData.length : 0),
+            sampleMessage:
+              messagesData.messages?.[0] ||
+              messagesData.data?.[0] ||
+              messagesData[0],
+            fullResponse: messagesData,
+          });
+
+          // Extract messages from various possible response formats
+          let messagesList = [];
+          if (Array.isArray(messagesData)) {
+            messagesList = messagesData;
+          } else if (
+            messagesData.messages &&
+            Array.isArray(messagesData.messages)
+          ) {
+            messagesList = messagesData.messages;
+          } else if (messagesData.data && Array.isArray(messagesData.data)) {
+            messagesList = messagesData.data;
+          }
+
+          const paginationData = {
+            current_page: messagesData.current_page || page,
+            total_pages:
+              Math.ceil((messagesData.total || messagesList.length) / limit) || 1,
+            total_items: messagesData.total || messagesList.length || 0,
+            items_per_page: limit,
+            has_more_pages:
+              (messagesData.current_page || page) <
+              (Math.ceil((messagesData.total || messagesList.length) / limit) ||
+                1),
+          };
+
+          setPagination(paginationData);
+          setCanLoadMoreMessages(paginationData.has_more_pages);
+
+          // Get edited message IDs from localStorage
+          const editedMessagesFromStorage = getEditedMessagesFromStorage(groupId);
+        
+          const formattedMessages = messagesData.messages.map(
+            (apiMsg: ApiGroupMessage) =>
+              formatApiMessage(apiMsg, editedMessagesFromStorage)
+          );
+
+          const sortedMessages = formattedMessages.sort(
+            (a: GroupMessage, b: GroupMessage) =>
+              new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+          );
+
+          if (page === 1) {
+            // SMART MERGE: Preserve local edit/delete states that haven't been synced yet
+            setMessages((prevMessages) => {
+              const mergedMessages = sortedMessages.map(
+                (newMsg: GroupMessage) => {
+                  const existingMsg = prevMessages.find(
+                    (m) => m.id === newMsg.id
+                  );
+
+                  // If we have a locally edited/deleted message that's newer than server data,
+                  // preserve the local state
+                  if (existingMsg) {
+                    const now = Date.now();
+                    const hasEditProtection =
+                      existingMsg.localEditProtection &&
+                      now < existingMsg.localEditProtection;
+                    const hasDeleteProtection =
+                      existingMsg.localDeleteProtection &&
+                      now < existingMsg.localDeleteProtection;
+
+                    const hasLocalEdit =
+                      existingMsg.lastEditedAt &&
+                      new Date(existingMsg.lastEditedAt) >
+                        new Date(newMsg.timestamp);
+                    const hasLocalDelete =
+                      existingMsg.lastDeletedAt &&
+                      new Date(existingMsg.lastDeletedAt) >
+                        new Date(newMsg.timestamp);
+
+                    // ENHANCED: Also preserve if local state shows edit/delete but server doesn't
+                    // Always preserve locally edited state marked by editTimestamp
+                    const localEditNotOnServer =
+                      (existingMsg.isEdited && !newMsg.isEdited) ||
+                      existingMsg.editTimestamp ||
+                      existingMsg.editedPermanently;
+                    const localDeleteNotOnServer =
+                      existingMsg.isDeleted && !newMsg.isDeleted;
+
+                    const shouldPreserveLocal =
+                      hasEditProtection ||
+                      hasDeleteProtection ||
+                      hasLocalEdit ||
+                      hasLocalDelete ||
+                      localEditNotOnServer ||
+                      localDeleteNotOnServer;
+
+                    if (shouldPreserveLocal) {
+                      // Preserve local state over server state
+
+                      return {
+                        ...newMsg, // Use server data as base
+                        content: existingMsg.content, // But keep local content
+                        isEdited: existingMsg.isEdited || existingMsg.editedPermanently, // Keep local edit state
+                        isDeleted: existingMsg.isDeleted || existingMsg.deletedPermanently, // Keep local delete state
+                        lastEditedAt: existingMsg.lastEditedAt, // Keep local timestamps
+                        lastDeletedAt: existingMsg.lastDeletedAt,
+                        localEditProtection: existingMsg.localEditProtection, // Keep protections
+                        localDeleteProtection: existingMsg.localDeleteProtection,
+                        pending: existingMsg.pending, // Keep pending state
+                        editTimestamp: existingMsg.editTimestamp, // Keep edit timestamp
+                        editedPermanently: existingMsg.editedPermanently, // Keep permanent edit flag
+                        deletedPermanently: existingMsg.deletedPermanently, // Keep permanent delete flag
+                      };
+                    }
                   }
+
+                  return newMsg;
                 }
+              );
 
-                return newMsg;
-              }
-            );
+              return mergedMessages;
+            });
+          } else {
+            // For pagination (loading older messages), add them to the BEGINNING of the array
+            // since they are older than existing messages
+            setMessages((prevMessages) => [...sortedMessages, ...prevMessages]);
+          }
+        };
 
-            return mergedMessages;
-          });
-        } else {
-          // For pagination (loading older messages), add them to the BEGINNING of the array
-          // since they are older than existing messages
-          setMessages((prevMessages) => [...sortedMessages, ...prevMessages]);
+        if (page === 1 && groupId) {
+          // Show the cached first page at once, then refresh it if stale
+          const cached = queryClient.getQueryData(
+            queryKeys.messages.group(groupId)
+          );
+          if (cached) {
+            applyMessages(cached);
+          }
+
+          const messagesData = await queryClient.fetchQuery(
+            groupHistoryQuery(groupId, loadPage)
+          );
+          if (messagesData !== cached) {
+            applyMessages(messagesData);
+          }
+          return messagesData;
         }
 
+        const messagesData = await loadPage();
+        applyMessages(messagesData);
         return messagesData;
       } catch (error: any) {
         setError("Failed to load messages");
@@ -763,7 +891,7 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
         }
       }
     },
-    [groupId, getGroupMessages, isMessageFromCurrentUser, resolveSenderName]
+    [groupId, getGroupMessages, formatApiMessage, queryClient]
   );
 
   // Load messages on mount
@@ -811,10 +939,62 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     [blockedUsers, groupId]
   );
 
+  // Queued messages are rendered from the outbox until the server accepts
+  // them, carrying its pending/retrying/failed state and upload progress
+  const queuedMessages = useMemo(
+    (): GroupMessage[] =>
+      outboxEntries.map((entry) => ({
+        id: entry.temp_id,
+        content: entry.content,
+        sender: {
+          id: String(currentUserId),
+          name: "You",
+          avatar_url:
+            userInfo?.profile_picture_url || user?.profile_picture_url || null,
+        },
+        timestamp: entry.created_at,
+        raw_timestamp: entry.created_at,
+        created_at: entry.created_at,
+        isCurrentUser: true,
+        pending: entry.status === "pending",
+        retrying: entry.status === "retrying",
+        failed: entry.status === "failed",
+        delivered: false,
+        reply_to: entry.reply_to,
+        // Shown once its object URL is ready
+        attachment:
+          entry.attachment && outboxPreviewUrls[entry.temp_id]
+            ? {
+                type: getAttachmentType(entry.attachment.type),
+                url: outboxPreviewUrls[entry.temp_id],
+                name: entry.attachment.name,
+                size: formatFileSize(entry.attachment.size),
+              }
+            : undefined,
+        uploadProgress:
+          entry.attachment &&
+          !entry.attachment.uploaded &&
+          entry.status !== "failed"
+            ? outboxUploadProgress[entry.temp_id] ?? 0
+            : undefined,
+      })),
+    [
+      outboxEntries,
+      outboxPreviewUrls,
+      outboxUploadProgress,
+      currentUserId,
+      userInfo,
+      user,
+    ]
+  );
+
   // Enhanced message grouping by date with better formatting
   const groupedMessages = useMemo(() => {
     // First apply client-side blocked user filtering as backup
-    const clientFiltered = filterBlockedMessages(messages);
+    const clientFiltered = filterBlockedMessages([
+      ...messages,
+      ...queuedMessages,
+    ]);
 
     // Then apply search filter if searching
     const messagesToProcess = isSearching ? filteredMessages : clientFiltered;
@@ -865,13 +1045,171 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     return Object.values(messagesByDate).sort(
       (a, b) => new Date(a.dateKey).getTime() - new Date(b.dateKey).getTime()
     );
-  }, [messages, filteredMessages, isSearching, filterBlockedMessages]);
+  }, [
+    messages,
+    queuedMessages,
+    filteredMessages,
+    isSearching,
+    filterBlockedMessages,
+  ]);
 
   // Get visible messages for backward compatibility
   const visibleMessages = useMemo(() => {
     return groupedMessages.flatMap((group) => group.messages);
   }, [groupedMessages]);
 
+  // Messages by id, for resolving the originals of replies
+  const messagesById = useMemo(
+    () => new Map(messages.map((msg) => [msg.id, msg])),
+    [messages]
+  );
+
+  const getReplyPreview = useCallback(
+    (messageId: string): ReplyPreview | null => {
+      const original = messagesById.get(messageId);
+      if (!original) return null;
+
+      return {
+        id: original.id,
+        senderName: original.isCurrentUser ? "You" : original.sender.name,
+        content:
+          stripMentionTokens(original.content) ||
+          original.attachment?.name ||
+          "",
+        isDeleted: original.isDeleted,
+      };
+    },
+    [messagesById]
+  );
+
+  const handleReplyClick = useCallback(
+    (messageId: string) => {
+      const preview = getReplyPreview(messageId);
+      if (!preview) return;
+
+      setReplyingTo(preview);
+      textareaRef.current?.focus();
+    },
+    [getReplyPreview]
+  );
+
+  const handleForwardClick = useCallback(
+    (messageId: string) => {
+      const original = messagesById.get(messageId);
+      if (!original || original.isDeleted) return;
+
+      setForwardingMessage({
+        content: original.content,
+        attachment: original.attachment,
+      });
+    },
+    [messagesById]
+  );
+
+  // Older pages loaded while looking for the original of a reply
+  const mergeOlderMessages = useCallback(
+    (olderMessages: any[]) => {
+      const editedMessagesFromStorage = getEditedMessagesFromStorage(groupId);
+      const formatted = olderMessages.map((apiMsg: ApiGroupMessage) =>
+        formatApiMessage(apiMsg, editedMessagesFromStorage)
+      );
+
+      setMessages((prevMessages) => {
+        const existingIds = new Set(prevMessages.map((msg) => msg.id));
+        const missing = formatted.filter((msg) => !existingIds.has(msg.id));
+        if (missing.length === 0) return prevMessages;
+
+        return [...missing, ...prevMessages].sort(
+          (a, b) =>
+            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
+      });
+    },
+    [groupId, formatApiMessage]
+  );
+
+  const { scrollToMessage } = useScrollToMessage({
+    targetId: groupId,
+    type: "group",
+    onOlderMessages: mergeOlderMessages,
+  });
+
+  // Only group admins may pin
+  const isGroupAdmin = useMemo(
+    () =>
+      groupDetails.members.some(
+        (member) =>
+          (member.user_id || member.id) === currentUserId &&
+          member.role !== "member"
+      ),
+    [groupDetails.members, currentUserId]
+  );
+
+  const { pins, isPinned, togglePin } = usePinnedMessages("group", groupId);
+
+  const handlePinToggle = useCallback(
+    (messageId: string) => {
+      const original = messagesById.get(messageId);
+      if (!original) return;
+
+      togglePin({
+        message_id: original.id,
+        sender_id: original.sender.id,
+        sender_name: original.isCurrentUser
+          ? session?.user?.name || "You"
+          : original.sender.name,
+        content: stripMentionTokens(original.content),
+        attachment_url: original.attachment?.url,
+      });
+    },
+    [messagesById, togglePin, session?.user?.name]
+  );
+
+  // Everyone in the group except the current user can be mentioned
+  const mentionCandidates = useMemo(
+    () =>
+      groupDetails.members
+        .filter((member) => (member.user_id || member.id) !== currentUserId)
+        .map((member) => ({
+          id: member.user_id || member.id,
+          name: member.name,
+          avatar: member.avatar_url,
+        })),
+    [groupDetails.members, currentUserId]
+  );
+
+  const mentionAutocomplete = useMentionAutocomplete({
+    candidates: mentionCandidates,
+    value: inputMessage,
+    onChange: setInputMessage,
+    textareaRef,
+  });
+
+  // Unsent text, files and reply/edit context survive switching chats.
+  // The text is stored with its mention tokens.
+  useConversationDraft(
+    "group",
+    groupId,
+    {
+      content: mentionAutocomplete.encode(inputMessage).content,
+      attachments: pendingAttachments,
+      reply_to: replyingTo || undefined,
+      editing_message_id: editingMessageId || undefined,
+    },
+    (draft) => {
+      mentionAutocomplete.load(draft.content);
+      setPendingAttachments(draft.attachments);
+      setReplyingTo(draft.reply_to || null);
+      setEditingMessageId(draft.editing_message_id || null);
+    }
+  );
+
+  // Picker, drag-and-drop and pasted images all fill the attachment tray
+  const attachmentInput = useAttachmentInput(
+    pendingAttachments,
+    setPendingAttachments
+  );
+
   // Handle edit message
   const handleEditMessage = useCallback(
     (messageId: string) => {
@@ -884,23 +1222,24 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
       const message = messages.find((msg) => msg.id === messageId);
       if (message && !message.isDeleted && !message.pending) {
         setEditingMessageId(messageId);
-        setInputMessage(message.content);
+        mentionAutocomplete.load(message.content);
       }
     },
-    [messages]
+    [messages, mentionAutocomplete.load]
   );
 
   // Handle cancel edit
   const handleCancelEdit = useCallback(() => {
     setEditingMessageId(null);
     setInputMessage("");
+    mentionAutocomplete.reset();
 
     // Robustly clear and blur the textarea
     if (textareaRef.current) {
       textareaRef.current.value = "";
       textareaRef.current.blur();
     }
-  }, []);
+  }, [mentionAutocomplete.reset]);
 
   // Handle submit edit (updated to accept content parameter)
   const handleSubmitEdit = useCallback(
@@ -974,6 +1313,7 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
         // Clear edit state
         setEditingMessageId(null);
         setInputMessage("");
+        mentionAutocomplete.reset();
 
         // Robustly clear and blur the textarea
         if (textareaRef.current) {
@@ -1027,6 +1367,7 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
       groupId,
       fetchGroupMessages,
       hasPendingOperations,
+      mentionAutocomplete.reset,
     ]
   );
 
@@ -1164,49 +1505,215 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     ]
   );
 
-  // Handle retry failed message
+  // Failed messages stay in the outbox; retrying sends them again
   const handleRetryMessage = useCallback(
     async (messageId: string) => {
-      const message = messages.find((msg) => msg.id === messageId);
-      if (!message) return;
+      await retryOutbox(messageId);
+    },
+    [retryOutbox]
+  );
 
-      try {
-        // Mark message as retrying
-        setMessages((prevMessages) =>
-          prevMessages.map((msg) =>
-            msg.id === messageId
-              ? { ...msg, retrying: true, failed: false }
-              : msg
-          )
-        );
+  // Move delivered outbox messages into the group under their server id
+  useEffect(() => {
+    const handleDelivered = ({
+      entry,
+      message,
+    }: {
+      entry: OutboxEntry;
+      message: any;
+    }) => {
+      if (entry.conversation_type !== "group" || entry.target_id !== groupId)
+        return;
 
-        // Retry sending the message
-        await sendGroupMessage(groupId, message.content);
+      const messageTimestamp = message?.created_at || entry.created_at;
+      const attachmentUrl = message?.attachment_url || message?.media_url;
+      const delivered: GroupMessage = {
+        id: message?.id || message?.message_id || entry.temp_id,
+        content: message?.content ?? entry.content,
+        sender: {
+          id: String(currentUserId),
+          name: "You",
+          avatar_url:
+            userInfo?.profile_picture_url || user?.profile_picture_url || null,
+        },
+        timestamp: messageTimestamp,
+        raw_timestamp: messageTimestamp,
+        created_at: messageTimestamp,
+        isCurrentUser: true,
+        attachment:
+          entry.attachment && attachmentUrl
+            ? {
+                type: getAttachmentType(entry.attachment.type),
+                url: attachmentUrl,
+                name: entry.attachment.name,
+                size: formatFileSize(entry.attachment.size),
+                placeholder: message?.attachment_placeholder,
+              }
+            : undefined,
+        pending: false,
+        failed: false,
+        delivered: true,
+        reply_to: message?.reply_to || entry.reply_to,
+      };
 
-        // Update message as sent
-        setMessages((prevMessages) =>
-          prevMessages.map((msg) =>
-            msg.id === messageId
-              ? { ...msg, retrying: false, delivered: true }
-              : msg
-          )
-        );
+      setMessages((prevMessages) =>
+        // The WebSocket echo may have added it already
+        prevMessages.some((msg) => msg.id === delivered.id)
+          ? prevMessages
+          : [...prevMessages, delivered]
+      );
+    };
 
-        toast.success("Message sent successfully");
-      } catch (error) {
-        toast.error("Failed to send message");
+    eventBus.on("outbox-delivered", handleDelivered);
+    return () => {
+      eventBus.off("outbox-delivered", handleDelivered);
+    };
+  }, [groupId, currentUserId, userInfo, user]);
 
-        // Mark as failed again
-        setMessages((prevMessages) =>
-          prevMessages.map((msg) =>
-            msg.id === messageId
-              ? { ...msg, retrying: false, failed: true }
-              : msg
-          )
+  // Apply a reaction change to one message in local state
+  const updateMessageReactions = useCallback(
+    (
+      messageId: string,
+      userId: string,
+      emoji: string,
+      action: "add" | "remove"
+    ) => {
+      setMessages((prevMessages) =>
+        prevMessages.map((msg) =>
+          msg.id === messageId
+            ? {
+                ...msg,
+                reactions: applyReaction(msg.reactions, userId, emoji, action),
+              }
+            : msg
+        )
+      );
+    },
+    []
+  );
+
+  // Toggle the current user's reaction, optimistically
+  const handleReactionToggle = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!currentUserId) return;
+
+      const userId = String(currentUserId);
+      const message = messages.find((msg) => msg.id === messageId);
+      const hasReacted = Boolean(
+        message?.reactions?.some(
+          (reaction) =>
+            reaction.emoji === emoji && reaction.users.includes(userId)
+        )
+      );
+
+      updateMessageReactions(
+        messageId,
+        userId,
+        emoji,
+        hasReacted ? "remove" : "add"
+      );
+
+      try {
+        if (hasReacted) {
+          await removeGroupMessageReaction(groupId, messageId, emoji);
+        } else {
+          await addGroupMessageReaction(groupId, messageId, emoji);
+        }
+      } catch (error) {
+        // Roll back the optimistic change
+        updateMessageReactions(
+          messageId,
+          userId,
+          emoji,
+          hasReacted ? "add" : "remove"
         );
+        toast.error("Failed to update reaction");
       }
     },
-    [messages, sendGroupMessage, groupId, fetchGroupMessages]
+    [
+      currentUserId,
+      messages,
+      groupId,
+      updateMessageReactions,
+      addGroupMessageReaction,
+      removeGroupMessageReaction,
+    ]
+  );
+
+  // Live reactions from group members. Events for messages outside this
+  // group match nothing and are ignored.
+  useEffect(() => {
+    const handleReaction = (data: MessageReactionData) => {
+      updateMessageReactions(
+        data.message_id,
+        String(data.user_id),
+        data.emoji,
+        data.action || "add"
+      );
+    };
+
+    eventBus.on("message-reaction", handleReaction);
+    return () => {
+      eventBus.off("message-reaction", handleReaction);
+    };
+  }, [updateMessageReactions]);
+
+  // Read receipts from members, including our own acknowledgements
+  useEffect(() => {
+    const handleGroupRead = (data: GroupReadData) => {
+      if (String(data.group_id) !== String(groupId)) return;
+
+      const userId = String(data.user_id);
+      const readAt = data.read_at || new Date().toISOString();
+      const messageIds = new Set(data.message_ids.map(String));
+      setMessages((prevMessages) =>
+        prevMessages.map((msg) =>
+          messageIds.has(msg.id)
+            ? { ...msg, readBy: applyGroupRead(msg.readBy, userId, readAt) }
+            : msg
+        )
+      );
+    };
+
+    eventBus.on("group-messages-read", handleGroupRead);
+    return () => {
+      eventBus.off("group-messages-read", handleGroupRead);
+    };
+  }, [groupId]);
+
+  // Messages from others the current user hasn't acknowledged yet
+  const unreadMessageIds = useMemo(
+    () =>
+      messages
+        .filter(
+          (msg) =>
+            !msg.isCurrentUser &&
+            !msg.pending &&
+            !msg.id.startsWith("temp-") &&
+            !msg.readBy?.some(
+              (receipt) => receipt.user_id === String(currentUserId)
+            )
+        )
+        .map((msg) => msg.id),
+    [messages, currentUserId]
+  );
+
+  useGroupReadAcknowledgements(groupId, messagesContainerRef, unreadMessageIds);
+
+  // Members listed in the "Seen by" popover
+  const receiptMembers = useMemo(
+    () =>
+      groupDetails.members.map((member) => ({
+        id: String(member.user_id || member.id),
+        name: member.name,
+      })),
+    [groupDetails.members]
+  );
+
+  // Name shown in the reaction tooltip
+  const resolveReactorName = useCallback(
+    (userId: string) => resolveSenderName(userId, false).name,
+    [resolveSenderName]
   );
 
   // Handle file upload button
@@ -1216,14 +1723,52 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
     }
   };
 
-  // Handle original message sending (form submission)
+  // A queued file is cancelled by dropping it from the outbox
+  const handleCancelUpload = useCallback(
+    async (messageId: string) => {
+      await discardOutbox(messageId);
+      toast("Upload cancelled");
+    },
+    [discardOutbox]
+  );
+
+  // Files are queued in the outbox like text, which uploads them and then
+  // posts the message
+  const sendAttachment = async (file: File, caption?: string) => {
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      toast.error(validation.error || "Invalid file");
+      return;
+    }
+
+    await enqueueOutbox(caption || `📎 ${file.name}`, { file });
+    if (!navigator.onLine) {
+      toast("File will be sent when you're back online");
+    }
+  };
+
+  // Messages go through the outbox: it stores them before sending, so a
+  // reload or a dropped connection doesn't lose them
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!inputMessage.trim() || !groupId || isSending) return;
+    if (
+      (!inputMessage.trim() && pendingAttachments.length === 0) ||
+      !groupId ||
+      isSending
+    ) {
+      return;
+    }
 
-    const messageContent = inputMessage.trim();
+    const typedMessage = inputMessage.trim();
+    const { content: messageContent, mentions } =
+      mentionAutocomplete.encode(typedMessage);
+    const replyTo = replyingTo;
+    const attachments = pendingAttachments;
     setInputMessage(""); // Clear input early for better UX
+    setReplyingTo(null);
+    setPendingAttachments([]);
+    mentionAutocomplete.reset();
 
     // Robustly clear the textarea
     if (textareaRef.current) {
@@ -1232,80 +1777,80 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
 
     setIsSending(true);
 
-    const tempId = `temp-${Date.now()}-${Math.random()}`;
-
+    let queuedFiles = 0;
     try {
-      // Create optimistic message for immediate UI feedback
-      const nowISO = new Date().toISOString();
-      const optimisticMessage: GroupMessage = {
-        id: tempId,
-        content: messageContent,
-        sender: {
-          id: String(currentUserId),
-          name: "You",
-          avatar_url:
-            userInfo?.profile_picture_url || user?.profile_picture_url || null,
-        },
-        timestamp: nowISO,
-        // Include all timestamp fields for consistency
-        raw_timestamp: nowISO,
-        created_at: nowISO,
-        sent_at: nowISO,
-        isCurrentUser: true,
-        pending: true,
-        delivered: false,
-      };
+      // Files go first, each as its own message
+      for (const attachment of attachments) {
+        await sendAttachment(
+          draftAttachmentToFile(attachment),
+          attachment.caption?.trim() || undefined
+        );
+        queuedFiles += 1;
+      }
 
-      // Add optimistic message to UI immediately
-      setMessages((prevMessages) => [...prevMessages, optimisticMessage]);
+      if (messageContent) {
+        await enqueueOutbox(messageContent, {
+          replyTo: replyTo?.id,
+          mentions: mentions.length > 0 ? mentions : undefined,
+        });
+      }
 
       // Auto-scroll to show the new message
       setTimeout(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
       }, 50);
+    } catch (error: any) {
+      // Only reached when the outbox itself is unavailable
+      setInputMessage(typedMessage);
+      setReplyingTo(replyTo);
+      setPendingAttachments(attachments.slice(queuedFiles));
+      toast.error("Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
 
-      const response = await sendGroupMessage(groupId, messageContent);
+  // Errors are left to the schedule dialog, which shows them
+  const handleScheduleMessage = async (sendAt: string) => {
+    const typedMessage = inputMessage.trim();
+    if (!typedMessage) return;
 
-      // Extract real message ID from response
-      const realMessageId = response?.message_id;
+    const { content, mentions } = mentionAutocomplete.encode(typedMessage);
+    await scheduleMessage(content, sendAt, {
+      reply_to: replyingTo?.id,
+      mentions: mentions.length > 0 ? mentions : undefined,
+    });
+    setInputMessage("");
+    setReplyingTo(null);
+    mentionAutocomplete.reset();
+    toast.success("Message scheduled");
+  };
 
-      if (realMessageId) {
-        // Update optimistic message with real ID and delivered status
-        setMessages((prevMessages) =>
-          prevMessages.map((msg) =>
-            msg.id === tempId
-              ? {
-                  ...msg,
-                  id: realMessageId, // Replace temp ID with real ID
-                  pending: false,
-                  delivered: true,
-                }
-              : msg
-          )
-        );
-      } else {
-        // Fallback: just mark as delivered if no real ID available
-        setMessages((prevMessages) =>
-          prevMessages.map((msg) =>
-            msg.id === tempId
-              ? { ...msg, pending: false, delivered: true }
-              : msg
-          )
-        );
-      }
+  // The dialog edits plain text; mentions it still names are re-encoded
+  const handleUpdateScheduled = async (sendAt: string, text?: string) => {
+    if (!editingScheduled) return;
 
-      toast.success("Message sent successfully", { id: `send-${tempId}` });
-    } catch (error: any) {
-      // Mark optimistic message as failed
-      setMessages((prevMessages) =>
-        prevMessages.map((msg) =>
-          msg.id === tempId ? { ...msg, pending: false, failed: true } : msg
-        )
-      );
+    const { content, mentions } = encodeMentions(
+      text ?? "",
+      decodeMentions(editingScheduled.content).mentions
+    );
+    await updateScheduled(editingScheduled.id, {
+      send_at: sendAt,
+      content,
+      mentions,
+    });
+  };
 
-      toast.error("Failed to send message");
-    } finally {
-      setIsSending(false);
+  const handleCancelScheduled = async (message: ScheduledMessage) => {
+    try {
+      await cancelScheduled(message.id);
+      toast.success("Scheduled message cancelled");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel scheduled message"
+      );
     }
   };
 
@@ -1316,14 +1861,22 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
 
       // Handle edit submission
       if (editingMessageId) {
-        await handleSubmitEdit(inputMessage.trim());
+        await handleSubmitEdit(
+          mentionAutocomplete.encode(inputMessage.trim()).content
+        );
         return;
       }
 
       // Handle new message submission
       await handleSendMessage(e);
     },
-    [editingMessageId, inputMessage, handleSubmitEdit, handleSendMessage]
+    [
+      editingMessageId,
+      inputMessage,
+      handleSubmitEdit,
+      handleSendMessage,
+      mentionAutocomplete.encode,
+    ]
   );
 
   // Handle search
@@ -1425,6 +1978,8 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
         isDeleted,
         pending: false,
         delivered: true,
+        reply_to: wsMsg.reply_to,
+        forwarded: wsMsg.forwarded,
         // Add editedPermanently field to ensure it's included in the type
         editedPermanently: false, // This will be updated based on localStorage check
       };
@@ -1590,7 +2145,11 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-white h-full">
+    <div
+      className="relative flex-1 flex flex-col bg-white h-full"
+      {...attachmentInput.dropZoneProps}
+    >
+      {attachmentInput.isDragging && <AttachmentDropOverlay />}
       {/* Header */}
       <div className="p-2 sm:p-3 lg:p-4 border-b border-gray-200 bg-white shadow-sm shrink-0">
         <div className="flex items-center justify-between">
@@ -1669,8 +2228,17 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
             showProfile ? "lg:mr-80" : ""
           }`}
         >
+          <PinnedMessagesStrip
+            pins={pins}
+            onSelect={scrollToMessage}
+            onUnpin={isGroupAdmin ? togglePin : undefined}
+          />
+
           {/* Messages list */}
-          <div className="flex-1 overflow-y-auto p-2 sm:p-3 lg:p-4 space-y-2 sm:space-y-3">
+          <div
+            ref={messagesContainerRef}
+            className="flex-1 overflow-y-auto p-2 sm:p-3 lg:p-4 space-y-2 sm:space-y-3"
+          >
             {!loadingMessages &&
               groupedMessages.length === 0 &&
               !isSearching && (
@@ -1723,8 +2291,26 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
                     key={message.id}
                     message={message}
                     onRetryClick={handleRetryMessage}
+                    onCancelUpload={handleCancelUpload}
                     onEditClick={handleEditMessage}
                     onDeleteClick={handleDeleteMessage}
+                    onReactionToggle={handleReactionToggle}
+                    currentUserId={
+                      currentUserId ? String(currentUserId) : undefined
+                    }
+                    resolveReactorName={resolveReactorName}
+                    onReplyClick={handleReplyClick}
+                    replyPreview={
+                      message.reply_to
+                        ? getReplyPreview(message.reply_to)
+                        : undefined
+                    }
+                    onQuoteClick={scrollToMessage}
+                    onForwardClick={handleForwardClick}
+                    onPinToggle={isGroupAdmin ? handlePinToggle : undefined}
+                    isPinned={isPinned(message.id)}
+                    groupId={groupId}
+                    receiptMembers={receiptMembers}
                   />
                 ))}
               </div>
@@ -1759,135 +2345,51 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
               </div>
             )}
 
+            {replyingTo && !editingMessageId && (
+              <ReplyComposerBar
+                preview={replyingTo}
+                onCancel={() => setReplyingTo(null)}
+              />
+            )}
+
+            <ScheduledMessagesBar
+              scheduled={scheduled}
+              onEdit={setEditingScheduled}
+              onCancel={handleCancelScheduled}
+            />
+
+            <AttachmentTray
+              attachments={pendingAttachments}
+              onRemove={attachmentInput.removeAttachment}
+              onCaptionChange={attachmentInput.setCaption}
+            />
+
+            {showPreview && (
+              <MessagePreview
+                content={mentionAutocomplete.encode(inputMessage).content}
+                currentUserId={currentUserId}
+              />
+            )}
+
             <form
               onSubmit={handleFormSubmit}
-              className="flex items-center space-x-3"
+              className="relative flex items-center space-x-3"
             >
+              {mentionAutocomplete.isOpen && (
+                <MentionSuggestions
+                  suggestions={mentionAutocomplete.suggestions}
+                  activeIndex={mentionAutocomplete.activeIndex}
+                  onSelect={mentionAutocomplete.select}
+                />
+              )}
+
               <input
                 type="file"
                 ref={fileInputRef}
                 className="hidden"
-                onChange={async (e) => {
-                  const file = e.target.files?.[0];
-                  if (file && groupId) {
-                    try {
-                      // Validate file first
-                      const validation = validateFile(file);
-                      if (!validation.valid) {
-                        toast.error(validation.error || "Invalid file");
-                        return;
-                      }
-
-                      setIsUploadingFile(true);
-                      setUploadProgress(0);
-
-                      // Create optimistic message first
-                      const tempId = `temp-${Date.now()}-${Math.random()}`;
-                      const optimisticMessage: GroupMessage = {
-                        id: tempId,
-                        content: `📎 ${file.name}`,
-                        sender: {
-                          id: String(currentUserId),
-                          name: "You",
-                          avatar_url:
-                            userInfo?.profile_picture_url ||
-                            user?.profile_picture_url ||
-                            null,
-                        },
-                        timestamp: new Date().toISOString(),
-                        isCurrentUser: true,
-                        pending: true,
-                        delivered: false,
-                        attachment: {
-                          type:
-                            getMediaType(file.type) === "image"
-                              ? "image"
-                              : "file",
-                          url: URL.createObjectURL(file), // Use temporary URL for immediate display
-                          name: file.name,
-                          size: formatFileSize(file.size),
-                        },
-                      };
-
-                      // Add optimistic message to UI immediately
-                      setMessages((prevMessages) => [
-                        ...prevMessages,
-                        optimisticMessage,
-                      ]);
-
-                      // Upload file and send message using fileUploadHelper
-                      const result = await uploadFileAndSendMessage(
-                        file,
-                        groupId,
-                        "", // messageText (empty since we're just sending a file)
-                        true, // isGroup set to true for group chat
-                        (progress: number) => setUploadProgress(progress),
-                        session?.access_token
-                      );
-
-                      // Extract real message ID from response
-                      const realMessageId = result?.messageId;
-
-                      if (realMessageId) {
-                        // Update optimistic message with real ID and server URL
-                        setMessages((prevMessages) =>
-                          prevMessages.map((msg) =>
-                            msg.id === tempId
-                              ? {
-                                  ...msg,
-                                  id: realMessageId, // Replace temp ID with real ID
-                                  pending: false,
-                                  delivered: true,
-                                  attachment: {
-                                    ...msg.attachment!,
-                                    url: result.fileUrl,
-                                  },
-                                }
-                              : msg
-                          )
-                        );
-                      } else {
-                        // Fallback: just mark as delivered if no real ID available
-                        setMessages((prevMessages) =>
-                          prevMessages.map((msg) =>
-                            msg.id === tempId
-                              ? {
-                                  ...msg,
-                                  pending: false,
-                                  delivered: true,
-                                  attachment: {
-                                    ...msg.attachment!,
-                                    url: result.fileUrl,
-                                  },
-                                }
-                              : msg
-                          )
-                        );
-                      }
-
-                      // Auto-scroll to show the new message
-                      setTimeout(() => {
-                        messagesEndRef.current?.scrollIntoView({
-                          behavior: "smooth",
-                        });
-                      }, 50);
-
-                      toast.success("File uploaded successfully!");
-                    } catch (error) {
-                      toast.error(
-                        error instanceof Error
-                          ? error.message
-                          : "File upload failed"
-                      );
-                    } finally {
-                      setIsUploadingFile(false);
-                      setUploadProgress(0);
-                      // Clear the file input
-                      e.target.value = "";
-                    }
-                  }
-                }}
-                accept="image/*,application/pdf,.doc,.docx,.txt"
+                multiple
+                onChange={attachmentInput.handleFileInputChange}
+                accept="image/*,audio/*,application/pdf,.doc,.docx,.txt"
               />
 
               <button
@@ -1899,11 +2401,27 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
                 <Paperclip className="h-4 w-4" />
               </button>
 
+              <button
+                type="button"
+                onClick={() => setShowPreview((prev) => !prev)}
+                className={`p-1.5 transition-colors ${
+                  showPreview
+                    ? "text-blue-500"
+                    : "text-gray-400 hover:text-blue-400"
+                }`}
+                title={showPreview ? "Hide preview" : "Preview formatting"}
+                aria-pressed={showPreview}
+              >
+                <FaEye className="h-4 w-4" />
+              </button>
+
               <textarea
                 ref={textareaRef}
                 value={inputMessage}
-                onChange={(e) => setInputMessage(e.target.value)}
+                onPaste={attachmentInput.handlePaste}
+                onChange={mentionAutocomplete.handleChange}
                 onKeyDown={(e) => {
+                  if (mentionAutocomplete.handleKeyDown(e)) return;
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
                     handleFormSubmit(e as any);
@@ -1924,9 +2442,35 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
                 }}
               />
 
+              {!editingMessageId && (
+                <VoiceRecordButton
+                  onRecorded={(file) =>
+                    sendAttachment(file, VOICE_MESSAGE_CAPTION).catch(() =>
+                      toast.error("Failed to send voice message")
+                    )
+                  }
+                  disabled={isSending}
+                />
+              )}
+
+              {!editingMessageId && (
+                <button
+                  type="button"
+                  onClick={() => setIsScheduling(true)}
+                  disabled={!inputMessage.trim() || isSending}
+                  className="p-1.5 text-gray-400 hover:text-blue-400 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+                  title="Schedule message"
+                >
+                  <FaClock className="h-4 w-4" />
+                </button>
+              )}
+
               <button
                 type="submit"
-                disabled={!inputMessage.trim() || isSending}
+                disabled={
+                  (!inputMessage.trim() && pendingAttachments.length === 0) ||
+                  isSending
+                }
                 className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
                 title="Send message"
               >
@@ -1937,23 +2481,6 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
                 )}
               </button>
             </form>
-
-            {isUploadingFile && (
-              <div className="mt-1 bg-blue-50 border border-blue-200 rounded-md p-2">
-                <div className="flex items-center">
-                  <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent mr-2" />
-                  <span className="text-xs text-blue-600">
-                    Uploading... {uploadProgress}%
-                  </span>
-                </div>
-                <div className="w-full bg-blue-200 rounded-full h-1 mt-1">
-                  <div
-                    className="bg-blue-500 h-1 rounded-full transition-all duration-300"
-                    style={{ width: `${uploadProgress}%` }}
-                  />
-                </div>
-              </div>
-            )}
           </div>
         </div>
 
@@ -1974,12 +2501,40 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ groupId, isOwner }) => {
                   groupName={groupDetails.name}
                   groupDetails={groupDetails}
                   onClose={() => setShowProfile(false)}
+                  onJumpToMessage={scrollToMessage}
                 />
               </div>
             </div>
           </>
         )}
       </div>
+
+      {forwardingMessage && (
+        <ForwardMessageDialog
+          message={forwardingMessage}
+          onClose={() => setForwardingMessage(null)}
+        />
+      )}
+
+      {isScheduling && (
+        <ScheduleMessageDialog
+          title="Schedule message"
+          submitLabel="Schedule"
+          onSubmit={handleScheduleMessage}
+          onClose={() => setIsScheduling(false)}
+        />
+      )}
+
+      {editingScheduled && (
+        <ScheduleMessageDialog
+          title="Edit scheduled message"
+          content={stripMentionTokens(editingScheduled.content)}
+          sendAt={editingScheduled.send_at}
+          submitLabel="Save"
+          onSubmit={handleUpdateScheduled}
+          onClose={() => setEditingScheduled(null)}
+        />
+      )}
     </div>
   );
 };
@@ -20,12 +20,16 @@ import { useGroup } from "@/hooks/auth/useGroup";
 import usePresence from "@/hooks/presence/usePresence";
 import { useFriendship } from "@/hooks/auth/useFriends";
 import { useSession } from "next-auth/react";
+import { usePinnedMessages } from "@/hooks/messages/usePinnedMessages";
+import { PinnedMessagesList } from "./pinned-messages";
 
 interface GroupProfileInfoProps {
   groupName: string;
   groupDetails: GroupDetails;
   onClose: () => void;
   onUpdateGroup?: (groupId: string, groupData: any) => void;
+  // Scrolls the conversation to a message, e.g. a pinned one
+  onJumpToMessage?: (messageId: string) => void;
 }
 
 interface GroupMember {
@@ -82,6 +86,7 @@ export default function GroupProfileInfo({
   groupDetails: initialGroupDetails,
   onClose,
   onUpdateGroup,
+  onJumpToMessage,
 }: GroupProfileInfoProps) {
   // Group data management hooks
   const {
@@ -109,6 +114,14 @@ export default function GroupProfileInfo({
   // Component state
   const [groupDetails, setGroupDetails] =
     useState<GroupDetails>(initialGroupDetails);
+  const { pins, togglePin } = usePinnedMessages("group", groupDetails.id);
+
+  // Only group admins may unpin
+  const isGroupAdmin = groupDetails.members.some(
+    (member) =>
+      (member.user_id || member.id) === session?.user?.id &&
+      member.role !== "member"
+  );
   const [expandedSection, setExpandedSection] = useState<string | null>(
     "members"
   );
@@ -1010,6 +1023,19 @@ export default function GroupProfileInfo({
         )}
       </div>
 
+      {/* Pinned Messages Section */}
+      <div className="p-4">
+        <h3 className="text-black font-medium mb-3">
+          Pinned Messages
+          <span className="text-gray-500 text-sm"> ({pins.length})</span>
+        </h3>
+        <PinnedMessagesList
+          pins={pins}
+          onSelect={onJumpToMessage}
+          onUnpin={isGroupAdmin ? togglePin : undefined}
+        />
+      </div>
+
       {/* Attachments Section */}
       <div className="p-4 border-t border-gray-200">
         <div className="flex justify-between items-center mb-3">
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import {
   FaUser,
   FaClock,
@@ -9,10 +9,27 @@ import {
   FaTrash,
   FaEllipsisV,
   FaDownload,
+  FaReply,
+  FaShare,
+  FaThumbtack,
 } from "react-icons/fa";
 import { formatMessageTimestamp } from "@/utils/timestampHelper";
 import { toast } from "react-hot-toast";
 import { useFiles } from "@/hooks/files/useFiles";
+import {
+  GroupReadReceipt,
+  MessageReaction,
+  ReplyPreview,
+} from "@/types/messages";
+import MessageReactions, { ReactionPicker } from "./message-reactions";
+import { ReceiptMember, SeenByIndicator } from "./read-receipts";
+import { ReplyQuote } from "./reply-quote";
+import { MessageContent } from "./message-content";
+import { LinkPreviewCard } from "./link-preview-card";
+import { UploadProgress } from "./upload-progress";
+import { VoiceMessagePlayer } from "./voice-message";
+import { extractLinks } from "@/utils/markdown";
+import { VOICE_MESSAGE_CAPTION } from "@/utils/voiceMessages";
 
 // Interface untuk MessageItem props
 interface MessageItemProps {
@@ -29,28 +46,62 @@ interface MessageItemProps {
     isEdited?: boolean;
     isDeleted?: boolean;
     attachment?: {
-      type: "image" | "file";
+      type: "image" | "file" | "audio";
       url: string;
       name: string;
       size?: string;
+      placeholder?: string; // low-res preview shown while an image loads
     };
     pending?: boolean;
     failed?: boolean;
     retrying?: boolean;
     delivered?: boolean;
+    uploadProgress?: number; // 0-100 while the attachment uploads
+    reactions?: MessageReaction[];
+    readBy?: GroupReadReceipt[];
+    reply_to?: string;
+    forwarded?: boolean;
     _isOptimisticMessage?: boolean;
   };
   onRetryClick?: (messageId: string) => void;
+  onCancelUpload?: (messageId: string) => void;
   onEditClick?: (messageId: string) => void; // Changed: no longer passes newContent
   onDeleteClick?: (messageId: string) => void;
+  // Adds the emoji, or removes it when the current user already reacted
+  onReactionToggle?: (messageId: string, emoji: string) => void;
+  currentUserId?: string;
+  resolveReactorName?: (userId: string) => string;
+  onReplyClick?: (messageId: string) => void;
+  // The message this one replies to; null when it is not loaded
+  replyPreview?: ReplyPreview | null;
+  onQuoteClick?: (messageId: string) => void;
+  onForwardClick?: (messageId: string) => void;
+  // Omitted when the current user may not pin in this conversation
+  onPinToggle?: (messageId: string) => void;
+  isPinned?: boolean;
+  // Read receipts are shown on the current user's messages when given
+  groupId?: string;
+  receiptMembers?: ReceiptMember[];
 }
 
 // Component untuk menampilkan pesan chat
 const GroupMessageItem: React.FC<MessageItemProps> = ({
   message,
   onRetryClick,
+  onCancelUpload,
   onEditClick,
   onDeleteClick,
+  onReactionToggle,
+  currentUserId,
+  resolveReactorName,
+  onReplyClick,
+  replyPreview,
+  onQuoteClick,
+  onForwardClick,
+  onPinToggle,
+  isPinned,
+  groupId,
+  receiptMembers,
 }) => {
   // State for showing/hiding message actions menu
   const [showActions, setShowActions] = useState(false);
@@ -89,6 +140,17 @@ const GroupMessageItem: React.FC<MessageItemProps> = ({
     // Additional check for optimistic messages
     message.id?.startsWith("temp-");
 
+  // The player stands in for the caption of a voice message
+  const isVoiceMessage =
+    message.attachment?.type === "audio" &&
+    message.content === VOICE_MESSAGE_CAPTION;
+
+  // Only the first link gets a preview card
+  const previewUrl = useMemo(
+    () => (message.isDeleted ? undefined : extractLinks(message.content)[0]),
+    [message.isDeleted, message.content]
+  );
+
   // Handler for edit button click
   const handleEditClick = () => {
     if (onEditClick) {
@@ -210,6 +272,23 @@ const GroupMessageItem: React.FC<MessageItemProps> = ({
     // This function is now handled by useEffect
   };
 
+  // Only messages the server knows about can be reacted to, replied to
+  // or forwarded
+  const isSent =
+    !message.isDeleted &&
+    !message.pending &&
+    !message.failed &&
+    !message.retrying &&
+    !message.id.startsWith("temp-");
+  const canReact = Boolean(onReactionToggle) && isSent;
+  const canReply = Boolean(onReplyClick) && isSent;
+  const canForward = Boolean(onForwardClick) && isSent;
+  const canPin = Boolean(onPinToggle) && isSent;
+
+  const handleReactionToggle = (emoji: string) => {
+    onReactionToggle?.(message.id, emoji);
+  };
+
   // Toggle actions menu
   const toggleActions = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -221,7 +300,7 @@ const GroupMessageItem: React.FC<MessageItemProps> = ({
       key={message.id}
       className={`flex ${
         isDefinitelyCurrentUser ? "justify-end" : "justify-start"
-      } mb-3 sm:mb-4`}
+      } mb-3 sm:mb-4 group/message`}
       data-message-id={message.id}
       data-is-current={isDefinitelyCurrentUser ? "true" : "false"}
     >
@@ -262,163 +341,293 @@ const GroupMessageItem: React.FC<MessageItemProps> = ({
 
         {/* Message bubble dengan interaksi yang ditingkatkan */}
         <div
-          className={`rounded-xl sm:rounded-2xl px-3 sm:px-4 py-2 sm:py-3 relative group shadow-sm ${
-            message.isDeleted
-              ? "bg-gray-200 text-gray-500 italic"
-              : isDefinitelyCurrentUser
-              ? message.failed
-                ? "bg-red-100 text-red-800 border border-red-300 cursor-pointer hover:bg-red-200"
-                : "bg-blue-500 text-white"
-              : "bg-white border border-gray-200 text-gray-800 hover:shadow-md"
-          } transition-all duration-200`}
-          onClick={
-            message.failed && onRetryClick
-              ? () => onRetryClick(message.id)
-              : undefined
-          }
-          title={
-            message.failed ? "Click to retry sending this message" : undefined
-          }
+          className={`flex items-center ${
+            isDefinitelyCurrentUser ? "flex-row-reverse" : ""
+          }`}
         >
-          {/* Message actions dropdown for current user's messages */}
-          {isDefinitelyCurrentUser &&
-            !message.isDeleted &&
-            !message.pending &&
-            !message.failed &&
-            !message.retrying &&
-            onEditClick &&
-            onDeleteClick && (
-              <div className="absolute top-2 right-2" ref={dropdownRef}>
-                <button
-                  onClick={toggleActions}
-                  className="text-white hover:text-blue-200 p-1.5 rounded-full focus:outline-none opacity-0 group-hover:opacity-100 transition-opacity bg-black bg-opacity-20 hover:bg-opacity-40 touch-manipulation"
-                >
-                  <FaEllipsisV className="h-3 w-3" />
-                </button>
-
-                {/* Dropdown menu */}
-                {showActions && (
-                  <div className="absolute right-0 top-8 w-32 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
-                    <div className="py-1">
-                      <button
-                        onClick={handleEditClick}
-                        className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
-                      >
-                        <FaPencilAlt className="mr-2 text-xs" /> Edit
-                      </button>
-                      <button
-                        onClick={handleDeleteClick}
-                        className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
-                      >
-                        <FaTrash className="mr-2 text-xs" /> Unsend
-                      </button>
+          <div
+            className={`rounded-xl sm:rounded-2xl px-3 sm:px-4 py-2 sm:py-3 relative group shadow-sm ${
+              message.isDeleted
+                ? "bg-gray-200 text-gray-500 italic"
+                : isDefinitelyCurrentUser
+                ? message.failed
+                  ? "bg-red-100 text-red-800 border border-red-300 cursor-pointer hover:bg-red-200"
+                  : "bg-blue-500 text-white"
+                : "bg-white border border-gray-200 text-gray-800 hover:shadow-md"
+            } transition-all duration-200`}
+            onClick={
+              message.failed && onRetryClick
+                ? () => onRetryClick(message.id)
+                : undefined
+            }
+            title={
+              message.failed ? "Click to retry sending this message" : undefined
+            }
+          >
+            {/* Message actions dropdown for current user's messages */}
+            {isDefinitelyCurrentUser &&
+              !message.isDeleted &&
+              !message.pending &&
+              !message.failed &&
+              !message.retrying &&
+              onEditClick &&
+              onDeleteClick && (
+                <div className="absolute top-2 right-2" ref={dropdownRef}>
+                  <button
+                    onClick={toggleActions}
+                    className="text-white hover:text-blue-200 p-1.5 rounded-full focus:outline-none opacity-0 group-hover:opacity-100 transition-opacity bg-black bg-opacity-20 hover:bg-opacity-40 touch-manipulation"
+                  >
+                    <FaEllipsisV className="h-3 w-3" />
+                  </button>
+
+                  {/* Dropdown menu */}
+                  {showActions && (
+                    <div className="absolute right-0 top-8 w-32 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                      <div className="py-1">
+                        <button
+                          onClick={handleEditClick}
+                          className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
+                        >
+                          <FaPencilAlt className="mr-2 text-xs" /> Edit
+                        </button>
+                        <button
+                          onClick={handleDeleteClick}
+                          className="w-full px-4 py-2 text-sm text-left text-gray-700 hover:bg-gray-100 flex items-center transition-colors"
+                        >
+                          <FaTrash className="mr-2 text-xs" /> Unsend
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            )}
-
-          {/* Indikator status yang ditingkatkan */}
-          {message.pending && (
-            <div className="absolute top-1 right-1 sm:top-0 sm:right-0 sm:-mt-1 sm:-mr-1">
-              <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-blue-500 border-t-transparent"></div>
-            </div>
-          )}
-
-          {message.retrying && (
-            <div className="absolute top-1 right-1 sm:top-0 sm:right-0 sm:-mt-1 sm:-mr-1">
-              <div className="animate-pulse rounded-full h-3 w-3 sm:h-4 sm:w-4 bg-yellow-500"></div>
-            </div>
-          )}
-
-          {/* Tampilan attachment dengan penanganan yang ditingkatkan */}
-          {message.attachment && (
-            <div className="mb-1">
-              {message.attachment.type === "image" ? (
-                <ImageWithRetry
-                  src={message.attachment.url}
-                  alt={message.attachment.name}
-                  className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity max-h-48 sm:max-h-56"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    window.open(message.attachment!.url, "_blank");
-                  }}
-                  messageId={message.id}
-                />
-              ) : (
-                <button
-                  onClick={(e) =>
-                    handleDownloadFile(
-                      e,
-                      message.attachment!.url,
-                      message.attachment!.name
-                    )
-                  }
-                  disabled={isDownloading}
-                  className="text-blue-500 hover:underline flex items-center space-x-1 transition-colors p-1.5 bg-gray-50 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 text-xs"
-                  title={`Download ${message.attachment!.name}`}
-                >
-                  {isDownloading ? (
-                    <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent" />
-                  ) : (
-                    <FaFile className="text-gray-500 text-xs h-3 w-3" />
                   )}
-                  <span className="text-xs truncate max-w-28 sm:max-w-32">
-                    {message.attachment!.name}
-                  </span>
-                  {!isDownloading && (
-                    <FaDownload className="text-gray-400 text-xs h-2.5 w-2.5" />
-                  )}
-                </button>
+                </div>
               )}
-            </div>
-          )}
 
-          {/* Regular message content - no more edit mode in bubble */}
-          <p className="text-sm sm:text-base break-words whitespace-pre-wrap leading-relaxed">
-            {message.isDeleted ? "This message was deleted" : message.content}
-          </p>
+            {/* Indikator status yang ditingkatkan */}
+            {message.pending && (
+              <div className="absolute top-1 right-1 sm:top-0 sm:right-0 sm:-mt-1 sm:-mr-1">
+                <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-blue-500 border-t-transparent"></div>
+              </div>
+            )}
 
-          {/* Timestamp and status indicators */}
-          <div className="flex items-center justify-end space-x-1 mt-1 sm:mt-2">
-            {message.isEdited && !message.isDeleted && (
-              <span className="text-xs opacity-75">(edited)</span>
+            {message.retrying && (
+              <div className="absolute top-1 right-1 sm:top-0 sm:right-0 sm:-mt-1 sm:-mr-1">
+                <div className="animate-pulse rounded-full h-3 w-3 sm:h-4 sm:w-4 bg-yellow-500"></div>
+              </div>
             )}
 
-            {message.failed && (
-              <span className="text-xs text-red-600 font-medium">Failed</span>
+            {/* Marker for messages copied from another conversation */}
+            {message.forwarded && !message.isDeleted && (
+              <p
+                className={`flex items-center text-xs italic mb-1 ${
+                  isDefinitelyCurrentUser ? "text-blue-100" : "text-gray-500"
+                }`}
+              >
+                <FaShare className="h-2.5 w-2.5 mr-1" /> Forwarded
+              </p>
             )}
 
-            <span className="text-xs opacity-75">
-              {formatMessageTimestamp({
-                timestamp: message.timestamp,
-                raw_timestamp: (message as any).raw_timestamp,
-                created_at: (message as any).created_at,
-                sent_at: (message as any).sent_at,
-                format: "time",
-              }) || "No Time"}
-            </span>
-
-            {/* Ikon status yang ditingkatkan untuk pesan dari pengguna saat ini */}
-            {isDefinitelyCurrentUser && (
-              <div className="ml-1">
-                {message.pending && <FaClock className="h-3 w-3 opacity-75" />}
-                {message.retrying && (
-                  <div className="animate-spin rounded-full h-3 w-3 border border-current border-t-transparent opacity-75"></div>
+            {/* Quoted original for replies */}
+            {message.reply_to && !message.isDeleted && (
+              <ReplyQuote
+                preview={replyPreview}
+                isCurrentUser={isDefinitelyCurrentUser}
+                onClick={() => onQuoteClick?.(message.reply_to!)}
+              />
+            )}
+
+            {/* Tampilan attachment dengan penanganan yang ditingkatkan */}
+            {message.attachment && (
+              <div className="mb-1">
+                {message.attachment.type === "audio" ? (
+                  <VoiceMessagePlayer
+                    url={message.attachment.url}
+                    onDark={isDefinitelyCurrentUser}
+                  />
+                ) : message.attachment.type === "image" ? (
+                  <ImageWithRetry
+                    src={message.attachment.url}
+                    alt={message.attachment.name}
+                    className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity max-h-48 sm:max-h-56"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      window.open(message.attachment!.url, "_blank");
+                    }}
+                    messageId={message.id}
+                    placeholder={message.attachment.placeholder}
+                  />
+                ) : (
+                  <button
+                    onClick={(e) =>
+                      handleDownloadFile(
+                        e,
+                        message.attachment!.url,
+                        message.attachment!.name
+                      )
+                    }
+                    disabled={isDownloading}
+                    className="text-blue-500 hover:underline flex items-center space-x-1 transition-colors p-1.5 bg-gray-50 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 text-xs"
+                    title={`Download ${message.attachment!.name}`}
+                  >
+                    {isDownloading ? (
+                      <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-500 border-t-transparent" />
+                    ) : (
+                      <FaFile className="text-gray-500 text-xs h-3 w-3" />
+                    )}
+                    <span className="text-xs truncate max-w-28 sm:max-w-32">
+                      {message.attachment!.name}
+                    </span>
+                    {!isDownloading && (
+                      <FaDownload className="text-gray-400 text-xs h-2.5 w-2.5" />
+                    )}
+                  </button>
                 )}
-                {message.failed && (
-                  <FaExclamationTriangle className="h-3 w-3 text-red-300" />
+                {message.uploadProgress !== undefined && (
+                  <UploadProgress
+                    progress={message.uploadProgress}
+                    onCancel={
+                      onCancelUpload && (() => onCancelUpload(message.id))
+                    }
+                    onDark={isDefinitelyCurrentUser}
+                  />
                 )}
-                {!message.pending &&
-                  !message.failed &&
-                  !message.retrying &&
-                  message.delivered && (
-                    <FaCheck className="h-3 w-3 opacity-75" />
-                  )}
               </div>
             )}
+
+            {/* Regular message content - no more edit mode in bubble */}
+            {message.isDeleted ? (
+              <p className="text-sm sm:text-base break-words whitespace-pre-wrap leading-relaxed">
+                This message was deleted
+              </p>
+            ) : isVoiceMessage ? null : (
+              <MessageContent
+                content={message.content}
+                currentUserId={currentUserId}
+                onDark={isDefinitelyCurrentUser}
+                className="text-sm sm:text-base leading-relaxed"
+              />
+            )}
+
+            {previewUrl && (
+              <LinkPreviewCard
+                url={previewUrl}
+                onDark={isDefinitelyCurrentUser}
+              />
+            )}
+
+            {/* Timestamp and status indicators */}
+            <div className="flex items-center justify-end space-x-1 mt-1 sm:mt-2">
+              {message.isEdited && !message.isDeleted && (
+                <span className="text-xs opacity-75">(edited)</span>
+              )}
+
+              {isPinned && !message.isDeleted && (
+                <FaThumbtack
+                  className="h-2.5 w-2.5 opacity-75"
+                  title="Pinned"
+                />
+              )}
+
+              {message.failed && (
+                <span className="text-xs text-red-600 font-medium">Failed</span>
+              )}
+
+              <span className="text-xs opacity-75">
+                {formatMessageTimestamp({
+                  timestamp: message.timestamp,
+                  raw_timestamp: (message as any).raw_timestamp,
+                  created_at: (message as any).created_at,
+                  sent_at: (message as any).sent_at,
+                  format: "time",
+                }) || "No Time"}
+              </span>
+
+              {/* Ikon status yang ditingkatkan untuk pesan dari pengguna saat ini */}
+              {isDefinitelyCurrentUser && (
+                <div className="ml-1">
+                  {message.pending && (
+                    <FaClock className="h-3 w-3 opacity-75" />
+                  )}
+                  {message.retrying && (
+                    <div className="animate-spin rounded-full h-3 w-3 border border-current border-t-transparent opacity-75"></div>
+                  )}
+                  {message.failed && (
+                    <FaExclamationTriangle className="h-3 w-3 text-red-300" />
+                  )}
+                  {!message.pending &&
+                    !message.failed &&
+                    !message.retrying &&
+                    message.delivered && (
+                      <FaCheck className="h-3 w-3 opacity-75" />
+                    )}
+                </div>
+              )}
+            </div>
           </div>
+          {canReact && (
+            <ReactionPicker
+              onSelect={handleReactionToggle}
+              align={isDefinitelyCurrentUser ? "right" : "left"}
+            />
+          )}
+          {canReply && (
+            <button
+              type="button"
+              onClick={() => onReplyClick?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title="Reply"
+              aria-label="Reply"
+            >
+              <FaReply className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {canForward && (
+            <button
+              type="button"
+              onClick={() => onForwardClick?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title="Forward"
+              aria-label="Forward"
+            >
+              <FaShare className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {canPin && (
+            <button
+              type="button"
+              onClick={() => onPinToggle?.(message.id)}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+              title={isPinned ? "Unpin" : "Pin"}
+              aria-label={isPinned ? "Unpin message" : "Pin message"}
+            >
+              <FaThumbtack className="h-3.5 w-3.5" />
+            </button>
+          )}
         </div>
+
+        <MessageReactions
+          reactions={message.reactions}
+          currentUserId={currentUserId}
+          resolveName={resolveReactorName}
+          onToggle={canReact ? handleReactionToggle : undefined}
+          align={isDefinitelyCurrentUser ? "right" : "left"}
+        />
+
+        {isDefinitelyCurrentUser &&
+          groupId &&
+          receiptMembers &&
+          !message.pending &&
+          !message.failed &&
+          !message.isDeleted && (
+            <div className="flex justify-end mt-1">
+              <SeenByIndicator
+                groupId={groupId}
+                messageId={message.id}
+                senderId={message.sender.id}
+                receipts={message.readBy}
+                members={receiptMembers}
+              />
+            </div>
+          )}
       </div>
     </div>
   );
@@ -431,6 +640,7 @@ interface ImageWithRetryProps {
   className?: string;
   onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
   messageId: string;
+  placeholder?: string; // shown blurred until the image has loaded
 }
 
 const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
@@ -439,8 +649,10 @@ const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
   className,
   onClick,
   messageId,
+  placeholder,
 }) => {
   const [imageSrc, setImageSrc] = useState(src);
+  const [isLoaded, setIsLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [hasError, setHasError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
@@ -520,13 +732,24 @@ const ImageWithRetry: React.FC<ImageWithRetryProps> = ({
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
         </div>
       )}
+      {placeholder && !isLoaded && !isLoading && (
+        <img
+          src={placeholder}
+          alt=""
+          aria-hidden="true"
+          className={`${className || ""} w-48 object-cover blur-sm`}
+        />
+      )}
       <img
         src={imageSrc}
         alt={alt}
         className={className}
         onClick={onClick}
+        onLoad={() => setIsLoaded(true)}
         onError={handleError}
-        style={{ display: isLoading ? "none" : "block" }}
+        style={{
+          display: isLoading || (placeholder && !isLoaded) ? "none" : "block",
+        }}
       />
     </div>
   );
@@ -10,6 +10,8 @@ import { useGroup, Group as ApiGroup } from "@/hooks/auth/useGroup";
 import { useFriendship } from "@/hooks/auth/useFriends";
 import { useMessages } from "@/hooks/messages/useMessages";
 import { NotificationDropdown } from "@/components/notification-dropdown";
+import { ServiceUnavailableNotice } from "@/components/service-unavailable-notice";
+import { stripMentionTokens } from "@/utils/mentions";
 
 // Interface for group data
 interface Group {
@@ -90,6 +92,7 @@ export function GroupsList() {
     groups: hookGroups,
     loading: groupsLoading,
     error: groupsError,
+    serviceUnavailable: groupsUnavailable,
   } = useGroup();
 
   // Messages hook for group navigation
@@ -101,8 +104,9 @@ export function GroupsList() {
   } = useMessages();
 
   // Fetch all groups on component mount
+  // Failures are shown from the hook's error state
   useEffect(() => {
-    getGroups();
+    getGroups().catch(() => {});
   }, []);
 
   // Fetch friends using useFriendship hook
@@ -458,6 +462,11 @@ export function GroupsList() {
             <p className="text-red-500 font-medium">Failed to load groups</p>
             <p className="text-sm text-gray-400 mt-2">Please try again later</p>
           </div>
+        ) : groupsUnavailable && filteredGroups.length === 0 ? (
+          <ServiceUnavailableNotice
+            service="Groups"
+            onRetry={() => getGroups().catch(() => {})}
+          />
         ) : filteredGroups.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-center p-6">
             <FaUsers className="h-12 w-12 text-gray-300 mb-3" />
@@ -525,7 +534,7 @@ export function GroupsList() {
                               {": "}
                             </>
                           )}
-                          {group.last_message.content}
+                          {stripMentionTokens(group.last_message.content)}
                         </p>
                       ) : (
                         <p className="text-xs text-gray-600">
@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import { useLinkPreviewQuery } from "@/hooks/queries/useLinkPreviewQuery";
+
+interface LinkPreviewCardProps {
+  url: string;
+  // The bubble is blue, so the card needs lighter colours
+  onDark?: boolean;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+// Open Graph card for the first link of a message. Renders nothing until
+// the preview has loaded, or at all when the page has none.
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({
+  url,
+  onDark,
+}) => {
+  const { data: preview } = useLinkPreviewQuery(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (!preview) return null;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className={`mt-2 flex max-w-sm overflow-hidden rounded-lg border-l-4 transition-colors ${
+        onDark
+          ? "bg-white/10 border-white/60 hover:bg-white/20"
+          : "bg-gray-50 border-blue-400 hover:bg-gray-100"
+      }`}
+    >
+      <div className="min-w-0 flex-1 px-3 py-2">
+        <p
+          className={`text-xs truncate ${
+            onDark ? "text-blue-100" : "text-gray-500"
+          }`}
+        >
+          {preview.site_name || hostnameOf(preview.url)}
+        </p>
+        <p
+          className={`text-sm font-semibold line-clamp-2 ${
+            onDark ? "text-white" : "text-blue-700"
+          }`}
+        >
+          {preview.title}
+        </p>
+        {preview.description && (
+          <p
+            className={`text-xs line-clamp-2 mt-0.5 ${
+              onDark ? "text-blue-50" : "text-gray-600"
+            }`}
+          >
+            {preview.description}
+          </p>
+        )}
+      </div>
+      {preview.image && !imageFailed && (
+        <img
+          src={preview.image}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+          className="h-20 w-20 flex-shrink-0 self-center object-cover"
+        />
+      )}
+    </a>
+  );
+};
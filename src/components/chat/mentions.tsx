@@ -0,0 +1,70 @@
+import React from "react";
+import { MentionCandidate } from "@/utils/mentions";
+import { OptimizedAvatar } from "../optimized-avatar";
+
+interface MentionSuggestionsProps {
+  suggestions: (MentionCandidate & { avatar?: string })[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+// Member list shown above the composer while typing `@name`
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  suggestions,
+  activeIndex,
+  onSelect,
+}) => (
+  <div className="absolute bottom-full left-0 mb-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
+    {suggestions.map((candidate, index) => (
+      <button
+        key={candidate.id}
+        type="button"
+        // Keep focus in the textarea
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(candidate)}
+        className={`w-full flex items-center px-3 py-2 text-sm text-left transition-colors ${
+          index === activeIndex ? "bg-blue-50" : "hover:bg-gray-50"
+        }`}
+      >
+        <OptimizedAvatar
+          src={candidate.avatar}
+          alt={candidate.name}
+          size="sm"
+          className="mr-2 flex-shrink-0"
+        />
+        <span className="truncate">{candidate.name}</span>
+      </button>
+    ))}
+  </div>
+);
+
+interface MentionProps {
+  userId: string;
+  name: string;
+  currentUserId?: string;
+  // The bubble is blue, so mentions need lighter colours
+  onDark?: boolean;
+}
+
+// A mention inside message text, highlighted more strongly when it is
+// the current user being mentioned
+export const Mention: React.FC<MentionProps> = ({
+  userId,
+  name,
+  currentUserId,
+  onDark,
+}) => (
+  <span
+    className={`font-semibold rounded px-0.5 ${
+      userId === currentUserId
+        ? onDark
+          ? "bg-yellow-300 text-gray-900"
+          : "bg-yellow-100 text-yellow-800"
+        : onDark
+        ? "text-blue-100"
+        : "text-blue-600"
+    }`}
+  >
+    @{name}
+  </span>
+);
@@ -0,0 +1,175 @@
+import React, { useMemo } from "react";
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "@/utils/markdown";
+import { CodeTokenType, highlightCode } from "@/utils/syntaxHighlight";
+import { Mention } from "./mentions";
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: "",
+  keyword: "text-pink-400",
+  string: "text-green-300",
+  comment: "text-gray-400 italic",
+  number: "text-amber-300",
+};
+
+interface RenderOptions {
+  currentUserId?: string;
+  // Colours for text on the blue bubble of the current user's messages
+  onDark?: boolean;
+}
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  options: RenderOptions
+): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "strong":
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInline(node.children, options)}
+          </strong>
+        );
+      case "em":
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case "code":
+        return (
+          <code
+            key={index}
+            className={`font-mono text-[0.85em] rounded px-1 ${
+              options.onDark ? "bg-blue-700/60" : "bg-gray-200 text-gray-800"
+            }`}
+          >
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={`underline break-all ${
+              options.onDark ? "text-white" : "text-blue-600"
+            }`}
+          >
+            {node.text}
+          </a>
+        );
+      case "mention":
+        return (
+          <Mention
+            key={index}
+            userId={node.userId}
+            name={node.name}
+            currentUserId={options.currentUserId}
+            onDark={options.onDark}
+          />
+        );
+      default:
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    }
+  });
+
+const renderBlocks = (
+  blocks: MarkdownBlock[],
+  options: RenderOptions
+): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case "code":
+        return (
+          <pre
+            key={index}
+            className="bg-gray-900 text-gray-100 rounded-md p-2 text-xs font-mono overflow-x-auto whitespace-pre"
+          >
+            <code>
+              {highlightCode(block.text, block.language).map((token, i) => (
+                <span key={i} className={TOKEN_CLASSES[token.type]}>
+                  {token.text}
+                </span>
+              ))}
+            </code>
+          </pre>
+        );
+      case "quote":
+        return (
+          <blockquote
+            key={index}
+            className={`border-l-4 pl-2 space-y-1 ${
+              options.onDark
+                ? "border-blue-300 text-blue-50"
+                : "border-gray-300 text-gray-600"
+            }`}
+          >
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, i) => (
+          <li key={i}>{renderInline(item, options)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">
+            {items}
+          </ul>
+        );
+      }
+      default:
+        return (
+          <p key={index} className="whitespace-pre-wrap break-words">
+            {renderInline(block.children, options)}
+          </p>
+        );
+    }
+  });
+
+interface MessageContentProps extends RenderOptions {
+  content: string;
+  className?: string;
+}
+
+// Message text rendered from its Markdown. Everything goes through React
+// elements, never HTML strings, so message content can't inject markup.
+export const MessageContent: React.FC<MessageContentProps> = ({
+  content,
+  currentUserId,
+  onDark,
+  className = "",
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {renderBlocks(blocks, { currentUserId, onDark })}
+    </div>
+  );
+};
+
+interface MessagePreviewProps {
+  content: string;
+  currentUserId?: string;
+}
+
+// Composer preview of how the typed message will render
+export const MessagePreview: React.FC<MessagePreviewProps> = ({
+  content,
+  currentUserId,
+}) => (
+  <div className="mb-2 max-h-48 overflow-y-auto border border-gray-200 rounded-lg bg-gray-50 px-3 py-2">
+    <p className="text-xs font-medium text-gray-500 mb-1">Preview</p>
+    {content.trim() ? (
+      <MessageContent
+        content={content}
+        currentUserId={currentUserId}
+        className="text-sm text-gray-800"
+      />
+    ) : (
+      <p className="text-sm text-gray-400">Nothing to preview</p>
+    )}
+  </div>
+);
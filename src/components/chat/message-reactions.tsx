@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FaRegSmile } from "react-icons/fa";
+import { MessageReaction } from "@/types/messages";
+
+// Emojis offered in the reaction picker
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  // Side of the bubble the picker opens towards
+  align?: "left" | "right";
+}
+
+// Smiley button that opens a row of quick reactions
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  onSelect,
+  align = "left",
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close the picker when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        pickerRef.current &&
+        !pickerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={pickerRef}>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen((open) => !open);
+        }}
+        className="p-1.5 text-gray-400 hover:text-gray-600 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity touch-manipulation"
+        title="Add reaction"
+        aria-label="Add reaction"
+      >
+        <FaRegSmile className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute bottom-8 ${
+            align === "right" ? "right-0" : "left-0"
+          } flex space-x-1 bg-white rounded-full shadow-lg border border-gray-200 px-2 py-1 z-50`}
+        >
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsOpen(false);
+                onSelect(emoji);
+              }}
+              className="text-lg leading-none p-1 rounded-full hover:bg-gray-100 hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MessageReactionsProps {
+  reactions?: MessageReaction[];
+  currentUserId?: string;
+  // Display name for a reacting user, shown in the tooltip
+  resolveName?: (userId: string) => string;
+  onToggle?: (emoji: string) => void;
+  align?: "left" | "right";
+}
+
+// Aggregated reaction chips shown under a message bubble
+const MessageReactions: React.FC<MessageReactionsProps> = ({
+  reactions,
+  currentUserId,
+  resolveName,
+  onToggle,
+  align = "left",
+}) => {
+  if (!reactions || reactions.length === 0) return null;
+
+  return (
+    <div
+      className={`flex flex-wrap gap-1 mt-1 ${
+        align === "right" ? "justify-end" : "justify-start"
+      }`}
+    >
+      {reactions.map((reaction) => {
+        const reactedByMe = Boolean(
+          currentUserId && reaction.users.includes(currentUserId)
+        );
+        const names = reaction.users.map((userId) =>
+          userId === currentUserId ? "You" : resolveName?.(userId) || "Unknown"
+        );
+
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => onToggle?.(reaction.emoji)}
+            disabled={!onToggle}
+            title={`${names.join(", ")} reacted with ${reaction.emoji}`}
+            className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border text-xs transition-colors ${
+              reactedByMe
+                ? "bg-blue-50 border-blue-300 text-blue-700"
+                : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.users.length}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageReactions;
@@ -13,23 +13,24 @@ import { FaUser, FaTimes, FaUsers, FaEnvelope, FaCircle } from "react-icons/fa";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { toast } from "react-hot-toast";
+import { useQueryClient } from "@tanstack/react-query";
 import { NotificationDropdown } from "@/components/notification-dropdown";
 import { useGroup } from "@/hooks/auth/useGroup";
 import { useFriendship } from "@/hooks/auth/useFriends";
 import { useMessages } from "@/hooks/messages/useMessages";
+import { useDrafts } from "@/hooks/messages/useDrafts";
 import usePresence from "@/hooks/presence/usePresence";
 import { useWebSocketContext } from "@/hooks/websocket/WebSocketProviderNew";
-import { eventBus } from "@/hooks/websocket/useEventBus";
+import { useConversationsQuery } from "@/hooks/queries/useMessageQueries";
+import { queryKeys } from "@/hooks/queries/queryKeys";
 import {
   formatMessageTimestamp,
   formatTimeString,
 } from "@/utils/timestampHelper";
+import { stripMentionTokens } from "@/utils/mentions";
+import { MessageDraft } from "@/utils/drafts";
 import { OptimizedAvatar } from "../optimized-avatar";
-import {
-  MessageListItem,
-  BaseMessage,
-  normalizeSingleMessage,
-} from "@/types/messages";
+import { MessageListItem, ConversationPreview } from "@/types/messages";
 
 type MessageType = "friend" | "group";
 
@@ -39,6 +40,16 @@ type UserStatus = "online" | "offline";
 // Message read status type
 type ReadStatus = "read" | "delivered" | "sent" | "unread";
 
+// What the list shows for an unsent draft
+const getDraftPreview = (draft: MessageDraft) => {
+  const text = stripMentionTokens(draft.content).trim();
+  if (text) return text;
+  if (draft.attachments.length > 0) {
+    return draft.attachments.map((file) => `📎 ${file.name}`).join(", ");
+  }
+  return null;
+};
+
 // Tipe data untuk pesan - sekarang menggunakan type yang konsisten
 interface Message extends MessageListItem {}
 
@@ -112,103 +123,41 @@ export function MessagesList() {
     loading: messageLoading,
     error: messageError,
     getUnreadCount,
-    getLastMessage,
     getConversationHistory,
     getUnifiedMessages,
   } = useMessages();
 
   const presence = usePresence();
+  const draftFor = useDrafts();
 
-  // Load friends and groups data directly when component mounts
-  useEffect(() => {
-    getFriends();
-    getGroups();
-  }, [getFriends, getGroups]);
-
-  // Update local state when hook data changes
-  useEffect(() => {
-    if (hookFriends && Array.isArray(hookFriends)) {
-      // Process friends data for display
-
-      const transformAndSetFriends = async () => {
-        const friendsWithMessages = await transformFriendsToMessages(
-          hookFriends
-        );
-        friendsWithMessages.map((f) => ({
-          id: f.id,
-          name: f.sender.name,
-          profile_url: f.sender.profile_picture_url,
-          content: f.content,
-        }));
-        setMessages((prevMessages) => {
-          // Remove old friend messages and add new ones
-          const nonFriendMessages = prevMessages.filter(
-            (msg) => msg.type !== "friend"
-          );
-          return [...nonFriendMessages, ...friendsWithMessages];
-        });
-      };
-
-      transformAndSetFriends();
-    }
-  }, [hookFriends]);
+  // Friends and groups with their last message, shared through the query
+  // cache and kept current by WebSocket events
+  const queryClient = useQueryClient();
+  const {
+    data: conversations,
+    isLoading: conversationsLoading,
+    refetch: refetchConversations,
+    groupsError: conversationsGroupsError,
+  } = useConversationsQuery();
 
+  // Derive the list entries whenever the cached conversations change
   useEffect(() => {
-    if (hookGroups && Array.isArray(hookGroups)) {
-      const transformAndSetGroups = async () => {
-        const groupsWithMessages = await transformGroupsToMessages(hookGroups);
-        setMessages((prevMessages) => {
-          // Remove old group messages and add new ones
-          const nonGroupMessages = prevMessages.filter(
-            (msg) => msg.type !== "group"
-          );
-          return [...nonGroupMessages, ...groupsWithMessages];
-        });
-      };
-
-      transformAndSetGroups();
-    }
-  }, [hookGroups]);
-
-  // WebSocket handling for real-time updates
+    if (!conversations) return;
+
+    setMessages([
+      ...transformFriendsToMessages(
+        conversations.filter((conversation) => conversation.type === "friend")
+      ),
+      ...transformGroupsToMessages(
+        conversations.filter((conversation) => conversation.type === "group")
+      ),
+    ]);
+  }, [conversations]);
+
+  // WebSocket handling for real-time updates. New, edited and deleted
+  // messages reach the list through the query cache; only typing is local.
   useEffect(() => {
-    // Subscribe to WebSocket for realtime updates
     if (isConnected) {
-      // Subscribe to friend status changes
-      const handlePresenceUpdate = (data: any) => {
-        if (data.type === "presence" && data.user_id) {
-          // Trigger fresh data fetch when friend status changes
-          getFriends();
-        }
-      };
-
-      // Subscribe to new message events
-      const handleNewMessage = (data: any) => {
-        if (data.type === "new_message") {
-          // Trigger fresh data fetch when new message arrives
-          getFriends();
-          getGroups();
-        }
-      };
-
-      // Subscribe to message deletion events
-      const handleMessageDeleted = (data: any) => {
-        if (data.type === "message_deleted" && data.message_id) {
-          // Refresh the message list to reflect deletion
-          getFriends();
-          getGroups();
-        }
-      };
-
-      // Subscribe to message edit events
-      const handleMessageEdited = (data: any) => {
-        if (data.type === "message_edited" && data.message_id) {
-          // Refresh the message list to reflect edit
-          getFriends();
-          getGroups();
-        }
-      };
-
       // Subscribe to typing indicators
       const handleTypingEvent = (data: any) => {
         if (data.type === "typing" && data.user_id) {
@@ -219,14 +168,9 @@ export function MessagesList() {
         }
       };
 
-      // Process existing messages and register for new ones
+      // Process existing messages
       if (wsMessages && wsMessages.length > 0) {
-        // Process existing messages
         wsMessages.forEach((message: any) => {
-          if (message.type === "presence") handlePresenceUpdate(message);
-          if (message.type === "message") handleNewMessage(message);
-          if (message.type === "message_deleted") handleMessageDeleted(message);
-          if (message.type === "message_edited") handleMessageEdited(message);
           if (message.type === "typing") handleTypingEvent(message);
         });
       }
@@ -236,112 +180,6 @@ export function MessagesList() {
     }
   }, [isConnected, wsMessages]);
 
-  // Listen for real-time message events via EventBus
-  useEffect(() => {
-    const handleMessageDeleted = (data: {
-      messageId: string;
-      conversationId: string;
-      type: "private" | "group";
-    }) => {
-      // Update local state to reflect the deletion
-      setMessages((prevMessages) =>
-        prevMessages.map((msg) => {
-          if (msg.id === data.conversationId) {
-            return {
-              ...msg,
-              content: "This message was deleted",
-              timestamp: new Date().toISOString(), // Update timestamp to show recent activity
-            };
-          }
-          return msg;
-        })
-      );
-
-      // Also refresh data from server to ensure consistency
-      if (data.type === "private") {
-        getFriends();
-      } else if (data.type === "group") {
-        getGroups();
-      }
-    };
-
-    const handleMessageEdited = (data: {
-      messageId: string;
-      conversationId: string;
-      content: string;
-      type: "private" | "group";
-    }) => {
-      // Update local state to reflect the edit
-      setMessages((prevMessages) =>
-        prevMessages.map((msg) => {
-          if (msg.id === data.conversationId) {
-            return {
-              ...msg,
-              content: data.content,
-              timestamp: new Date().toISOString(), // Update timestamp to show recent activity
-            };
-          }
-          return msg;
-        })
-      );
-
-      // Also refresh data from server to ensure consistency
-      if (data.type === "private") {
-        getFriends();
-      } else if (data.type === "group") {
-        getGroups();
-      }
-    };
-
-    // Subscribe to events
-    eventBus.on("message-deleted", handleMessageDeleted);
-    eventBus.on("message-edited", handleMessageEdited);
-
-    // Cleanup
-    return () => {
-      eventBus.off("message-deleted", handleMessageDeleted);
-      eventBus.off("message-edited", handleMessageEdited);
-    };
-  }, [getFriends, getGroups]);
-
-  // Function to get last message for a conversation
-  const getLastMessageForConversation = async (
-    conversationId: string,
-    type: "friend" | "group"
-  ) => {
-    try {
-      let response = null;
-
-      // Use unified getLastMessage function for both friends and groups
-      if (type === "group") {
-        response = await getLastMessage(conversationId, "group");
-      } else {
-        response = await getLastMessage(conversationId, "private");
-      }
-
-      // Use consistent response normalization
-      const normalizedMessage = normalizeMessageResponse(response);
-
-      // Check if the response indicates no conversation history exists
-      // Return null if there's truly no chat history (empty response, no data, etc.)
-      if (
-        !normalizedMessage ||
-        (response &&
-          response.data &&
-          Array.isArray(response.data) &&
-          response.data.length === 0) ||
-        (response && response.success === false)
-      ) {
-        return null;
-      }
-
-      return normalizedMessage;
-    } catch (error) {
-      // If API call fails, treat as no conversation history
-      return null;
-    }
-  };
-
   // Function to refresh data
   const refreshData = async () => {
     const isInitialLoad = !messages.length;
@@ -355,10 +193,10 @@ export function MessagesList() {
     setError(null);
 
     try {
-      // Just trigger fresh data fetch from hooks
-      await Promise.all([getFriends(), getGroups()]);
-
-      // The useEffect hooks will automatically update the messages when hookFriends and hookGroups change
+      // Refetch the friends and groups lists along with the conversations
+      await queryClient.invalidateQueries({ queryKey: queryKeys.friends.all });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.groups.all });
+      await refetchConversations();
     } catch (err: any) {
       setError(err.message || "Failed to load conversations");
     } finally {
@@ -493,7 +331,10 @@ export function MessagesList() {
       setShowCreateGroupPopup(false);
 
       // Refresh data to show the new group
-      await getGroups();
+      await queryClient.invalidateQueries({ queryKey: queryKeys.groups.all });
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.conversations.all,
+      });
     } catch (err: any) {
       toast.error(err.message || "Failed to create group");
     } finally {
@@ -514,95 +355,81 @@ export function MessagesList() {
   };
 
   // Helper functions for data transformation
-  const transformGroupsToMessages = async (
-    groups: any[]
-  ): Promise<Message[]> => {
+  const transformGroupsToMessages = (
+    conversations: ConversationPreview[]
+  ): Message[] => {
     // Process all groups and only show those with conversation history
-    const validGroups = await Promise.all(
-      groups
-        .filter((group) => group && group.id)
-        .map(async (group) => {
-          // Handle different formats of last_message
-          let lastMessage = group.last_message || {};
-
-          // If no last_message from group data, try to fetch from messages API
-          if (!lastMessage || !Object.keys(lastMessage).length) {
-            lastMessage = await getLastMessageForConversation(
-              group.id,
-              "group"
-            );
-
-            // If API returns null/empty, this group has no conversation history
-            // Return null to filter it out from the list
-            if (!lastMessage) {
-              return null;
-            }
-          }
-
-          // Enhanced check for message existence - check multiple possible content fields
-          const messageDisplay = getMessageDisplayContent(lastMessage);
-          let messageContent = messageDisplay.content;
-          let hasMessage =
-            messageContent !== "No messages yet" && !messageDisplay.isDeleted;
-          let isDeleted = messageDisplay.isDeleted;
-
-          // If still no message content and not deleted, skip this group
-          if (!hasMessage && !isDeleted) {
-            return null;
-          }
-
-          // Find a valid timestamp for sorting
-          const lastActivity =
-            lastMessage?.sent_at ||
-            lastMessage?.created_at ||
-            group.updated_at ||
-            group.created_at ||
-            new Date().toISOString();
-
-          // Format content properly - handle deleted messages first, then regular messages
-          let content;
-          if (isDeleted) {
-            // Always show deleted message indicator for deleted messages
-            content = "This message was deleted";
-          } else if (hasMessage) {
-            // Include sender name in the preview if available for regular messages
-            content = lastMessage.sender_name
-              ? `${lastMessage.sender_name}: ${messageContent}`
-              : messageContent;
-          } else {
-            // This case should not happen due to the filter above, but keep as fallback
-            return null;
-          }
-
-          return {
+    const validGroups = conversations.map(
+      ({ entity: group, lastMessage }) => {
+        // No last message means this group has no conversation history
+        if (!lastMessage) {
+          return null;
+        }
+
+        // Enhanced check for message existence - check multiple possible content fields
+        const messageDisplay = getMessageDisplayContent(lastMessage);
+        let messageContent = messageDisplay.content;
+        let hasMessage =
+          messageContent !== "No messages yet" && !messageDisplay.isDeleted;
+        let isDeleted = messageDisplay.isDeleted;
+
+        // If still no message content and not deleted, skip this group
+        if (!hasMessage && !isDeleted) {
+          return null;
+        }
+
+        // Find a valid timestamp for sorting
+        const lastActivity =
+          lastMessage?.sent_at ||
+          lastMessage?.created_at ||
+          group.updated_at ||
+          group.created_at ||
+          new Date().toISOString();
+
+        // Format content properly - handle deleted messages first, then regular messages
+        let content;
+        if (isDeleted) {
+          // Always show deleted message indicator for deleted messages
+          content = "This message was deleted";
+        } else if (hasMessage) {
+          // Include sender name in the preview if available for regular messages
+          content = lastMessage.sender_name
+            ? `${lastMessage.sender_name}: ${messageContent}`
+            : messageContent;
+        } else {
+          // This case should not happen due to the filter above, but keep as fallback
+          return null;
+        }
+
+        return {
+          id: group.id,
+          sender: {
+            name: group.name || "Unnamed Group",
+            profile_picture_url:
+              group.avatar_url || group.profile_picture_url || null,
             id: group.id,
-            sender: {
-              name: group.name || "Unnamed Group",
-              profile_picture_url:
-                group.avatar_url || group.profile_picture_url || null,
-              id: group.id,
-            },
-            content: content,
-            timestamp:
-              hasMessage || isDeleted
-                ? formatTimestamp(lastMessage.sent_at || lastMessage.created_at)
-                : "",
-            formattedTime: formatTimestamp(lastActivity),
-            read: !group.unread_count || group.unread_count === 0,
-            readStatus:
-              group.unread_count && group.unread_count > 0
-                ? ("unread" as ReadStatus)
-                : ("read" as ReadStatus),
-            unreadCount:
-              group.unread_count && group.unread_count > 0
-                ? group.unread_count
-                : undefined,
-            type: "group" as MessageType,
-            lastActivity,
-            isTyping: false, // Will be updated by WebSocket events
-            hasMessages: hasMessage || isDeleted, // Include deleted messages as having conversation history
-          } as Message;
-        })
+          },
+          content: content,
+          timestamp:
+            hasMessage || isDeleted
+              ? formatTimestamp(lastMessage.sent_at || lastMessage.created_at)
+              : "",
+          formattedTime: formatTimestamp(lastActivity),
+          read: !group.unread_count || group.unread_count === 0,
+          readStatus:
+            group.unread_count && group.unread_count > 0
+              ? ("unread" as ReadStatus)
+              : ("read" as ReadStatus),
+          unreadCount:
+            group.unread_count && group.unread_count > 0
+              ? group.unread_count
+              : undefined,
+          type: "group" as MessageType,
+          lastActivity,
+          isTyping: false, // Will be updated by WebSocket events
+          hasMessages: hasMessage || isDeleted, // Include deleted messages as having conversation history
+        } as Message;
+      }
     );
 
     // Filter out null results (groups with no conversation history)
@@ -627,28 +454,18 @@ export function MessagesList() {
     });
   };
 
-  const transformFriendsToMessages = async (
-    friends: any[]
-  ): Promise<Message[]> => {
+  const transformFriendsToMessages = (
+    conversations: ConversationPreview[]
+  ): Message[] => {
     // Process all friends and only show those with conversation history
-    const friendMessages = await Promise.all(
-      friends.map(async (friend) => {
+    const friendMessages = conversations.map(
+      ({ entity: friend, lastMessage }) => {
         const userId = friend.id;
         const friendStatus = presence.getStatus(userId);
-        let lastMessage = friend.last_message;
-
-        // If no last_message from friend data, try to fetch from messages API
-        if (!lastMessage || !Object.keys(lastMessage).length) {
-          lastMessage = await getLastMessageForConversation(
-            friend.id,
-            "friend"
-          );
-
-          // If API returns null/empty, this friend has no conversation history
-          // Return null to filter it out from the list
-          if (!lastMessage) {
-            return null;
-          }
+
+        // No last message means this friend has no conversation history
+        if (!lastMessage) {
+          return null;
         }
 
         // Enhanced check for message existence - check multiple possible content fields
@@ -732,7 +549,7 @@ export function MessagesList() {
           isTyping: isTyping[userId] || false,
           hasMessages: hasMessage || isDeleted, // Include deleted messages as having conversation history
         };
-      })
+      }
     );
 
     // Filter out null results (friends with no conversation history)
@@ -757,11 +574,6 @@ export function MessagesList() {
     });
   };
 
-  // Helper function to ensure consistent data structure from API responses
-  const normalizeMessageResponse = (response: any): BaseMessage | null => {
-    return normalizeSingleMessage(response);
-  };
-
   // Helper function to get display content for message preview
   const getMessageDisplayContent = (
     lastMessage: any
@@ -798,7 +610,7 @@ export function MessagesList() {
       return { content: "No messages yet", isDeleted: false };
     }
 
-    return { content: messageContent, isDeleted: false };
+    return { content: stripMentionTokens(messageContent), isDeleted: false };
   };
 
   return (
@@ -873,7 +685,7 @@ export function MessagesList() {
       </div>
 
       {/* Message list with loading/error states */}
-      {isLoading ? (
+      {isLoading || conversationsLoading ? (
         <div className="flex-1 flex items-center justify-center">
           <div className="flex flex-col items-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
@@ -895,6 +707,21 @@ export function MessagesList() {
         </div>
       ) : (
         <div className="flex-1 overflow-auto">
+          {/* Friends still listed when only the groups failed to load */}
+          {conversationsGroupsError && (
+            <div className="flex items-center justify-between gap-2 bg-red-50 text-red-600 p-3 rounded-md mb-4 text-sm">
+              <span>
+                {conversationsGroupsError.message || "Failed to load groups"}
+              </span>
+              <button
+                onClick={refreshData}
+                className="text-xs font-medium hover:text-red-700 shrink-0"
+              >
+                Try Again
+              </button>
+            </div>
+          )}
+
           {/* Empty state */}
           {filteredMessages.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-center p-6">
@@ -907,6 +734,12 @@ export function MessagesList() {
           ) : (
             <div className="space-y-3">
               {sortedMessages.map((message) => {
+                const draft = draftFor(
+                  message.type === "group" ? "group" : "private",
+                  message.id
+                );
+                const draftPreview = draft ? getDraftPreview(draft) : null;
+
                 // Debug logging for navigation URL construction
                 const friendUrl =
                   message.type === "friend"
@@ -981,6 +814,13 @@ export function MessagesList() {
                                   <FaCircle className="animate-pulse h-1 w-1 mx-0.5 animate-delay-200" />
                                 </span>
                               </p>
+                            ) : draftPreview ? (
+                              <p className="text-xs truncate flex-1 text-gray-600">
+                                <span className="text-red-500 font-medium">
+                                  Draft:
+                                </span>{" "}
+                                {draftPreview}
+                              </p>
                             ) : (
                               <p
                                 className={`text-xs truncate flex-1 ${
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from "react";
+import { FaThumbtack, FaTimes } from "react-icons/fa";
+import { PinnedMessage } from "@/types/messages";
+import { formatMessageTimestamp } from "@/utils/timestampHelper";
+
+const pinText = (pin: PinnedMessage) =>
+  pin.content.trim() || (pin.attachment_url ? "📎 Attachment" : "Message");
+
+interface PinnedMessagesStripProps {
+  pins: PinnedMessage[];
+  onSelect: (messageId: string) => void;
+  // Omitted when the current user may not unpin
+  onUnpin?: (pin: PinnedMessage) => void;
+}
+
+// Strip at the top of a conversation showing one pin at a time. Each click
+// jumps to the shown pin and moves on to the next older one.
+export const PinnedMessagesStrip: React.FC<PinnedMessagesStripProps> = ({
+  pins,
+  onSelect,
+  onUnpin,
+}) => {
+  const [index, setIndex] = useState(0);
+
+  // Pins come and go live; keep the index in range
+  useEffect(() => {
+    if (index >= pins.length) setIndex(0);
+  }, [pins.length, index]);
+
+  if (pins.length === 0) return null;
+
+  const pin = pins[Math.min(index, pins.length - 1)];
+
+  return (
+    <div className="flex items-center bg-white border-b border-gray-200 px-3 sm:px-4 py-2">
+      <button
+        type="button"
+        onClick={() => {
+          onSelect(pin.message_id);
+          setIndex((current) => (current + 1) % pins.length);
+        }}
+        className="flex items-center flex-1 min-w-0 text-left"
+        title="Go to pinned message"
+      >
+        <FaThumbtack className="h-3.5 w-3.5 text-blue-500 mr-3 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-blue-600">
+            Pinned message
+            {pins.length > 1 && (
+              <span className="text-gray-500 font-normal">
+                {" "}
+                ({index + 1} of {pins.length})
+              </span>
+            )}
+          </p>
+          <p className="text-sm text-gray-700 truncate">
+            {pin.sender_name && (
+              <span className="font-medium">{pin.sender_name}: </span>
+            )}
+            {pinText(pin)}
+          </p>
+        </div>
+      </button>
+      {onUnpin && (
+        <button
+          type="button"
+          onClick={() => onUnpin(pin)}
+          className="ml-3 p-1 text-gray-400 hover:text-gray-600 rounded-full"
+          title="Unpin"
+          aria-label="Unpin message"
+        >
+          <FaTimes className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface PinnedMessagesListProps {
+  pins: PinnedMessage[];
+  onSelect?: (messageId: string) => void;
+  onUnpin?: (pin: PinnedMessage) => void;
+}
+
+// Every pin of a conversation, for the info panels
+export const PinnedMessagesList: React.FC<PinnedMessagesListProps> = ({
+  pins,
+  onSelect,
+  onUnpin,
+}) => {
+  if (pins.length === 0) {
+    return (
+      <div className="py-4 text-center text-gray-500">No pinned messages</div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {pins.map((pin) => (
+        <div
+          key={pin.message_id}
+          className={`flex items-start bg-gray-50 p-2 rounded-md ${
+            onSelect ? "hover:bg-gray-100 cursor-pointer" : ""
+          }`}
+          onClick={() => onSelect?.(pin.message_id)}
+        >
+          <FaThumbtack className="h-3 w-3 text-blue-500 mt-1 mr-2 flex-shrink-0" />
+          <div className="flex-grow min-w-0">
+            {pin.sender_name && (
+              <p className="text-xs font-medium text-gray-700 truncate">
+                {pin.sender_name}
+              </p>
+            )}
+            <p className="text-sm text-gray-800 line-clamp-2 break-words">
+              {pinText(pin)}
+            </p>
+            <p className="text-xs text-gray-500">
+              Pinned{" "}
+              {formatMessageTimestamp({
+                created_at: pin.pinned_at,
+                format: "date",
+              })}
+            </p>
+          </div>
+          {onUnpin && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onUnpin(pin);
+              }}
+              className="ml-2 p-1 text-gray-400 hover:text-gray-600"
+              title="Unpin"
+              aria-label="Unpin message"
+            >
+              <FaTimes className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
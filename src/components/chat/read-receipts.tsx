@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { FaCheckDouble } from "react-icons/fa";
+import { useMessageReadsQuery } from "@/hooks/queries/useMessageQueries";
+import { GroupReadReceipt, mergeReadReceipts } from "@/types/messages";
+
+export interface ReceiptMember {
+  id: string;
+  name: string;
+}
+
+interface SeenByIndicatorProps {
+  groupId: string;
+  messageId: string;
+  senderId: string;
+  receipts?: GroupReadReceipt[];
+  members: ReceiptMember[];
+}
+
+const formatReadAt = (readAt: string) => {
+  const date = new Date(readAt);
+  return Number.isNaN(date.getTime()) ? "" : format(date, "MMM d, HH:mm");
+};
+
+// "Seen by N" under a group message, with a popover of who has and hasn't
+// read it. The popover loads the server's full list when opened.
+export const SeenByIndicator: React.FC<SeenByIndicatorProps> = ({
+  groupId,
+  messageId,
+  senderId,
+  receipts,
+  members,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data: fetched, isLoading } = useMessageReadsQuery(
+    groupId,
+    messageId,
+    isOpen
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const readers = useMemo(
+    () =>
+      mergeReadReceipts(receipts, fetched)
+        .filter((receipt) => receipt.user_id !== senderId)
+        .sort((a, b) => a.read_at.localeCompare(b.read_at)),
+    [receipts, fetched, senderId]
+  );
+
+  const { read, unread } = useMemo(() => {
+    const names = new Map(members.map((member) => [member.id, member.name]));
+    const readIds = new Set(readers.map((receipt) => receipt.user_id));
+    return {
+      read: readers.map((receipt) => ({
+        ...receipt,
+        name: names.get(receipt.user_id) || "Former member",
+      })),
+      unread: members.filter(
+        (member) => member.id !== senderId && !readIds.has(member.id)
+      ),
+    };
+  }, [readers, members, senderId]);
+
+  if (readers.length === 0) return null;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen((prev) => !prev);
+        }}
+        className="flex items-center text-xs text-gray-500 hover:underline"
+        aria-expanded={isOpen}
+      >
+        <FaCheckDouble className="h-3 w-3 mr-1" />
+        {unread.length === 0 ? "Seen by everyone" : `Seen by ${readers.length}`}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 bottom-6 w-60 max-h-72 overflow-y-auto bg-white text-gray-800 rounded-lg shadow-lg border border-gray-200 z-50 text-left"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-3 py-2 border-b border-gray-100">
+            <p className="text-xs font-medium text-gray-500 uppercase">
+              Read by {read.length}
+            </p>
+            <ul className="mt-1 space-y-1">
+              {read.map((receipt) => (
+                <li
+                  key={receipt.user_id}
+                  className="flex justify-between text-sm"
+                >
+                  <span className="truncate">{receipt.name}</span>
+                  <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                    {formatReadAt(receipt.read_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          {unread.length > 0 && (
+            <div className="px-3 py-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">
+                Not read yet {unread.length}
+              </p>
+              <ul className="mt-1 space-y-1">
+                {unread.map((member) => (
+                  <li
+                    key={member.id}
+                    className="text-sm text-gray-500 truncate"
+                  >
+                    {member.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {isLoading && (
+            <p className="px-3 pb-2 text-xs text-gray-400">Updating...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from "react";
+import { FaReply, FaTimes } from "react-icons/fa";
+import { ReplyPreview } from "@/types/messages";
+
+const MAX_QUOTE_LENGTH = 120;
+
+const quoteText = (preview?: ReplyPreview | null) => {
+  if (!preview) return "Original message";
+  if (preview.isDeleted) return "This message was deleted";
+
+  const content = preview.content.trim() || "Attachment";
+  return content.length > MAX_QUOTE_LENGTH
+    ? `${content.slice(0, MAX_QUOTE_LENGTH)}…`
+    : content;
+};
+
+interface ReplyQuoteProps {
+  // Null when the original is not loaded yet
+  preview?: ReplyPreview | null;
+  isCurrentUser?: boolean;
+  onClick?: () => void;
+}
+
+// Quoted original shown at the top of a reply bubble
+export const ReplyQuote: React.FC<ReplyQuoteProps> = ({
+  preview,
+  isCurrentUser,
+  onClick,
+}) => (
+  <button
+    type="button"
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick?.();
+    }}
+    className={`block w-full text-left mb-2 px-2 py-1 rounded border-l-4 text-xs transition-colors ${
+      isCurrentUser
+        ? "bg-blue-400 border-blue-200 text-blue-50 hover:bg-blue-300"
+        : "bg-gray-100 border-blue-400 text-gray-600 hover:bg-gray-200"
+    }`}
+    title="Go to original message"
+  >
+    {preview && (
+      <span className="block font-semibold truncate">{preview.senderName}</span>
+    )}
+    <span className="block truncate italic">{quoteText(preview)}</span>
+  </button>
+);
+
+interface ReplyComposerBarProps {
+  preview: ReplyPreview;
+  onCancel: () => void;
+}
+
+// "Replying to" bar shown above the message composer
+export const ReplyComposerBar: React.FC<ReplyComposerBarProps> = ({
+  preview,
+  onCancel,
+}) => (
+  <div className="flex items-center mb-2 bg-gray-50 p-3 border-l-4 border-blue-400 rounded">
+    <FaReply className="h-3 w-3 text-blue-500 mr-3 flex-shrink-0" />
+    <div className="flex-1 min-w-0">
+      <p className="text-sm text-blue-700 font-medium truncate">
+        Replying to {preview.senderName}
+      </p>
+      <p className="text-xs text-gray-600 truncate">{quoteText(preview)}</p>
+    </div>
+    <button
+      type="button"
+      onClick={onCancel}
+      className="ml-3 text-gray-600 hover:text-gray-800"
+      title="Cancel reply"
+    >
+      <FaTimes className="h-4 w-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useState } from "react";
+import { addHours, format, startOfHour } from "date-fns";
+import {
+  FaChevronDown,
+  FaChevronUp,
+  FaClock,
+  FaExclamationCircle,
+  FaTimes,
+} from "react-icons/fa";
+import {
+  MAX_SCHEDULED_CONTENT_LENGTH,
+  validateSendAt,
+  type ScheduledMessage,
+} from "@/types/scheduledMessages";
+import { stripMentionTokens } from "@/utils/mentions";
+
+// <input type="datetime-local"> works in local time without seconds
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const formatSendAt = (sendAt: string) =>
+  format(new Date(sendAt), "EEE, MMM d 'at' HH:mm");
+
+interface ScheduleMessageDialogProps {
+  title: string;
+  // Shown as an editable field when editing an existing message
+  content?: string;
+  sendAt?: string;
+  submitLabel: string;
+  onSubmit: (sendAt: string, content?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Date and time picker for scheduling the composer text, or for editing a
+// scheduled message
+export const ScheduleMessageDialog: React.FC<ScheduleMessageDialogProps> = ({
+  title,
+  content,
+  sendAt,
+  submitLabel,
+  onSubmit,
+  onClose,
+}) => {
+  // Failed messages are past their time, so suggest the next hour instead
+  const [when, setWhen] = useState(() =>
+    toInputValue(
+      sendAt && !validateSendAt(sendAt)
+        ? new Date(sendAt)
+        : addHours(startOfHour(new Date()), 1)
+    )
+  );
+  const [text, setText] = useState(content ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const sendAtIso = when ? new Date(when).toISOString() : "";
+    const problem =
+      validateSendAt(sendAtIso) ||
+      (content !== undefined && !text.trim() ? "Message can't be empty" : null);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(
+        sendAtIso,
+        content !== undefined ? text.trim() : undefined
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to schedule");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg p-6 max-w-sm w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-medium text-lg">{title}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <FaTimes className="h-5 w-5" />
+          </button>
+        </div>
+
+        {content !== undefined && (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_SCHEDULED_CONTENT_LENGTH}
+            rows={3}
+            className="w-full mb-3 resize-none border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+
+        <label className="block text-sm text-gray-600 mb-1">Send at</label>
+        <input
+          type="datetime-local"
+          value={when}
+          min={toInputValue(new Date())}
+          onChange={(e) => {
+            setWhen(e.target.value);
+            setError(null);
+          }}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+        <div className="flex justify-end mt-4">
+          <button
+            type="submit"
+            className="flex items-center px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
+            ) : (
+              <FaClock className="h-3.5 w-3.5 mr-2" />
+            )}
+            {submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+interface ScheduledMessagesBarProps {
+  scheduled: ScheduledMessage[];
+  onEdit: (message: ScheduledMessage) => void;
+  onCancel: (message: ScheduledMessage) => void;
+}
+
+// Collapsible list of the conversation's scheduled messages, shown above
+// the composer
+export const ScheduledMessagesBar: React.FC<ScheduledMessagesBarProps> = ({
+  scheduled,
+  onEdit,
+  onCancel,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (scheduled.length === 0) return null;
+
+  const failedCount = scheduled.filter(
+    (message) => message.status === "failed"
+  ).length;
+
+  return (
+    <div className="mb-2 border border-gray-200 rounded-lg bg-gray-50">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center px-3 py-2 text-sm text-gray-700"
+      >
+        <FaClock className="h-3.5 w-3.5 text-blue-500 mr-2" />
+        <span className="flex-1 text-left">
+          {scheduled.length} scheduled message
+          {scheduled.length === 1 ? "" : "s"}
+          {failedCount > 0 && (
+            <span className="text-red-600"> ({failedCount} failed)</span>
+          )}
+        </span>
+        {isExpanded ? (
+          <FaChevronUp className="h-3 w-3 text-gray-400" />
+        ) : (
+          <FaChevronDown className="h-3 w-3 text-gray-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className="max-h-48 overflow-y-auto border-t border-gray-200">
+          {scheduled.map((message) => (
+            <li
+              key={message.id}
+              className="flex items-start px-3 py-2 border-b border-gray-100 last:border-b-0"
+            >
+              <div className="flex-1 min-w-0">
+                <p
+                  className={`text-xs ${
+                    message.status === "failed"
+                      ? "text-red-600"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {message.status === "failed" ? (
+                    <>
+                      <FaExclamationCircle className="inline h-3 w-3 mr-1" />
+                      Not sent: {message.last_error || "unknown error"}
+                    </>
+                  ) : message.status === "sending" ? (
+                    "Sending..."
+                  ) : (
+                    formatSendAt(message.send_at)
+                  )}
+                </p>
+                <p className="text-sm text-gray-800 truncate">
+                  {stripMentionTokens(message.content)}
+                </p>
+              </div>
+              {message.status !== "sending" && (
+                <div className="flex items-center ml-2 space-x-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => onEdit(message)}
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    {message.status === "failed" ? "Reschedule" : "Edit"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onCancel(message)}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
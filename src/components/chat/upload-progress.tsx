@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { FaTimes } from "react-icons/fa";
+
+interface UploadProgressProps {
+  progress: number; // 0-100
+  onCancel?: () => void;
+  onDark?: boolean; // inside the current user's blue bubble
+}
+
+// Progress bar shown on a message while its attachment uploads
+export const UploadProgress: React.FC<UploadProgressProps> = ({
+  progress,
+  onCancel,
+  onDark = false,
+}) => (
+  <div className="flex items-center space-x-2 mt-1 min-w-[160px]">
+    <div
+      className={`flex-1 rounded-full h-1 ${
+        onDark ? "bg-blue-300" : "bg-gray-200"
+      }`}
+      role="progressbar"
+      aria-label="Upload progress"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={progress}
+    >
+      <div
+        className={`h-1 rounded-full transition-all duration-300 ${
+          onDark ? "bg-white" : "bg-blue-500"
+        }`}
+        style={{ width: `${progress}%` }}
+      />
+    </div>
+    <span className="text-xs opacity-75">{progress}%</span>
+    {onCancel && (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onCancel();
+        }}
+        className="opacity-75 hover:opacity-100"
+        title="Cancel upload"
+        aria-label="Cancel upload"
+      >
+        <FaTimes className="h-3 w-3" />
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { FaMicrophone, FaPause, FaPlay } from "react-icons/fa";
+import { useVoiceRecorder } from "@/hooks/messages/useVoiceRecorder";
+import {
+  formatDuration,
+  loadWaveform,
+  MAX_VOICE_MESSAGE_MS,
+} from "@/utils/voiceMessages";
+
+const WAVEFORM_BARS = 40;
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+interface VoiceRecordButtonProps {
+  onRecorded: (file: File) => void;
+  disabled?: boolean;
+}
+
+// Hold to record, release to send. Sliding off the button cancels.
+export const VoiceRecordButton: React.FC<VoiceRecordButtonProps> = ({
+  onRecorded,
+  disabled = false,
+}) => {
+  const { isRecording, elapsedMs, start, stop, cancel } =
+    useVoiceRecorder(onRecorded);
+
+  return (
+    <div className="relative flex items-center">
+      {isRecording && (
+        <div className="absolute right-0 bottom-10 flex items-center whitespace-nowrap bg-white border border-red-200 shadow-md rounded-lg px-3 py-1.5 text-xs text-gray-700 z-20">
+          <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse mr-2" />
+          <span className="font-medium text-red-600 mr-2">
+            {formatDuration(elapsedMs)} / {formatDuration(MAX_VOICE_MESSAGE_MS)}
+          </span>
+          Release to send, slide away to cancel
+        </div>
+      )}
+      <button
+        type="button"
+        disabled={disabled}
+        onPointerDown={(e) => {
+          e.preventDefault();
+          start();
+        }}
+        onPointerUp={stop}
+        onPointerLeave={cancel}
+        onPointerCancel={cancel}
+        onKeyDown={(e) => {
+          if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+            e.preventDefault();
+            start();
+          }
+        }}
+        onKeyUp={(e) => {
+          if (e.key === " " || e.key === "Enter") stop();
+        }}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`p-1.5 transition-colors touch-none select-none disabled:text-gray-300 disabled:cursor-not-allowed ${
+          isRecording ? "text-red-500" : "text-gray-400 hover:text-blue-400"
+        }`}
+        title="Hold to record a voice message"
+        aria-label="Hold to record a voice message"
+        aria-pressed={isRecording}
+      >
+        <FaMicrophone className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+interface VoiceMessagePlayerProps {
+  url: string;
+  onDark?: boolean; // inside the current user's blue bubble
+}
+
+// Inline player for audio attachments
+export const VoiceMessagePlayer: React.FC<VoiceMessagePlayerProps> = ({
+  url,
+  onDark = false,
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const [waveform, setWaveform] = useState<number[] | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    loadWaveform(url, WAVEFORM_BARS)
+      .then((peaks) => {
+        if (!cancelled) setWaveform(peaks);
+      })
+      .catch(() => {
+        // Plays without a waveform; flat bars are drawn instead
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => setHasError(true));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(
+      1,
+      Math.max(0, (e.clientX - rect.left) / rect.width)
+    );
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const cycleRate = () => {
+    setRate(
+      (prev) =>
+        PLAYBACK_RATES[
+          (PLAYBACK_RATES.indexOf(prev) + 1) % PLAYBACK_RATES.length
+        ]
+    );
+  };
+
+  const progress = duration ? currentTime / duration : 0;
+  const bars = waveform || Array(WAVEFORM_BARS).fill(0.15);
+  const playedColor = onDark ? "bg-white" : "bg-blue-500";
+  const unplayedColor = onDark ? "bg-blue-300" : "bg-gray-300";
+
+  if (hasError) {
+    return (
+      <p className="text-xs opacity-75">This voice message can't be played</p>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 min-w-[200px] max-w-xs">
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onLoadedMetadata={(e) => {
+          // Recordings without a duration header report Infinity
+          const value = e.currentTarget.duration;
+          setDuration(Number.isFinite(value) ? value : 0);
+        }}
+        onDurationChange={(e) => {
+          const value = e.currentTarget.duration;
+          if (Number.isFinite(value)) setDuration(value);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onError={() => setHasError(true)}
+      />
+
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          togglePlay();
+        }}
+        className={`flex-shrink-0 h-8 w-8 rounded-full flex items-center justify-center ${
+          onDark ? "bg-white text-blue-500" : "bg-blue-500 text-white"
+        }`}
+        aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+      >
+        {isPlaying ? (
+          <FaPause className="h-3 w-3" />
+        ) : (
+          <FaPlay className="h-3 w-3 ml-0.5" />
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          className="flex items-center h-8 space-x-px cursor-pointer"
+          onClick={(e) => {
+            e.stopPropagation();
+            seek(e);
+          }}
+          role="slider"
+          aria-label="Playback position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+        >
+          {bars.map((peak, index) => (
+            <div
+              key={index}
+              className={`flex-1 rounded-full ${
+                index / bars.length < progress ? playedColor : unplayedColor
+              }`}
+              style={{ height: `${Math.max(12, peak * 100)}%` }}
+            />
+          ))}
+        </div>
+        <span className="text-xs opacity-75">
+          {formatDuration(
+            (isPlaying || currentTime ? currentTime : duration) * 1000
+          )}
+        </span>
+      </div>
+
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          cycleRate();
+        }}
+        className={`flex-shrink-0 text-xs font-semibold rounded-full px-1.5 py-0.5 ${
+          onDark ? "bg-blue-400 text-white" : "bg-gray-200 text-gray-700"
+        }`}
+        title="Playback speed"
+      >
+        {rate}x
+      </button>
+    </div>
+  );
+};
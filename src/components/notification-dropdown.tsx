@@ -1,13 +1,15 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
-import { FaBell } from "react-icons/fa";
+import { FaAt, FaBell } from "react-icons/fa";
 import { formatDistanceToNow } from "date-fns";
 import {
   useNotification,
+  MENTION_NOTIFICATION_TYPE,
   type Notification,
 } from "@/hooks/notifications/useNotification";
 import { toast } from "react-hot-toast";
+import { ServiceUnavailableNotice } from "@/components/service-unavailable-notice";
 
 interface NotificationDropdownProps {
   className?: string; // Allow custom positioning
@@ -28,6 +30,7 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
   const {
     loading: isLoading,
     error,
+    serviceUnavailable,
     notifications,
     unreadCount,
     pagination,
@@ -126,6 +129,20 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
       data: notification.data,
     });
 
+    if (notification.type === MENTION_NOTIFICATION_TYPE) {
+      const senderId = notification.data?.sender_id;
+      const sender =
+        notification.data?.sender_username ||
+        (senderId ? userCache[senderId] : undefined);
+      const groupName = notification.data?.group_name;
+
+      if (sender) {
+        return groupName
+          ? `${sender} mentioned you in ${groupName}`
+          : `${sender} mentioned you`;
+      }
+    }
+
     // Prioritize body from backend if available (contains username)
     if (notification.body) {
       return notification.body;
@@ -208,6 +225,13 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
           notification.data?.groupId
         ) {
           window.location.href = `/chat/groups/${notification.data.groupId}`;
+        } else if (
+          notification.type === MENTION_NOTIFICATION_TYPE &&
+          (notification.data?.groupId || notification.data?.group_id)
+        ) {
+          const groupId =
+            notification.data.groupId || notification.data.group_id;
+          window.location.href = `/chat/groups/${groupId}`;
         } else if (
           (notification.type === "message" ||
             notification.type === "new_message") &&
@@ -294,7 +318,9 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
   useEffect(() => {
     const notificationsNeedingUsernames = notifications.filter(
       (notification) =>
-        !notification.body &&
+        // Mention text is built from the sender name even when a body exists
+        (!notification.body ||
+          notification.type === MENTION_NOTIFICATION_TYPE) &&
         notification.data?.sender_id &&
         !notification.data?.sender_username && // Don't fetch if sender_username is already available
         !userCache[notification.data.sender_id] &&
@@ -362,6 +388,12 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
               <div className="flex justify-center items-center py-6">
                 <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-500"></div>
               </div>
+            ) : serviceUnavailable && notifications.length === 0 ? (
+              <ServiceUnavailableNotice
+                service="Notification"
+                className="m-3"
+                onRetry={() => getNotifications(1, 10).catch(() => {})}
+              />
             ) : notifications.length === 0 ? (
               <div className="px-4 py-6 text-center text-gray-500">
                 No notifications
@@ -376,6 +408,11 @@ export function NotificationDropdown({ className }: NotificationDropdownProps) {
                   onClick={() => handleNotificationClick(notification)}
                 >
                   <div className="flex justify-between">
+                    {notification.type === MENTION_NOTIFICATION_TYPE && (
+                      <div className="h-6 w-6 mr-3 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
+                        <FaAt className="h-3 w-3" />
+                      </div>
+                    )}
                     <div className="flex-1">
                       <p className="text-sm line-clamp-2 font-medium">
                         {getNotificationDisplayContent(notification)}
@@ -0,0 +1,40 @@
+"use client";
+
+import { FaExclamationTriangle } from "react-icons/fa";
+
+interface ServiceUnavailableNoticeProps {
+  service: string; // Human readable name, e.g. "Friends"
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Shown when the proxy answered with fallback data instead of real results,
+// so an empty list isn't mistaken for "nothing here"
+export function ServiceUnavailableNotice({
+  service,
+  onRetry,
+  className = "",
+}: ServiceUnavailableNoticeProps) {
+  return (
+    <div
+      role="status"
+      className={`flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 ${className}`}
+    >
+      <FaExclamationTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium">{service} service unavailable</p>
+        <p className="text-xs text-amber-700 mt-0.5">
+          Some data may be missing until the service is back.
+        </p>
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="px-2 py-1 text-xs bg-amber-100 hover:bg-amber-200 rounded-md transition-colors shrink-0"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-import { getSession } from "next-auth/react";
+import { getSession, signOut, useSession } from "next-auth/react";
 import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Cookies from "js-cookie";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import { isApiError } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
 
 // Define user type
 interface User {
@@ -60,6 +63,9 @@ const COOKIE_OPTIONS = {
   sameSite: "lax" as const,
 };
 
+// Several components mount useAuth; only the first should trigger sign out
+let signOutInProgress = false;
+
 /**
  * Custom hook for authentication
  */
@@ -74,10 +80,10 @@ export const useAuth = () => {
 
   // Other hooks
   const router = useRouter();
+  const { data: session } = useSession();
 
-  // Base URLs
-  const proxyUrl = "/api/proxy";
-  const API_BASE_URL = "/api/proxy";
+  // Shared API client (auth, timeout, retries and error parsing)
+  const api = useApiClient();
 
   // Computed values
   const isAuthenticated = !!user;
@@ -132,25 +138,19 @@ export const useAuth = () => {
       ) {
 
         // Direct upload to profile avatar endpoint
-        const avatarEndpoint = `${proxyUrl}/users/profile/avatar`;
-        const avatarResponse = await fetch(avatarEndpoint, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${currentToken}`,
-          },
-          body: JSON.stringify({ profile_picture_url: fileOrBase64 }),
-          credentials: "include",
-        });
-
-        if (!avatarResponse.ok) {
-          const errorText = await avatarResponse.text();
-          throw new Error(`Avatar update failed: ${errorText}`);
+        try {
+          // Return the updated profile data
+          return await api.put(
+            API_ENDPOINTS.users.avatar,
+            { profile_picture_url: fileOrBase64 },
+            { headers: { Authorization: `Bearer ${currentToken}` } }
+          );
+        } catch (error: any) {
+          if (isApiError(error) && error.code === "NETWORK_ERROR") {
+            throw error;
+          }
+          throw new Error(`Avatar update failed: ${error.message}`);
         }
-
-        // Return the updated profile data
-        const data = await avatarResponse.json();
-        return data;
       }
       // Handle File object
       else if (fileOrBase64 instanceof File) {
@@ -160,10 +160,7 @@ export const useAuth = () => {
         return { success: true, profile_picture_url: "example_url" };
       }
     } catch (error: any) {
-      if (
-        error.name === "TypeError" &&
-        error.message.includes("Failed to fetch")
-      ) {
+      if (isApiError(error) && error.code === "NETWORK_ERROR") {
         throw new Error(
           "Connection to server failed. Please check if the server is running."
         );
@@ -183,26 +180,15 @@ export const useAuth = () => {
         throw new Error("No authentication token available");
       }
 
-      const response = await fetch(`${API_BASE_URL}/users/profile`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${currentToken}`,
-        },
-        body: JSON.stringify(data),
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
+      try {
+        return await api.put(API_ENDPOINTS.users.profile, data, {
+          headers: { Authorization: `Bearer ${currentToken}` },
+        });
+      } catch (error: any) {
         throw new Error(
-          `Profile update failed: ${response.status} ${errorText}`
+          `Profile update failed: ${error.status} ${error.message}`
         );
       }
-
-      const result = await response.json();
-
-      return result;
     } catch (error: any) {
       throw error;
     }
@@ -220,34 +206,50 @@ export const useAuth = () => {
       }
 
 
-      const response = await fetch(`${API_BASE_URL}/users/password`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${currentToken}`,
-        },
-        body: JSON.stringify(data),
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
+      try {
+        return await api.put(API_ENDPOINTS.users.password, data, {
+          headers: { Authorization: `Bearer ${currentToken}` },
+        });
+      } catch (error: any) {
         throw new Error(
-          `Password change failed: ${response.status} ${errorText}`
+          `Password change failed: ${error.status} ${error.message}`
         );
       }
-
-      const result = await response.json();
-
-      return result;
     } catch (error: any) {
       throw error;
     }
   }
 
+  // Sign out and drop any locally stored token
+  const logout = useCallback(async () => {
+    if (signOutInProgress) return;
+    signOutInProgress = true;
+
+    removeTokenCookie();
+    setUser(null);
+    setToken(null);
+
+    try {
+      await signOut({ callbackUrl: "/" });
+    } finally {
+      signOutInProgress = false;
+    }
+  }, []);
+
+  // The session can no longer be refreshed, so end it cleanly
+  useEffect(() => {
+    if (session?.error === "RefreshAccessTokenError") {
+      setError("Your session has expired. Please sign in again.");
+      logout();
+    }
+  }, [session?.error, logout]);
+
   // Handle auth error
   function handleAuthError(error: any) {
-    // Implementation here
+    const status = error?.status ?? error?.response?.status;
+    if (status === 401 || session?.error === "RefreshAccessTokenError") {
+      logout();
+    }
   }
 
   // Check server connectivity
@@ -268,25 +270,15 @@ export const useAuth = () => {
       }
 
 
-      const response = await fetch(`${API_BASE_URL}/users/me`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${currentToken}`,
-        },
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
+      try {
+        return await api.get(API_ENDPOINTS.users.me, {
+          headers: { Authorization: `Bearer ${currentToken}` },
+        });
+      } catch (error: any) {
         throw new Error(
-          `Get user info failed: ${response.status} ${errorText}`
+          `Get user info failed: ${error.status} ${error.message}`
         );
       }
-
-      const result = await response.json();
-
-      return result;
     } catch (error: any) {
       throw error;
     }
@@ -305,6 +297,7 @@ export const useAuth = () => {
     updateAvatar,
     changePassword,
     handleAuthError,
+    logout,
     isConnecting,
     connectionError,
   };
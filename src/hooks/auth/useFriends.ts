@@ -1,6 +1,8 @@
 import React, { useState, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import axios from "axios";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import type { ApiRequestOptions } from "@/utils/apiClient";
 
 // Updated interfaces to match the provided example
 export interface User {
@@ -63,6 +65,8 @@ export const useFriendship = () => {
   const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while the proxy is answering with fallback data for friend endpoints
+  const [serviceUnavailable, setServiceUnavailable] = useState(false);
   const [friends, setFriends] = useState<Friend[]>([]);
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -98,96 +102,25 @@ export const useFriendship = () => {
     [friendAvatarCache]
   );
 
-  // Base URL for API proxy
-  const proxyUrl = "/api/proxy";
+  // Shared API client; flags the outage when the proxy serves fallback data
+  const api = useApiClient({
+    acceptFallback: true,
+    onServiceStatusChange: setServiceUnavailable,
+  });
 
   // Helper function for API calls
-  const apiCall = async (endpoint: string, options: RequestInit = {}) => {
+  const apiCall = async (endpoint: string, options: ApiRequestOptions = {}) => {
     if (!session?.access_token) {
       throw new Error("No authentication token available");
     }
 
-    const defaultOptions: RequestInit = {
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      credentials: "include",
-      signal: AbortSignal.timeout(30000), // 30 second timeout
-    };
-
-    // Add authorization header if session has access_token
-    if (session?.access_token) {
-      defaultOptions.headers = {
-        ...defaultOptions.headers,
-        Authorization: `Bearer ${session.access_token}`,
-      };
-    }
-
-    // Merge default options with provided options
-    const mergedOptions = {
-      ...defaultOptions,
-      ...options,
-      headers: {
-        ...defaultOptions.headers,
-        ...options.headers,
-      },
-    };
-
-    // Fix endpoint path properly
-    let formattedEndpoint = endpoint;
-    if (!endpoint.startsWith("/") && !endpoint.startsWith("http")) {
-      formattedEndpoint = `/${endpoint}`;
-    }
-
-    const url = `${proxyUrl}${formattedEndpoint}`;
-
     try {
-      const response = await fetch(url, mergedOptions);
-
-      // Handle different response formats
-      if (!response.ok) {
-        // For common endpoints that should never fail the UI, return fallback values
-        if (endpoint.includes("friends") && !endpoint.includes("add")) {
-          return endpoint.includes("requests") ? [] : [];
-        }
-
-        const text = await response.text();
-        try {
-          const errorData = JSON.parse(text);
-          throw new Error(
-            errorData.message ||
-              errorData.error ||
-              `API error: ${response.status}`
-          );
-        } catch (e) {
-          throw new Error(text || `API error: ${response.status}`);
-        }
-      }
-
-      const contentType = response.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
-        const data = await response.json();
-
-        return data.data || data;
-      }
-
-      const text = await response.text();
-      return text;
+      const data = await api.request(endpoint, options);
+      return data?.data || data;
     } catch (err) {
-      // Handle specific error types
-      if (err instanceof Error) {
-        if (err.name === "AbortError" || err.name === "TimeoutError") {
-          throw new Error(`Request timeout: ${endpoint}`);
-        }
-        if (err.message.includes("Failed to fetch")) {
-          throw new Error(`Network error: ${endpoint}`);
-        }
-      }
-
       // For critical endpoints, return fallback values to avoid UI failures
       if (endpoint.includes("friends") && !endpoint.includes("add")) {
-        return endpoint.includes("requests") ? [] : [];
+        return [];
       }
       throw err;
     }
@@ -1203,6 +1136,7 @@ export const useFriendship = () => {
   return {
     loading,
     error,
+    serviceUnavailable,
     friends,
     friendRequests,
     searchResults,
@@ -1,5 +1,13 @@
 import { useState, useCallback } from "react";
 import { useSession } from "next-auth/react";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import type { ApiRequestOptions } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import {
+  applyReaction,
+  GroupReadReceipt,
+  MessageReaction,
+} from "@/types/messages";
 
 // For measuring performance
 function measurePerformance<T extends any[], R>(
@@ -82,13 +90,19 @@ export interface GroupMessage {
   updated_at?: string;
   sent_at?: string;
   delivered_at?: string;
-  read_at?: string;
+  read_at?: string; // when the current user read it
+  read_by?: GroupReadReceipt[]; // every member who has read it
   attachment_url?: string;
+  attachment_placeholder?: string; // data URL of a low-res image preview
   sender?: {
     id: string;
     name: string;
     avatar?: string;
   };
+  reactions?: MessageReaction[];
+  reply_to?: string;
+  forwarded?: boolean;
+  mentions?: string[];
 }
 
 export interface Group {
@@ -181,6 +195,8 @@ export const useGroup = () => {
   const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while the proxy is answering with fallback data for group endpoints
+  const [serviceUnavailable, setServiceUnavailable] = useState(false);
   const [groups, setGroups] = useState<Group[]>([]);
   const [currentGroup, setCurrentGroup] = useState<Group | null>(null);
   const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
@@ -204,117 +220,15 @@ export const useGroup = () => {
     has_more_pages: false,
   });
 
-  // Base URL for API proxy
-  const proxyUrl = "/api/proxy";
-
-  // Helper function for API calls with enhanced error handling and logging
-  const apiCall = async (endpoint: string, options: RequestInit = {}) => {
-    const defaultOptions: RequestInit = {
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      credentials: "include",
-    };
-
-    // Add authorization header if session has access_token
-    if (session?.access_token) {
-      defaultOptions.headers = {
-        ...defaultOptions.headers,
-        Authorization: `Bearer ${session.access_token}`,
-      };
-    }
-
-    // Merge default options with provided options
-    const mergedOptions = {
-      ...defaultOptions,
-      ...options,
-      headers: {
-        ...defaultOptions.headers,
-        ...options.headers,
-      },
-    };
-
-    // Delete Content-Type header for FormData requests
-    if (options.body instanceof FormData) {
-      const headers = mergedOptions.headers as Record<string, string>;
-      delete headers["Content-Type"];
-    }
-
-    // Fix endpoint path properly
-    let formattedEndpoint = endpoint;
-    if (!endpoint.startsWith("/") && !endpoint.startsWith("http")) {
-      formattedEndpoint = `/${endpoint}`;
-    }
-
-    const url = `${proxyUrl}${formattedEndpoint}`;
-
-    const startTime = performance.now();
-
-    try {
-      const response = await fetch(`${proxyUrl}/${endpoint}`, mergedOptions);
-      const endTime = performance.now();
-
-      // Handle different response formats
-      if (!response.ok) {
-        // For user-facing endpoints that should be resilient, return fallbacks
-        if (
-          endpoint.includes("groups") &&
-          options.method !== "POST" &&
-          options.method !== "PUT" &&
-          options.method !== "DELETE"
-        ) {
-          if (endpoint.includes("members")) {
-            return { members: [] };
-          } else if (endpoint.includes("messages")) {
-            return { messages: [] };
-          } else if (!endpoint.includes("/")) {
-            return { groups: [] };
-          }
-        }
-
-        const text = await response.text();
-        try {
-          const errorData = JSON.parse(text);
-          throw new Error(
-            errorData.message ||
-              errorData.error ||
-              `API error: ${response.status}`
-          );
-        } catch (e) {
-          throw new Error(text || `API error: ${response.status}`);
-        }
-      }
+  // Shared API client; flags the outage when the proxy serves fallback data
+  const api = useApiClient({
+    acceptFallback: true,
+    onServiceStatusChange: setServiceUnavailable,
+  });
 
-      const contentType = response.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
-        const data = await response.json();
-        return data;
-      }
-
-      const text = await response.text();
-      return text;
-    } catch (err) {
-      const endTime = performance.now();
-
-      // For critical endpoints, provide fallback values to avoid UI failures
-      if (
-        endpoint.includes("groups") &&
-        options.method !== "POST" &&
-        options.method !== "PUT" &&
-        options.method !== "DELETE"
-      ) {
-        if (endpoint.includes("members")) {
-          return { members: [] };
-        } else if (endpoint.includes("messages")) {
-          return { messages: [] };
-        } else if (!endpoint.includes("/")) {
-          return { groups: [] };
-        }
-      }
-      throw err;
-    }
-  };
+  // Helper function for API calls. Errors are thrown so queries can show them.
+  const apiCall = (endpoint: string, options: ApiRequestOptions = {}) =>
+    api.request(endpoint, options);
 
   /**
    * Get list of groups with enhanced logging and error handling
@@ -367,13 +281,7 @@ export const useGroup = () => {
 
         setError(`Failed to get groups: ${err.message}`);
         setLoading(false);
-
-        // Return empty list instead of throwing to improve UI resilience
-        setGroups([]);
-        return {
-          message: `Error: ${err.message}`,
-          data: [],
-        };
+        throw err;
       }
     },
     [session?.access_token]
@@ -591,17 +499,7 @@ export const useGroup = () => {
 
         setError(`Failed to get group members: ${err.message}`);
         setLoading(false);
-
-        // Return empty list instead of throwing to improve UI resilience
-        return {
-          group_id: groupId,
-          group_name: "Unknown Group",
-          owner_id: "",
-          is_active: false,
-          member_ids: [],
-          members: [],
-          total: 0,
-        };
+        throw err;
       }
     },
     [session?.access_token]
@@ -811,14 +709,7 @@ export const useGroup = () => {
 
         setError(`Failed to get group messages: ${err.message}`);
         setLoading(false);
-
-        // Return empty messages instead of throwing to improve UI resilience
-        return {
-          current_page: page,
-          page_size: limit,
-          total: 0,
-          messages: [],
-        };
+        throw err;
       }
     },
     [session?.access_token]
@@ -1217,6 +1108,91 @@ export const useGroup = () => {
     [session?.access_token]
   );
 
+  /**
+   * Add or remove the current user's reaction on a group message. Group
+   * messages share the /messages/{id}/reactions endpoints with private ones.
+   */
+  const updateGroupMessageReaction = useCallback(
+    async (
+      groupId: string,
+      messageId: string,
+      emoji: string,
+      action: "add" | "remove"
+    ): Promise<ApiResponse> => {
+      setError(null);
+
+      try {
+        if (!groupId || !messageId || !emoji) {
+          throw new Error("Group ID, message ID, and emoji are required");
+        }
+
+        const response =
+          action === "add"
+            ? await apiCall(API_ENDPOINTS.messages.reactions(messageId), {
+                method: "POST",
+                body: JSON.stringify({ emoji }),
+              })
+            : await apiCall(API_ENDPOINTS.messages.reaction(messageId, emoji), {
+                method: "DELETE",
+              });
+
+        const userId = session?.user?.id;
+        if (userId) {
+          setGroupMessages((prevMessages) =>
+            prevMessages.map((msg) =>
+              msg.id === messageId || msg.message_id === messageId
+                ? {
+                    ...msg,
+                    reactions: applyReaction(
+                      msg.reactions,
+                      userId,
+                      emoji,
+                      action
+                    ),
+                  }
+                : msg
+            )
+          );
+        }
+
+        return {
+          message: `Reaction ${action === "add" ? "added" : "removed"}`,
+          data: response.data || response,
+        };
+      } catch (err: any) {
+        setError(`Failed to update reaction: ${err.message}`);
+        throw err;
+      }
+    },
+    [session?.access_token, session?.user?.id]
+  );
+
+  const addGroupMessageReaction = useCallback(
+    (groupId: string, messageId: string, emoji: string) =>
+      updateGroupMessageReaction(groupId, messageId, emoji, "add"),
+    [updateGroupMessageReaction]
+  );
+
+  const removeGroupMessageReaction = useCallback(
+    (groupId: string, messageId: string, emoji: string) =>
+      updateGroupMessageReaction(groupId, messageId, emoji, "remove"),
+    [updateGroupMessageReaction]
+  );
+
+  /**
+   * Tell the server the current user has read these group messages
+   * PUT /groups/{id}/read
+   */
+  const markGroupMessagesRead = useCallback(
+    async (groupId: string, messageIds: string[]): Promise<ApiResponse> => {
+      return apiCall(API_ENDPOINTS.groups.read(groupId), {
+        method: "PUT",
+        body: JSON.stringify({ message_ids: messageIds }),
+      });
+    },
+    [session?.access_token]
+  );
+
   /**
    * Get the last message for a group (for MessagesList preview)
    * Consistent with private message approach
@@ -1247,6 +1223,7 @@ export const useGroup = () => {
     // State
     loading,
     error,
+    serviceUnavailable,
     groups,
     currentGroup,
     groupMembers,
@@ -1276,5 +1253,8 @@ export const useGroup = () => {
     unblockGroupUser,
     editGroupMessage,
     deleteGroupMessage,
+    addGroupMessageReaction,
+    removeGroupMessageReaction,
+    markGroupMessagesRead,
   };
 };
@@ -1,4 +1,8 @@
 import { useState } from "react";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import { isApiError } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import { compressImage } from "@/utils/imageCompression";
 
 // Define media type
 type MediaType = "image" | "video" | "audio" | "document" | "all";
@@ -75,6 +79,8 @@ export const useFiles = () => {
   const [groupFiles, setGroupFiles] = useState<FileMetadata[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while the file service is down (fallback data or unreachable)
+  const [serviceUnavailable, setServiceUnavailable] = useState(false);
   const [pagination, setPagination] = useState<Pagination>({
     current_page: 1,
     total_pages: 1,
@@ -86,31 +92,38 @@ export const useFiles = () => {
     null
   );
 
+  // Shared API client; flags the outage when the proxy serves fallback data
+  const api = useApiClient({
+    acceptFallback: true,
+    onServiceStatusChange: setServiceUnavailable,
+  });
+
+  // Surface an unreachable file service with a readable message
+  const toFileServiceError = (error: unknown) => {
+    if (isApiError(error) && error.isServiceUnavailable) {
+      return new Error("File service is temporarily unavailable");
+    }
+    return error;
+  };
+
   // Helper function for API calls
   const callApi = async (endpoint: string, method: string, body?: any) => {
     try {
-      const url = `/api/proxy${endpoint}`;
-      const options: RequestInit = {
-        method,
-        headers: {
-          "Content-Type": "application/json",
-        },
-      };
-
-      if (body) {
-        options.body = JSON.stringify(body);
-      }
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
+      return await api.request(endpoint, { method, body });
+    } catch (error: any) {
+      throw toFileServiceError(error);
+    }
+  };
 
-      const data = await response.json();
-      return data;
+  // Multipart upload helper; uploads may take longer than the default timeout
+  const uploadFormData = async (endpoint: string, formData: FormData) => {
+    try {
+      return await api.post(endpoint, formData, { timeoutMs: 0 });
     } catch (error: any) {
-      throw new Error(error.message || "API request failed");
+      const fileError = toFileServiceError(error);
+      throw fileError === error
+        ? new Error(`Upload failed: ${error.message}`)
+        : fileError;
     }
   };
 
@@ -344,9 +357,15 @@ export const useFiles = () => {
         throw new Error("No file provided");
       }
 
+      // Photos go up downsized and without their metadata
+      const { file: upload, placeholder } = await compressImage(file);
+
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("file", upload);
       formData.append("type", type);
+      if (placeholder) {
+        formData.append("placeholder", placeholder);
+      }
 
       // Add related_to if specified
       if (relatedTo) {
@@ -362,25 +381,9 @@ export const useFiles = () => {
         });
       }
 
-      const endpoint = `/files/upload`;
+      const endpoint = API_ENDPOINTS.files.upload;
 
-      const response = await fetch(`/api/proxy${endpoint}`, {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Upload failed: ${errorText}`);
-      }
-
-      // Safely parse JSON response
-      let data;
-      try {
-        data = await response.json();
-      } catch (e) {
-        throw new Error("Failed to parse server response");
-      }
+      const data = await uploadFormData(endpoint, formData);
 
       // Refresh the files list after a successful upload
       await getAllFiles();
@@ -406,14 +409,18 @@ export const useFiles = () => {
         throw new Error("No file ID provided");
       }
 
-      // For direct download, use the download URL that goes through the proxy
-      const url = getFileUrl(fileId);
-
-      // Use browser fetch for direct download (avoiding any response processing)
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`Failed to download file (status: ${response.status})`);
+      // Take the raw response so the body streams straight into a blob
+      let response: Response;
+      try {
+        response = await api.get<Response>(API_ENDPOINTS.files.byId(fileId), {
+          responseType: "raw",
+          timeoutMs: 0,
+        });
+      } catch (error: any) {
+        const fileError = toFileServiceError(error);
+        throw fileError === error
+          ? new Error(`Failed to download file (status: ${error.status})`)
+          : fileError;
       }
 
       // Get the filename from the Content-Disposition header if available
@@ -553,23 +560,7 @@ export const useFiles = () => {
 
       const endpoint = `/chat/messages/media`;
 
-      const response = await fetch(`/api/proxy${endpoint}`, {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Upload failed: ${errorText}`);
-      }
-
-      // Safely parse JSON response
-      let data;
-      try {
-        data = await response.json();
-      } catch (e) {
-        throw new Error("Failed to parse server response");
-      }
+      const data = await uploadFormData(endpoint, formData);
 
       // Update user media list with the new file
       await getUserMedia(recipientId, "all", 1);
@@ -608,23 +599,7 @@ export const useFiles = () => {
 
       const endpoint = `/groups/${groupId}/messages`;
 
-      const response = await fetch(`/api/proxy${endpoint}`, {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Upload failed: ${errorText}`);
-      }
-
-      // Safely parse JSON response
-      let data;
-      try {
-        data = await response.json();
-      } catch (e) {
-        throw new Error("Failed to parse server response");
-      }
+      const data = await uploadFormData(endpoint, formData);
 
       // Update group media list with the new file
       await getGroupMedia(groupId, "all", 1);
@@ -730,6 +705,7 @@ export const useFiles = () => {
     groupFiles,
     loading: isLoading,
     error,
+    serviceUnavailable,
     pagination,
     filesResponse,
 
@@ -0,0 +1,129 @@
+import React, { useCallback, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { getMediaType, validateFile } from "@/utils/fileUploadHelper";
+import { DraftAttachment, toDraftAttachment } from "@/utils/drafts";
+
+// Files that go out with one send
+export const MAX_PENDING_ATTACHMENTS = 10;
+
+/**
+ * Adds files to the composer's pending attachments from the file picker,
+ * drag-and-drop onto the chat area or an image pasted into the composer.
+ * Every file is checked with validateFile; rejected ones are reported and
+ * left out.
+ */
+export const useAttachmentInput = (
+  attachments: DraftAttachment[],
+  setAttachments: React.Dispatch<React.SetStateAction<DraftAttachment[]>>
+) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child the pointer crosses
+  const dragDepthRef = useRef(0);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      const accepted: DraftAttachment[] = [];
+      files.forEach((file) => {
+        const validation = validateFile(file);
+        if (validation.valid) {
+          accepted.push(toDraftAttachment(file));
+        } else {
+          toast.error(`${file.name}: ${validation.error || "Invalid file"}`);
+        }
+      });
+
+      const room = MAX_PENDING_ATTACHMENTS - attachments.length;
+      if (accepted.length > room) {
+        toast.error(
+          `You can attach up to ${MAX_PENDING_ATTACHMENTS} files at a time`
+        );
+      }
+      if (room > 0 && accepted.length > 0) {
+        // Picked files wait in the draft until the message is sent
+        setAttachments((prev) => [...prev, ...accepted.slice(0, room)]);
+      }
+    },
+    [attachments.length, setAttachments]
+  );
+
+  const removeAttachment = useCallback(
+    (id: string) =>
+      setAttachments((prev) =>
+        prev.filter((attachment) => attachment.id !== id)
+      ),
+    [setAttachments]
+  );
+
+  const setCaption = useCallback(
+    (id: string, caption: string) =>
+      setAttachments((prev) =>
+        prev.map((attachment) =>
+          attachment.id === id ? { ...attachment, caption } : attachment
+        )
+      ),
+    [setAttachments]
+  );
+
+  const handleFileInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      // Clear the input so the same file can be picked again
+      e.target.value = "";
+      addFiles(files);
+    },
+    [addFiles]
+  );
+
+  // Text pastes as usual; only images on the clipboard are attached
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent) => {
+      const images = Array.from(e.clipboardData.files).filter(
+        (file) => getMediaType(file.type) === "image"
+      );
+      if (images.length === 0) return;
+      e.preventDefault();
+      addFiles(images);
+    },
+    [addFiles]
+  );
+
+  const carriesFiles = (e: React.DragEvent) =>
+    Array.from(e.dataTransfer.types).includes("Files");
+
+  // Spread onto the element that accepts drops
+  const dropZoneProps = {
+    onDragEnter: (e: React.DragEvent) => {
+      if (!carriesFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current += 1;
+      setIsDragging(true);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!carriesFiles(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!carriesFiles(e)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!carriesFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragging(false);
+      addFiles(Array.from(e.dataTransfer.files));
+    },
+  };
+
+  return {
+    isDragging,
+    dropZoneProps,
+    addFiles,
+    removeAttachment,
+    setCaption,
+    handleFileInputChange,
+    handlePaste,
+  };
+};
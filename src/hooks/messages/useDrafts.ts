@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import {
+  DraftContent,
+  DraftConversationType,
+  draftKey,
+  EMPTY_DRAFT,
+  getDraft,
+  getDrafts,
+  MessageDraft,
+  saveDraft,
+} from "@/utils/drafts";
+
+// Typing only writes the draft once the user pauses
+const SAVE_DELAY_MS = 400;
+
+// What decides whether the draft needs saving again
+const fingerprint = (draft: DraftContent) =>
+  JSON.stringify([
+    draft.content,
+    draft.attachments.map((attachment) => [attachment.id, attachment.caption]),
+    draft.reply_to?.id,
+    draft.editing_message_id,
+  ]);
+
+/**
+ * Keeps a conversation's composer in its draft. When the conversation
+ * changes, the composer state is saved for the one being left and
+ * `onRestore` gets the draft of the new one (empty when there is none).
+ */
+export const useConversationDraft = (
+  conversationType: DraftConversationType,
+  targetId: string | undefined,
+  composer: DraftContent,
+  onRestore: (draft: DraftContent) => void
+) => {
+  const { data: session } = useSession();
+  const ownerId = session?.user?.id;
+  const [restoredFor, setRestoredFor] = useState<string | null>(null);
+
+  const composerRef = useRef(composer);
+  composerRef.current = composer;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  // What the store holds for the current conversation
+  const savedRef = useRef("");
+
+  useEffect(() => {
+    if (!ownerId || !targetId) return;
+
+    let restored = false;
+    let cancelled = false;
+    getDraft(ownerId, conversationType, targetId).then((stored) => {
+      if (cancelled) return;
+      const draft = stored || EMPTY_DRAFT;
+      restored = true;
+      savedRef.current = fingerprint(draft);
+      onRestoreRef.current(draft);
+      setRestoredFor(targetId);
+    });
+
+    return () => {
+      cancelled = true;
+      setRestoredFor(null);
+      // Save right away what the user left behind, skipping the delay
+      if (restored && fingerprint(composerRef.current) !== savedRef.current) {
+        saveDraft(ownerId, conversationType, targetId, composerRef.current);
+      }
+    };
+  }, [ownerId, conversationType, targetId]);
+
+  const current = fingerprint(composer);
+
+  useEffect(() => {
+    // Until the draft is restored the composer may still hold the
+    // previous conversation's text
+    if (!ownerId || !targetId || restoredFor !== targetId) return;
+    if (current === savedRef.current) return;
+
+    const timer = setTimeout(() => {
+      savedRef.current = current;
+      saveDraft(ownerId, conversationType, targetId, composerRef.current);
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [ownerId, conversationType, targetId, restoredFor, current]);
+};
+
+/**
+ * Looks up the user's draft of a conversation, for conversation lists
+ */
+export const useDrafts = () => {
+  const { data: session } = useSession();
+  const ownerId = session?.user?.id;
+  const [drafts, setDrafts] = useState<Record<string, MessageDraft>>({});
+
+  useEffect(() => {
+    if (!ownerId) {
+      setDrafts({});
+      return;
+    }
+
+    let cancelled = false;
+    getDrafts(ownerId).then((stored) => {
+      if (!cancelled) setDrafts(stored);
+    });
+
+    const handleUpdated = ({
+      key,
+      draft,
+    }: {
+      key: string;
+      draft: MessageDraft | null;
+    }) => {
+      if (draft && draft.owner_id !== ownerId) return;
+      setDrafts((prev) => {
+        const next = { ...prev };
+        if (draft) next[key] = draft;
+        else delete next[key];
+        return next;
+      });
+    };
+
+    eventBus.on("draft-updated", handleUpdated);
+    return () => {
+      cancelled = true;
+      eventBus.off("draft-updated", handleUpdated);
+    };
+  }, [ownerId]);
+
+  return useCallback(
+    (conversationType: DraftConversationType, targetId: string) =>
+      ownerId
+        ? drafts[draftKey(ownerId, conversationType, targetId)]
+        : undefined,
+    [drafts, ownerId]
+  );
+};
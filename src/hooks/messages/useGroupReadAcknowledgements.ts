@@ -0,0 +1,138 @@
+import { RefObject, useCallback, useEffect, useRef } from "react";
+import { useSession } from "next-auth/react";
+import { useGroup } from "@/hooks/auth/useGroup";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+
+// Messages seen within this window go out in one request
+const BATCH_DELAY_MS = 1000;
+const RETRY_DELAY_MS = 10 * 1000;
+// How much of a message must be on screen to count as read
+const VISIBLE_THRESHOLD = 0.6;
+
+const addPending = (
+  pending: Map<string, Set<string>>,
+  groupId: string,
+  messageIds: string[]
+) => {
+  const ids = pending.get(groupId) ?? new Set<string>();
+  messageIds.forEach((id) => ids.add(id));
+  pending.set(groupId, ids);
+};
+
+/**
+ * Acknowledges group messages as they scroll into view. `unreadIds` are
+ * the messages from other members the current user hasn't read; each one
+ * is acknowledged once it has been on screen while the tab is visible.
+ * Acknowledgements are batched and published on the event bus straight
+ * away, the same way the server's echo arrives.
+ */
+export const useGroupReadAcknowledgements = (
+  groupId: string | undefined,
+  containerRef: RefObject<HTMLElement | null>,
+  unreadIds: string[]
+) => {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const { markGroupMessagesRead } = useGroup();
+
+  // Queued acknowledgements by group, so leaving a group while the tab is
+  // hidden keeps its batch until the user is back
+  const pendingRef = useRef(new Map<string, Set<string>>());
+  // Queued or sent; never observed again
+  const handledRef = useRef(new Set<string>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const markReadRef = useRef(markGroupMessagesRead);
+  markReadRef.current = markGroupMessagesRead;
+
+  const flush = useCallback(async () => {
+    timerRef.current = null;
+    if (!userId || pendingRef.current.size === 0) return;
+    // Wait until the user is back; the visibility listener flushes then
+    if (document.visibilityState !== "visible") return;
+
+    const batches = Array.from(pendingRef.current);
+    pendingRef.current.clear();
+
+    await Promise.all(
+      batches.map(async ([batchGroupId, ids]) => {
+        const messageIds = Array.from(ids);
+
+        eventBus.emit("group-messages-read", {
+          group_id: batchGroupId,
+          user_id: userId,
+          message_ids: messageIds,
+          read_at: new Date().toISOString(),
+        });
+
+        try {
+          await markReadRef.current(batchGroupId, messageIds);
+        } catch {
+          // Only the server's copy is missing; send again later
+          addPending(pendingRef.current, batchGroupId, messageIds);
+          if (!timerRef.current) {
+            timerRef.current = setTimeout(flush, RETRY_DELAY_MS);
+          }
+        }
+      })
+    );
+  }, [userId]);
+
+  const scheduleFlush = useCallback(() => {
+    if (!timerRef.current) {
+      timerRef.current = setTimeout(flush, BATCH_DELAY_MS);
+    }
+  }, [flush]);
+
+  // Send what is queued when leaving a group; the next starts afresh
+  useEffect(() => {
+    handledRef.current.clear();
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      flush();
+    };
+  }, [groupId, flush]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !groupId || !userId) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (!entry.isIntersecting) return;
+          const messageId = (entry.target as HTMLElement).dataset.messageId;
+          if (!messageId) return;
+
+          observer.unobserve(entry.target);
+          handledRef.current.add(messageId);
+          addPending(pendingRef.current, groupId, [messageId]);
+          scheduleFlush();
+        });
+      },
+      { root: container, threshold: VISIBLE_THRESHOLD }
+    );
+
+    unreadIds.forEach((messageId) => {
+      if (handledRef.current.has(messageId)) return;
+      const element = container.querySelector(
+        `[data-message-id="${CSS.escape(messageId)}"]`
+      );
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [containerRef, groupId, userId, unreadIds, scheduleFlush]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") scheduleFlush();
+    };
+
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibility);
+  }, [scheduleFlush]);
+};
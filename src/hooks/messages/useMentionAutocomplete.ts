@@ -0,0 +1,143 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  decodeMentions,
+  encodeMentions,
+  findMentionQuery,
+  MentionCandidate,
+} from "@/utils/mentions";
+
+const MAX_SUGGESTIONS = 6;
+
+interface UseMentionAutocompleteOptions {
+  candidates: MentionCandidate[];
+  value: string;
+  onChange: (value: string) => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+}
+
+/**
+ * `@` autocomplete for a composer textarea. Tracks the mentions picked
+ * while typing so `encode` can turn their `@Name` text into tokens.
+ */
+export const useMentionAutocomplete = ({
+  candidates,
+  value,
+  onChange,
+  textareaRef,
+}: UseMentionAutocompleteOptions) => {
+  const [query, setQuery] = useState<{ query: string; start: number } | null>(
+    null
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [picked, setPicked] = useState<MentionCandidate[]>([]);
+
+  const suggestions = useMemo(() => {
+    if (!query) return [];
+    const search = query.query.toLowerCase();
+    return candidates
+      .filter((candidate) => candidate.name.toLowerCase().includes(search))
+      .sort(
+        (a, b) =>
+          Number(!a.name.toLowerCase().startsWith(search)) -
+          Number(!b.name.toLowerCase().startsWith(search))
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [candidates, query]);
+
+  const isOpen = suggestions.length > 0;
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      setQuery(findMentionQuery(e.target.value, e.target.selectionStart));
+      setActiveIndex(0);
+    },
+    [onChange]
+  );
+
+  const select = useCallback(
+    (candidate: MentionCandidate) => {
+      if (!query) return;
+
+      const end = query.start + query.query.length + 1;
+      const inserted = `@${candidate.name} `;
+      onChange(value.slice(0, query.start) + inserted + value.slice(end));
+      setPicked((prev) =>
+        prev.some((p) => p.id === candidate.id) ? prev : [...prev, candidate]
+      );
+      setQuery(null);
+
+      // Put the caret after the inserted mention
+      const caret = query.start + inserted.length;
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(caret, caret);
+      });
+    },
+    [query, value, onChange, textareaRef]
+  );
+
+  // Returns true when the key was used by the suggestion list
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (!isOpen) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          setActiveIndex((index) => (index + 1) % suggestions.length);
+          break;
+        case "ArrowUp":
+          setActiveIndex(
+            (index) => (index - 1 + suggestions.length) % suggestions.length
+          );
+          break;
+        case "Enter":
+        case "Tab":
+          select(suggestions[activeIndex] || suggestions[0]);
+          break;
+        case "Escape":
+          setQuery(null);
+          break;
+        default:
+          return false;
+      }
+
+      e.preventDefault();
+      return true;
+    },
+    [isOpen, suggestions, activeIndex, select]
+  );
+
+  const encode = useCallback(
+    (text: string) => encodeMentions(text, picked),
+    [picked]
+  );
+
+  // Load stored content (e.g. a message being edited) into the composer
+  const load = useCallback(
+    (content: string) => {
+      const decoded = decodeMentions(content);
+      setPicked(decoded.mentions);
+      setQuery(null);
+      onChange(decoded.text);
+    },
+    [onChange]
+  );
+
+  const reset = useCallback(() => {
+    setPicked([]);
+    setQuery(null);
+  }, []);
+
+  return {
+    suggestions,
+    activeIndex,
+    isOpen,
+    handleChange,
+    handleKeyDown,
+    select,
+    encode,
+    load,
+    reset,
+  };
+};
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import {
+  acknowledgeOutboxMessage,
+  discardOutboxMessage,
+  enqueueOutboxMessage,
+  flushOutbox,
+  getConversationOutbox,
+  OutboxEntry,
+  retryOutboxMessage,
+  setOutboxOwner,
+} from "@/utils/outbox";
+import { NewMessageData } from "@/types/websocket";
+
+/**
+ * Queued messages for one conversation, kept current from outbox events.
+ * Sending through `enqueue` stores the message before any network request,
+ * so it is never lost to a reload. Queued files come with an object URL
+ * to preview them and their upload progress by temp_id.
+ */
+export const useOutbox = (
+  conversationType: OutboxEntry["conversation_type"],
+  targetId?: string
+) => {
+  const { data: session } = useSession();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<
+    Record<string, number>
+  >({});
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const previewUrlsRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    if (!targetId) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    getConversationOutbox(conversationType, targetId).then((queued) => {
+      if (!cancelled) setEntries(queued);
+    });
+
+    const isForConversation = (entry: OutboxEntry) =>
+      entry.conversation_type === conversationType &&
+      entry.target_id === targetId;
+
+    const handleUpdated = (entry: OutboxEntry) => {
+      if (!isForConversation(entry)) return;
+      setEntries((prev) =>
+        prev.some((e) => e.temp_id === entry.temp_id)
+          ? prev.map((e) => (e.temp_id === entry.temp_id ? entry : e))
+          : [...prev, entry]
+      );
+      // A failed upload starts over from what the server has
+      if (entry.status === "failed") {
+        setUploadProgress((prev) => {
+          const next = { ...prev };
+          delete next[entry.temp_id];
+          return next;
+        });
+      }
+    };
+
+    const handleDelivered = ({ entry }: { entry: OutboxEntry }) => {
+      if (!isForConversation(entry)) return;
+      setEntries((prev) => prev.filter((e) => e.temp_id !== entry.temp_id));
+    };
+
+    const handleUploadProgress = ({
+      entry,
+      progress,
+    }: {
+      entry: OutboxEntry;
+      progress: number;
+    }) => {
+      if (!isForConversation(entry)) return;
+      setUploadProgress((prev) => ({ ...prev, [entry.temp_id]: progress }));
+    };
+
+    eventBus.on("outbox-updated", handleUpdated);
+    eventBus.on("outbox-delivered", handleDelivered);
+    eventBus.on("outbox-upload-progress", handleUploadProgress);
+
+    return () => {
+      cancelled = true;
+      eventBus.off("outbox-updated", handleUpdated);
+      eventBus.off("outbox-delivered", handleDelivered);
+      eventBus.off("outbox-upload-progress", handleUploadProgress);
+    };
+  }, [conversationType, targetId]);
+
+  // One object URL per queued file, revoked once its entry is gone
+  useEffect(() => {
+    const urls = previewUrlsRef.current;
+    const queued = new Set<string>();
+    let changed = false;
+
+    entries.forEach((entry) => {
+      if (!entry.attachment) return;
+      queued.add(entry.temp_id);
+      if (!urls.has(entry.temp_id)) {
+        urls.set(entry.temp_id, URL.createObjectURL(entry.attachment.blob));
+        changed = true;
+      }
+    });
+    urls.forEach((url, tempId) => {
+      if (queued.has(tempId)) return;
+      URL.revokeObjectURL(url);
+      urls.delete(tempId);
+      changed = true;
+    });
+
+    if (changed) setPreviewUrls(Object.fromEntries(urls));
+  }, [entries]);
+
+  useEffect(() => {
+    const urls = previewUrlsRef.current;
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const enqueue = useCallback(
+    (
+      content: string,
+      options: {
+        tempId?: string;
+        file?: File;
+        replyTo?: string;
+        mentions?: string[];
+      } = {}
+    ) => {
+      if (!targetId) throw new Error("No conversation selected");
+
+      return enqueueOutboxMessage({
+        conversation_type: conversationType,
+        target_id: targetId,
+        sender_id: session?.user?.id,
+        content,
+        temp_id: options.tempId,
+        file: options.file,
+        reply_to: options.replyTo,
+        mentions: options.mentions,
+      });
+    },
+    [conversationType, targetId, session?.user?.id]
+  );
+
+  const discard = useCallback(async (tempId: string) => {
+    await discardOutboxMessage(tempId);
+    setEntries((prev) => prev.filter((e) => e.temp_id !== tempId));
+  }, []);
+
+  return {
+    entries,
+    uploadProgress,
+    previewUrls,
+    enqueue,
+    retry: retryOutboxMessage,
+    discard,
+  };
+};
+
+/**
+ * Replays the outbox when the app regains a connection. Mounted once,
+ * inside the WebSocket provider.
+ */
+export const useOutboxReplay = () => {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    setOutboxOwner(userId);
+    if (!userId) return;
+
+    const replay = () => {
+      flushOutbox();
+    };
+
+    // Messages echoed over the socket are already stored server-side
+    const handleNewMessage = (message: NewMessageData) => {
+      if (message.temp_id) {
+        acknowledgeOutboxMessage(message.temp_id);
+      }
+    };
+
+    replay();
+    window.addEventListener("online", replay);
+    eventBus.on("websocket-connected", replay);
+    eventBus.on("new-message", handleNewMessage);
+
+    return () => {
+      window.removeEventListener("online", replay);
+      eventBus.off("websocket-connected", replay);
+      eventBus.off("new-message", handleNewMessage);
+    };
+  }, [userId]);
+};
@@ -0,0 +1,90 @@
+import { useCallback, useMemo } from "react";
+import { useSession } from "next-auth/react";
+import { toast } from "react-hot-toast";
+import { useMessages } from "./useMessages";
+import { usePinnedMessagesQuery } from "@/hooks/queries/useMessageQueries";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import { PinnedMessage } from "@/types/messages";
+import { MessagePinData } from "@/types/websocket";
+
+/**
+ * Pinned messages of one conversation. Pinning and unpinning are published
+ * on the event bus straight away, the same way the server's echo arrives,
+ * so the strip and the info panels update together and the echo is a no-op.
+ */
+export const usePinnedMessages = (
+  type: "private" | "group",
+  targetId?: string
+) => {
+  const { data: session } = useSession();
+  const { pinMessage, unpinMessage } = useMessages();
+  const { data: pins = [], isLoading } = usePinnedMessagesQuery(type, targetId);
+
+  const pinnedIds = useMemo(
+    () => new Set(pins.map((pin) => pin.message_id)),
+    [pins]
+  );
+
+  const isPinned = useCallback(
+    (messageId: string) => pinnedIds.has(messageId),
+    [pinnedIds]
+  );
+
+  const toPinEvent = useCallback(
+    (pin: PinnedMessage, action: MessagePinData["action"]): MessagePinData => ({
+      message_id: pin.message_id,
+      user_id: pin.pinned_by,
+      action,
+      group_id: type === "group" ? targetId : undefined,
+      recipient_id: type === "private" ? targetId : undefined,
+      pinned_at: pin.pinned_at,
+      message: {
+        sender_id: pin.sender_id,
+        sender_name: pin.sender_name,
+        content: pin.content,
+        attachment_url: pin.attachment_url,
+      },
+    }),
+    [type, targetId]
+  );
+
+  // `message` describes the pinned message for the strip and info panel
+  const togglePin = useCallback(
+    async (message: Omit<PinnedMessage, "pinned_by" | "pinned_at">) => {
+      const userId = session?.user?.id;
+      if (!targetId || !userId) return;
+
+      const existing = pins.find(
+        (pin) => pin.message_id === message.message_id
+      );
+      const pin: PinnedMessage = existing || {
+        ...message,
+        pinned_by: userId,
+        pinned_at: new Date().toISOString(),
+      };
+      const action = existing ? "unpin" : "pin";
+
+      eventBus.emit("message-pin", toPinEvent(pin, action));
+
+      try {
+        if (action === "pin") {
+          await pinMessage(message.message_id);
+        } else {
+          await unpinMessage(message.message_id);
+        }
+      } catch (error) {
+        // Roll back for every listener
+        eventBus.emit(
+          "message-pin",
+          toPinEvent(pin, action === "pin" ? "unpin" : "pin")
+        );
+        toast.error(
+          action === "pin" ? "Failed to pin message" : "Failed to unpin message"
+        );
+      }
+    },
+    [session?.user?.id, targetId, pins, toPinEvent, pinMessage, unpinMessage]
+  );
+
+  return { pins, isLoading, isPinned, togglePin };
+};
@@ -0,0 +1,100 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import { queryKeys } from "@/hooks/queries/queryKeys";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import type {
+  ScheduledConversationType,
+  ScheduledMessage,
+  UpdateScheduledMessageRequest,
+} from "@/types/scheduledMessages";
+
+// Sent messages drop out of the list; poll so they don't linger
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const bySendAt = (a: ScheduledMessage, b: ScheduledMessage) =>
+  Date.parse(a.send_at) - Date.parse(b.send_at);
+
+/**
+ * Send-later messages of one conversation. The backend owns the schedule
+ * and sends each message when it is due, so they go out even after this
+ * tab is closed.
+ */
+export const useScheduledMessages = (
+  type: ScheduledConversationType,
+  targetId?: string
+) => {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const api = useApiClient();
+  const queryKey = queryKeys.scheduledMessages.conversation(
+    type,
+    targetId || ""
+  );
+
+  const { data: scheduled = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const data = await api.get<{ scheduled: ScheduledMessage[] }>(
+        API_ENDPOINTS.messages.scheduled,
+        { query: { type, target_id: targetId } }
+      );
+      return data.scheduled || [];
+    },
+    enabled: !!targetId && !!session,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const replace = useCallback(
+    (update: (current: ScheduledMessage[]) => ScheduledMessage[]) =>
+      queryClient.setQueryData<ScheduledMessage[]>(queryKey, (current = []) =>
+        update(current).sort(bySendAt)
+      ),
+    // queryKey is rebuilt every render; its parts are what matter
+    [queryClient, type, targetId]
+  );
+
+  const schedule = useCallback(
+    async (
+      content: string,
+      sendAt: string,
+      extras: Pick<ScheduledMessage, "mentions" | "reply_to"> = {}
+    ) => {
+      if (!targetId) return;
+      const { scheduled: created } = await api.post<{
+        scheduled: ScheduledMessage;
+      }>(API_ENDPOINTS.messages.scheduled, {
+        conversation_type: type,
+        target_id: targetId,
+        content,
+        send_at: sendAt,
+        ...extras,
+      });
+      replace((current) => [...current, created]);
+    },
+    [api, type, targetId, replace]
+  );
+
+  const update = useCallback(
+    async (id: string, changes: UpdateScheduledMessageRequest) => {
+      const { scheduled: updated } = await api.patch<{
+        scheduled: ScheduledMessage;
+      }>(API_ENDPOINTS.messages.scheduledById(id), changes);
+      replace((current) =>
+        current.map((message) => (message.id === id ? updated : message))
+      );
+    },
+    [api, replace]
+  );
+
+  const cancel = useCallback(
+    async (id: string) => {
+      await api.delete(API_ENDPOINTS.messages.scheduledById(id));
+      replace((current) => current.filter((message) => message.id !== id));
+    },
+    [api, replace]
+  );
+
+  return { scheduled, isLoading, schedule, update, cancel };
+};
@@ -0,0 +1,112 @@
+import { useCallback, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { useMessages } from "./useMessages";
+
+const PAGE_SIZE = 50;
+const MAX_PAGES = 10;
+// getUnifiedMessages throttles history requests per conversation
+const THROTTLE_WAIT_MS = 2000;
+const HIGHLIGHT_CLASSES = ["bg-yellow-50", "rounded-xl"];
+const HIGHLIGHT_MS = 2000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const findMessageElement = (messageId: string) =>
+  document.querySelector<HTMLElement>(
+    `[data-message-id="${CSS.escape(messageId)}"]`
+  );
+
+const highlightElement = (element: HTMLElement) => {
+  element.scrollIntoView({ behavior: "smooth", block: "center" });
+  element.classList.add(...HIGHLIGHT_CLASSES);
+  setTimeout(
+    () => element.classList.remove(...HIGHLIGHT_CLASSES),
+    HIGHLIGHT_MS
+  );
+};
+
+interface UseScrollToMessageOptions {
+  targetId?: string;
+  type: "private" | "group";
+  // Merge a page of older API messages into the conversation
+  onOlderMessages: (messages: any[]) => void;
+}
+
+/**
+ * Scroll a conversation to one of its messages, e.g. the original of a
+ * quoted reply. When the message is not rendered yet, older history pages
+ * are loaded through getUnifiedMessages until it turns up.
+ */
+export const useScrollToMessage = ({
+  targetId,
+  type,
+  onOlderMessages,
+}: UseScrollToMessageOptions) => {
+  const { getUnifiedMessages } = useMessages();
+  const [isLocating, setIsLocating] = useState(false);
+  const locatingRef = useRef(false);
+
+  const fetchPage = useCallback(
+    async (page: number) => {
+      const params = { target_id: targetId!, type, page, limit: PAGE_SIZE };
+      let response = await getUnifiedMessages(params);
+      if (response._throttled) {
+        await wait(THROTTLE_WAIT_MS);
+        response = await getUnifiedMessages(params);
+      }
+      return response;
+    },
+    [getUnifiedMessages, targetId, type]
+  );
+
+  const scrollToMessage = useCallback(
+    async (messageId: string) => {
+      const rendered = findMessageElement(messageId);
+      if (rendered) {
+        highlightElement(rendered);
+        return true;
+      }
+
+      if (!targetId || locatingRef.current) return false;
+      locatingRef.current = true;
+      setIsLocating(true);
+
+      try {
+        for (let page = 1; page <= MAX_PAGES; page++) {
+          const response = await fetchPage(page);
+          const older: any[] = response.messages || response.data || [];
+          if (older.length > 0) onOlderMessages(older);
+
+          const found = older.some(
+            (message) => (message.id || message.message_id) === messageId
+          );
+          if (found) {
+            // Give React a moment to render the merged page
+            await wait(100);
+            const element = findMessageElement(messageId);
+            if (element) highlightElement(element);
+            return true;
+          }
+
+          const hasMore =
+            response.pagination?.has_more_pages ?? older.length >= PAGE_SIZE;
+          if (!hasMore || response._throttled) break;
+
+          await wait(THROTTLE_WAIT_MS);
+        }
+
+        toast("The original message is no longer available");
+        return false;
+      } catch (error) {
+        toast.error("Could not load the original message");
+        return false;
+      } finally {
+        locatingRef.current = false;
+        setIsLocating(false);
+      }
+    },
+    [targetId, fetchPage, onOlderMessages]
+  );
+
+  return { scrollToMessage, isLocating };
+};
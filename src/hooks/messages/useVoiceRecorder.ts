@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  canRecordAudio,
+  MAX_VOICE_MESSAGE_MS,
+  MIN_VOICE_MESSAGE_MS,
+  pickRecordingMimeType,
+  toVoiceMessageFile,
+} from "@/utils/voiceMessages";
+
+const describeMicrophoneError = (error: unknown) => {
+  switch ((error as DOMException)?.name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Microphone access is blocked. Allow it in your browser settings to send voice messages.";
+    case "NotFoundError":
+      return "No microphone was found";
+    case "NotReadableError":
+      return "The microphone is being used by another app";
+    default:
+      return "Could not start recording";
+  }
+};
+
+/**
+ * Records a voice message with MediaRecorder. `stop` hands the recording
+ * to `onRecorded`; `cancel` throws it away. Recordings stop by themselves
+ * at MAX_VOICE_MESSAGE_MS and are sent.
+ */
+export const useVoiceRecorder = (onRecorded: (file: File) => void) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const startedAtRef = useRef(0);
+  const tickRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const limitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sendOnStopRef = useRef(false);
+  // Waiting for the microphone, e.g. on the permission prompt
+  const startingRef = useRef(false);
+  const releasedWhileStartingRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const release = useCallback(() => {
+    if (tickRef.current) clearInterval(tickRef.current);
+    if (limitRef.current) clearTimeout(limitRef.current);
+    tickRef.current = null;
+    limitRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setElapsedMs(0);
+  }, []);
+
+  const finish = useCallback((send: boolean) => {
+    if (startingRef.current) {
+      releasedWhileStartingRef.current = true;
+      return;
+    }
+
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    sendOnStopRef.current = send;
+    recorder.stop();
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current || startingRef.current) return;
+    if (!canRecordAudio()) {
+      toast.error("Voice messages are not supported in this browser");
+      return;
+    }
+
+    startingRef.current = true;
+    releasedWhileStartingRef.current = false;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      toast.error(describeMicrophoneError(error));
+      return;
+    } finally {
+      startingRef.current = false;
+    }
+
+    // Let go before the microphone was ready; the next press records
+    if (releasedWhileStartingRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const mimeType = pickRecordingMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      toast.error("Could not start recording");
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      const duration = Date.now() - startedAtRef.current;
+      release();
+      if (!sendOnStopRef.current) return;
+
+      if (duration < MIN_VOICE_MESSAGE_MS || chunks.length === 0) {
+        toast("Hold the microphone button to record");
+        return;
+      }
+      onRecordedRef.current(
+        toVoiceMessageFile(chunks, recorder.mimeType || mimeType || "")
+      );
+    };
+
+    streamRef.current = stream;
+    recorderRef.current = recorder;
+    sendOnStopRef.current = false;
+    startedAtRef.current = Date.now();
+    recorder.start();
+    setIsRecording(true);
+    setElapsedMs(0);
+
+    tickRef.current = setInterval(() => {
+      setElapsedMs(Date.now() - startedAtRef.current);
+    }, 200);
+    limitRef.current = setTimeout(() => {
+      toast("Voice messages are limited to 2 minutes");
+      finish(true);
+    }, MAX_VOICE_MESSAGE_MS);
+  }, [finish, release]);
+
+  const stop = useCallback(() => finish(true), [finish]);
+  const cancel = useCallback(() => finish(false), [finish]);
+
+  // Never keep the microphone after the composer goes away
+  useEffect(() => cancel, [cancel]);
+
+  return { isRecording, elapsedMs, start, stop, cancel };
+};
@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { useSession } from "next-auth/react";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import type { ApiRequestOptions } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
 
 // Define types
 export interface Notification {
@@ -19,10 +21,16 @@ export interface Notification {
     sender_id?: string; // Backend uses snake_case
     sender_username?: string; // Backend provides sender username
     message_id?: string;
+    group_id?: string;
+    group_name?: string;
     [key: string]: any; // Allow other properties
   };
 }
 
+// Sent to each user mentioned in a group message. Unlike "message"
+// notifications the server creates these even when the group is muted.
+export const MENTION_NOTIFICATION_TYPE = "mention";
+
 export interface NotificationPagination {
   current_page: number;
   total_pages: number;
@@ -48,9 +56,10 @@ export interface UnreadCountResponse {
 }
 
 export const useNotification = () => {
-  const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while the proxy is answering with fallback data for notifications
+  const [serviceUnavailable, setServiceUnavailable] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [pagination, setPagination] = useState<NotificationPagination>({
@@ -61,85 +70,24 @@ export const useNotification = () => {
     has_more_pages: false,
   });
 
-  // API endpoint - ensure it ends without a trailing slash
-  const API_ENDPOINT = "/api/proxy/notifications";
-
-  // Helper function for API calls with fixed path construction
-  const apiCall = async (endpoint: string, options: RequestInit = {}) => {
-    try {
-      const defaultOptions: RequestInit = {
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        credentials: "include",
-      };
-
-      // Add authorization header if session has access_token
-      if (session?.access_token) {
-        defaultOptions.headers = {
-          ...defaultOptions.headers,
-          Authorization: `Bearer ${session.access_token}`,
-        };
-      }
-
-      // Merge default options with provided options
-      const mergedOptions = {
-        ...defaultOptions,
-        ...options,
-        headers: {
-          ...defaultOptions.headers,
-          ...options.headers,
-        },
-      };
-
-      // Fix path construction - ensure we don't get double slashes
-      let url;
-      if (endpoint.startsWith("http")) {
-        url = endpoint;
-      } else {
-        // Handle endpoint paths correctly, ensuring proper slash handling
-        const endpointPath = endpoint.startsWith("/")
-          ? endpoint.slice(1)
-          : endpoint;
-        url = `${API_ENDPOINT}/${endpointPath}`.replace(/\/+/g, "/");
-      }
-
-
-      const response = await fetch(url, mergedOptions);
-
-      // Handle different response formats
-      if (!response.ok) {
-        const contentType = response.headers.get("content-type");
-        let errorMessage: string;
-
-        try {
-          if (contentType && contentType.includes("application/json")) {
-            const errorData = await response.json();
-            errorMessage =
-              errorData.message ||
-              `Error ${response.status}: ${response.statusText}`;
-          } else {
-            const errorText = await response.text();
-            errorMessage =
-              errorText || `Error ${response.status}: ${response.statusText}`;
-          }
-        } catch (parseError) {
-          errorMessage = `Error ${response.status}: ${response.statusText}`;
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      const contentType = response.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
-        return await response.json();
-      }
+  // Shared API client; flags the outage when the proxy serves fallback data
+  const api = useApiClient({
+    acceptFallback: true,
+    onServiceStatusChange: setServiceUnavailable,
+  });
 
-      return await response.text();
-    } catch (err: any) {
-      throw err;
-    }
+  // Helper function for API calls; endpoints are relative to the
+  // notification service root ("/read-all", "?offset=0", ...)
+  const apiCall = async (endpoint: string, options: ApiRequestOptions = {}) => {
+    const path = endpoint.replace(/^\/+/, "");
+    const root = API_ENDPOINTS.notifications.root;
+    const target = !path
+      ? root
+      : path.startsWith("?")
+      ? `${root}${path}`
+      : `${root}/${path}`;
+
+    return api.request(target, options);
   };
 
   /**
@@ -434,6 +382,7 @@ export const useNotification = () => {
     // State
     loading,
     error,
+    serviceUnavailable,
     notifications,
     unreadCount,
     pagination,
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useSession } from "next-auth/react";
+import { useApiClient } from "@/hooks/api/useApiClient";
 
 // Define types
 export type PresenceStatus = "online" | "offline";
@@ -24,13 +25,14 @@ interface UsePresenceOptions {
   enableActivityDetection?: boolean;
 }
 
-const PRESENCE_PATH = "/api/proxy/presence";
+const PRESENCE_PATH = "presence";
 
 export function usePresence(
   options: UsePresenceOptions = { autoConnect: true }
 ) {
   const { autoConnect = true, enableActivityDetection = true } = options;
   const { data: session } = useSession();
+  const api = useApiClient();
 
   // State
   const [currentStatus, setCurrentStatus] = useState<PresenceStatus>("online");
@@ -73,26 +75,16 @@ export function usePresence(
       setError(null);
 
       try {
-        const response = await fetch(`${PRESENCE_PATH}/status`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify({
-            device_id: deviceId,
-            status,
-          }),
+        const data = await api.post(`${PRESENCE_PATH}/status`, {
+          device_id: deviceId,
+          status,
         });
 
-        const data = await response.json();
-
-        if (response.ok && data.success !== false) {
+        if (data?.success !== false) {
           setCurrentStatus(status);
           return { success: true, data };
         } else {
-          const errorMsg =
-            data.message || `HTTP ${response.status}: ${response.statusText}`;
+          const errorMsg = data.message || "Failed to update status";
           setError(errorMsg);
           return { success: false, error: true, message: errorMsg };
         }
@@ -104,7 +96,7 @@ export function usePresence(
         setIsLoading(false);
       }
     },
-    [session?.access_token, deviceId]
+    [session?.access_token, deviceId, api]
   );
 
   // Main update function
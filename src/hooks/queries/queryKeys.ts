@@ -0,0 +1,66 @@
+// Query keys for the TanStack Query caches.
+// Keys are hierarchical so a whole family can be invalidated at once,
+// e.g. queryKeys.messages.all matches every conversation history.
+
+export const queryKeys = {
+  conversations: {
+    all: ["conversations"] as const,
+    list: () => [...queryKeys.conversations.all, "list"] as const,
+  },
+  messages: {
+    all: ["messages"] as const,
+    private: (userId: string) =>
+      [...queryKeys.messages.all, "private", userId] as const,
+    group: (groupId: string) =>
+      [...queryKeys.messages.all, "group", groupId] as const,
+  },
+  // Kept apart from `messages` so history patches never touch them
+  pins: {
+    all: ["pins"] as const,
+    conversation: (type: "private" | "group", targetId: string) =>
+      [...queryKeys.pins.all, type, targetId] as const,
+  },
+  // Per-member receipts of group messages, fetched when someone asks
+  readReceipts: {
+    all: ["read-receipts"] as const,
+    message: (groupId: string, messageId: string) =>
+      [...queryKeys.readReceipts.all, groupId, messageId] as const,
+  },
+  scheduledMessages: {
+    all: ["scheduled-messages"] as const,
+    conversation: (type: "private" | "group", targetId: string) =>
+      [...queryKeys.scheduledMessages.all, type, targetId] as const,
+  },
+  friends: {
+    all: ["friends"] as const,
+    list: () => [...queryKeys.friends.all, "list"] as const,
+    requests: () => [...queryKeys.friends.all, "requests"] as const,
+  },
+  groups: {
+    all: ["groups"] as const,
+    list: () => [...queryKeys.groups.all, "list"] as const,
+    detail: (groupId: string) =>
+      [...queryKeys.groups.all, "detail", groupId] as const,
+  },
+  linkPreviews: {
+    all: ["link-previews"] as const,
+    detail: (url: string) => [...queryKeys.linkPreviews.all, url] as const,
+  },
+  notifications: {
+    all: ["notifications"] as const,
+    list: (page: number, limit: number) =>
+      [...queryKeys.notifications.all, "list", page, limit] as const,
+    unreadCount: () =>
+      [...queryKeys.notifications.all, "unread-count"] as const,
+  },
+};
+
+// How long cached data is served without a background refetch. WebSocket
+// events keep these caches current, so they can be fairly long.
+export const STALE_TIMES = {
+  history: 30 * 1000,
+  lists: 60 * 1000,
+  notifications: 30 * 1000,
+  // The server caches previews for an hour as well
+  linkPreviews: 60 * 60 * 1000,
+};
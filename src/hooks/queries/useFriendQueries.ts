@@ -0,0 +1,49 @@
+import { queryOptions, useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useFriendship, Friend } from "@/hooks/auth/useFriends";
+import { queryKeys, STALE_TIMES } from "./queryKeys";
+
+// Query definitions take the fetcher so they can also be used with
+// queryClient.fetchQuery outside of the hooks below
+export const friendsListQuery = (getFriends: () => Promise<Friend[]>) =>
+  queryOptions({
+    queryKey: queryKeys.friends.list(),
+    queryFn: () => getFriends(),
+    staleTime: STALE_TIMES.lists,
+  });
+
+export const friendRequestsQuery = (getFriendRequests: () => Promise<any>) =>
+  queryOptions({
+    queryKey: queryKeys.friends.requests(),
+    queryFn: async () => {
+      const requests = await getFriendRequests();
+      return Array.isArray(requests) ? requests : [];
+    },
+    staleTime: STALE_TIMES.lists,
+  });
+
+/**
+ * Friends list, shared by every component through the query cache
+ */
+export const useFriendsQuery = () => {
+  const { data: session } = useSession();
+  const { getFriends } = useFriendship();
+
+  return useQuery({
+    ...friendsListQuery(getFriends),
+    enabled: !!session?.access_token,
+  });
+};
+
+/**
+ * Pending friend requests
+ */
+export const useFriendRequestsQuery = () => {
+  const { data: session } = useSession();
+  const { getFriendRequests } = useFriendship();
+
+  return useQuery({
+    ...friendRequestsQuery(() => getFriendRequests()),
+    enabled: !!session?.access_token,
+  });
+};
@@ -0,0 +1,51 @@
+import { queryOptions, useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useGroup } from "@/hooks/auth/useGroup";
+import { queryKeys, STALE_TIMES } from "./queryKeys";
+
+// getGroups resolves to { data: Group[] } and throws on failure
+export const groupsListQuery = (getGroups: () => Promise<{ data?: any[] }>) =>
+  queryOptions({
+    queryKey: queryKeys.groups.list(),
+    queryFn: async () => {
+      const response = await getGroups();
+      return Array.isArray(response?.data) ? response.data : [];
+    },
+    staleTime: STALE_TIMES.lists,
+  });
+
+export const groupDetailQuery = (
+  groupId: string,
+  getGroupDetails: (groupId: string) => Promise<any>
+) =>
+  queryOptions({
+    queryKey: queryKeys.groups.detail(groupId),
+    queryFn: () => getGroupDetails(groupId),
+    staleTime: STALE_TIMES.lists,
+  });
+
+/**
+ * Groups the current user belongs to
+ */
+export const useGroupsQuery = () => {
+  const { data: session } = useSession();
+  const { getGroups } = useGroup();
+
+  return useQuery({
+    ...groupsListQuery(() => getGroups()),
+    enabled: !!session?.access_token,
+  });
+};
+
+/**
+ * Details of a single group
+ */
+export const useGroupDetailQuery = (groupId?: string) => {
+  const { data: session } = useSession();
+  const { getGroupDetails } = useGroup();
+
+  return useQuery({
+    ...groupDetailQuery(groupId || "", getGroupDetails),
+    enabled: !!session?.access_token && !!groupId,
+  });
+};
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import {
+  LINK_PREVIEW_ENDPOINT,
+  type LinkPreview,
+  type LinkPreviewResponse,
+} from "@/types/linkPreview";
+import { queryKeys, STALE_TIMES } from "./queryKeys";
+
+/**
+ * Preview card data for a link in a message. Resolves to null when the
+ * link has no preview; a missing card is never worth an error.
+ */
+export const useLinkPreviewQuery = (url?: string) => {
+  const { data: session } = useSession();
+
+  return useQuery({
+    queryKey: queryKeys.linkPreviews.detail(url || ""),
+    queryFn: async ({ signal }): Promise<LinkPreview | null> => {
+      const response = await fetch(
+        `${LINK_PREVIEW_ENDPOINT}?url=${encodeURIComponent(url!)}`,
+        { signal }
+      );
+      if (!response.ok) return null;
+
+      const body: LinkPreviewResponse = await response.json();
+      return body.preview;
+    },
+    staleTime: STALE_TIMES.linkPreviews,
+    gcTime: STALE_TIMES.linkPreviews,
+    retry: false,
+    enabled: !!url && !!session,
+  });
+};
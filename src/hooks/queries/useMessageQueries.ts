@@ -0,0 +1,230 @@
+import { queryOptions, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useApiClient } from "@/hooks/api/useApiClient";
+import { useMessages } from "@/hooks/messages/useMessages";
+import { useFriendship } from "@/hooks/auth/useFriends";
+import { useGroup } from "@/hooks/auth/useGroup";
+import {
+  BaseMessage,
+  ConversationHistory,
+  ConversationPreview,
+  GroupReadReceipt,
+  normalizePinnedMessages,
+  normalizeReadReceipts,
+  normalizeSingleMessage,
+  PinnedMessage,
+  toConversationHistory,
+} from "@/types/messages";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import { queryKeys, STALE_TIMES } from "./queryKeys";
+import { friendsListQuery } from "./useFriendQueries";
+import { groupsListQuery } from "./useGroupQueries";
+
+type HistoryFetcher = () => Promise<any>;
+
+// Error thrown for a failed history load, so failures are never cached as
+// an empty conversation. `errorCode` mirrors the code from useMessages.
+export class HistoryLoadError extends Error {
+  errorCode?: string;
+
+  constructor(message: string, errorCode?: string) {
+    super(message);
+    this.name = "HistoryLoadError";
+    this.errorCode = errorCode;
+  }
+}
+
+const loadHistory = async <T = any>(
+  fetcher: HistoryFetcher
+): Promise<ConversationHistory<T>> => {
+  const response = await fetcher();
+  const history = toConversationHistory<T>(response);
+
+  // Degraded responses keep whatever messages they carried
+  if (response?.success === false && history.messages.length === 0) {
+    throw new HistoryLoadError(
+      response.message || "Failed to load messages",
+      response.errorCode
+    );
+  }
+
+  return history;
+};
+
+// First page of a private conversation
+export const privateHistoryQuery = (userId: string, fetcher: HistoryFetcher) =>
+  queryOptions({
+    queryKey: queryKeys.messages.private(userId),
+    queryFn: () => loadHistory<BaseMessage>(fetcher),
+    staleTime: STALE_TIMES.history,
+  });
+
+// First page of a group conversation
+export const groupHistoryQuery = (groupId: string, fetcher: HistoryFetcher) =>
+  queryOptions({
+    queryKey: queryKeys.messages.group(groupId),
+    queryFn: () => loadHistory(fetcher),
+    staleTime: STALE_TIMES.history,
+  });
+
+// Pinned messages of a conversation, newest first
+export const pinnedMessagesQuery = (
+  type: "private" | "group",
+  targetId: string,
+  fetcher: HistoryFetcher
+) =>
+  queryOptions({
+    queryKey: queryKeys.pins.conversation(type, targetId),
+    queryFn: async (): Promise<PinnedMessage[]> =>
+      normalizePinnedMessages(await fetcher()),
+    staleTime: STALE_TIMES.lists,
+  });
+
+/**
+ * Cached first page of a private conversation
+ */
+export const usePrivateHistoryQuery = (userId?: string) => {
+  const { data: session } = useSession();
+  const { getMessages } = useMessages();
+
+  return useQuery({
+    ...privateHistoryQuery(userId || "", () => getMessages(userId || "")),
+    enabled: !!session?.access_token && !!userId,
+  });
+};
+
+/**
+ * Cached first page of a group conversation
+ */
+export const useGroupHistoryQuery = (groupId?: string) => {
+  const { data: session } = useSession();
+  const { getConversationHistory } = useMessages();
+
+  return useQuery({
+    ...groupHistoryQuery(groupId || "", () =>
+      getConversationHistory(groupId || "", "group")
+    ),
+    enabled: !!session?.access_token && !!groupId,
+  });
+};
+
+/**
+ * Pinned messages of a conversation, kept live by useQueryCacheSync
+ */
+export const usePinnedMessagesQuery = (
+  type: "private" | "group",
+  targetId?: string
+) => {
+  const { data: session } = useSession();
+  const { getPinnedMessages } = useMessages();
+
+  return useQuery({
+    ...pinnedMessagesQuery(type, targetId || "", () =>
+      getPinnedMessages(type, targetId || "")
+    ),
+    enabled: !!session?.access_token && !!targetId,
+  });
+};
+
+/**
+ * Who has read a group message, kept live by useQueryCacheSync. Only
+ * fetched while `enabled`, e.g. when the receipts popover is open.
+ */
+export const useMessageReadsQuery = (
+  groupId: string,
+  messageId: string,
+  enabled: boolean
+) => {
+  const { data: session } = useSession();
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: queryKeys.readReceipts.message(groupId, messageId),
+    queryFn: async (): Promise<GroupReadReceipt[]> =>
+      normalizeReadReceipts(
+        await api.get(API_ENDPOINTS.groups.messageReads(groupId, messageId))
+      ),
+    staleTime: STALE_TIMES.history,
+    enabled: enabled && !!session?.access_token,
+  });
+};
+
+/**
+ * Friends and groups with their latest message, for the conversations list.
+ * The friends and groups lists are read through their own queries so every
+ * consumer shares one request. A failed groups fetch still lists the
+ * friends and is reported as `groupsError`.
+ */
+export const useConversationsQuery = () => {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const { getFriends } = useFriendship();
+  const { getGroups } = useGroup();
+  const { getLastMessage } = useMessages();
+
+  const findLastMessage = async (entity: any, type: "private" | "group") => {
+    if (entity.last_message && Object.keys(entity.last_message).length) {
+      return entity.last_message;
+    }
+
+    try {
+      const response = await getLastMessage(entity.id, type);
+      if (response?.success === false) return null;
+      return normalizeSingleMessage(response);
+    } catch {
+      // Treat a failed lookup as no conversation history
+      return null;
+    }
+  };
+
+  const query = useQuery({
+    queryKey: queryKeys.conversations.list(),
+    queryFn: async (): Promise<ConversationPreview[]> => {
+      const [friendsResult, groupsResult] = await Promise.allSettled([
+        queryClient.fetchQuery(friendsListQuery(getFriends)),
+        queryClient.fetchQuery(groupsListQuery(() => getGroups())),
+      ]);
+
+      // Without groups the friends still make a usable list; the groups
+      // error is reported through groupsError instead
+      if (friendsResult.status === "rejected") throw friendsResult.reason;
+      const friends = friendsResult.value;
+      const groups =
+        groupsResult.status === "fulfilled" ? groupsResult.value : [];
+
+      const entries = [
+        ...friends
+          .filter((friend: any) => friend && friend.id)
+          .map((friend: any) => ({
+            type: "friend" as const,
+            entity: friend,
+            lookup: "private" as const,
+          })),
+        ...groups
+          .filter((group: any) => group && group.id)
+          .map((group: any) => ({
+            type: "group" as const,
+            entity: group,
+            lookup: "group" as const,
+          })),
+      ];
+
+      return Promise.all(
+        entries.map(async ({ type, entity, lookup }) => ({
+          id: entity.id,
+          type,
+          entity,
+          lastMessage: await findLastMessage(entity, lookup),
+        }))
+      );
+    },
+    staleTime: STALE_TIMES.lists,
+    enabled: !!session?.access_token,
+  });
+
+  // Set when the last groups fetch failed and the list only has friends
+  const groupsError =
+    queryClient.getQueryState(queryKeys.groups.list())?.error ?? null;
+
+  return { ...query, groupsError };
+};
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useNotification } from "@/hooks/notifications/useNotification";
+import { queryKeys, STALE_TIMES } from "./queryKeys";
+
+/**
+ * One page of notifications
+ */
+export const useNotificationsQuery = (page: number = 1, limit: number = 10) => {
+  const { data: session } = useSession();
+  const { getNotifications } = useNotification();
+
+  return useQuery({
+    queryKey: queryKeys.notifications.list(page, limit),
+    queryFn: () => getNotifications(page, limit),
+    staleTime: STALE_TIMES.notifications,
+    enabled: !!session?.access_token,
+  });
+};
+
+/**
+ * Unread notification count for the bell badge
+ */
+export const useUnreadNotificationCountQuery = () => {
+  const { data: session } = useSession();
+  const { getUnreadCount } = useNotification();
+
+  return useQuery({
+    queryKey: queryKeys.notifications.unreadCount(),
+    queryFn: async () => (await getUnreadCount()).count ?? 0,
+    staleTime: STALE_TIMES.notifications,
+    enabled: !!session?.access_token,
+  });
+};
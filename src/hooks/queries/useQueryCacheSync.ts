@@ -0,0 +1,248 @@
+import { useEffect } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import {
+  GroupReadData,
+  MessagePinData,
+  MessageReactionData,
+  NewMessageData,
+} from "@/types/websocket";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import { AppEvents } from "@/types/events";
+import {
+  applyGroupRead,
+  applyPin,
+  applyReaction,
+  ConversationHistory,
+  ConversationPreview,
+  GroupReadReceipt,
+  normalizeReactions,
+  PinnedMessage,
+} from "@/types/messages";
+import { queryKeys } from "./queryKeys";
+
+type ConversationType = "private" | "group";
+
+const historyKey = (type: ConversationType, id: string) =>
+  type === "group"
+    ? queryKeys.messages.group(id)
+    : queryKeys.messages.private(id);
+
+// Apply `update` to one cached history, if it has been loaded
+const patchHistory = (
+  queryClient: QueryClient,
+  type: ConversationType,
+  id: string,
+  update: (messages: any[]) => any[]
+) => {
+  queryClient.setQueryData<ConversationHistory>(historyKey(type, id), (old) =>
+    old ? { ...old, messages: update(old.messages) } : old
+  );
+};
+
+// Apply `update` to every cached history
+const patchAllHistories = (
+  queryClient: QueryClient,
+  update: (messages: any[]) => any[]
+) => {
+  queryClient.setQueriesData<ConversationHistory>(
+    { queryKey: queryKeys.messages.all },
+    (old) => (old ? { ...old, messages: update(old.messages) } : old)
+  );
+};
+
+// Apply `update` to one entry of the conversations list. Returns false when
+// the conversation is not in the cached list.
+const patchConversation = (
+  queryClient: QueryClient,
+  id: string,
+  update: (conversation: ConversationPreview) => ConversationPreview
+) => {
+  let found = false;
+  queryClient.setQueryData<ConversationPreview[]>(
+    queryKeys.conversations.list(),
+    (old) =>
+      old?.map((conversation) => {
+        if (conversation.id !== id) return conversation;
+        found = true;
+        return update(conversation);
+      })
+  );
+  return found;
+};
+
+/**
+ * Keeps the query caches current from WebSocket and event bus events, so
+ * cached conversations never need a refetch to show new activity.
+ * Mounted once, inside the WebSocket provider.
+ */
+export const useQueryCacheSync = () => {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const currentUserId = session?.user?.id;
+
+  useEffect(() => {
+    const handleNewMessage = (data: NewMessageData) => {
+      const type: ConversationType = data.group_id ? "group" : "private";
+      const conversationId =
+        data.group_id ||
+        (data.sender_id === currentUserId ? data.recipient_id : data.sender_id);
+      if (!conversationId) return;
+
+      patchHistory(queryClient, type, conversationId, (messages) =>
+        messages.some((message) => message.id === data.id)
+          ? messages
+          : [...messages, data]
+      );
+
+      const known = patchConversation(
+        queryClient,
+        conversationId,
+        (conversation) => ({ ...conversation, lastMessage: data })
+      );
+
+      // A first message from someone new: the list needs the server's view
+      if (!known) {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.conversations.all,
+        });
+      }
+    };
+
+    const handleMessagesRead = (messageIds: string[]) => {
+      if (!Array.isArray(messageIds) || messageIds.length === 0) return;
+
+      patchAllHistories(queryClient, (messages) =>
+        messages.map((message) =>
+          messageIds.includes(message.id)
+            ? { ...message, read: true, is_read: true }
+            : message
+        )
+      );
+    };
+
+    const handleUserStatusChanged = (
+      data: AppEvents["user-status-changed"]
+    ) => {
+      queryClient.setQueryData<any[]>(queryKeys.friends.list(), (old) =>
+        old?.map((friend) =>
+          friend.id === data.userId
+            ? { ...friend, status: data.status }
+            : friend
+        )
+      );
+    };
+
+    const handleMessageEdited = (data: AppEvents["message-edited"]) => {
+      patchHistory(queryClient, data.type, data.conversationId, (messages) =>
+        messages.map((message) =>
+          message.id === data.messageId
+            ? { ...message, content: data.content, is_edited: true }
+            : message
+        )
+      );
+
+      patchConversation(queryClient, data.conversationId, (conversation) =>
+        conversation.lastMessage?.id === data.messageId
+          ? {
+              ...conversation,
+              lastMessage: {
+                ...conversation.lastMessage,
+                content: data.content,
+              },
+            }
+          : conversation
+      );
+    };
+
+    const handleMessageDeleted = (data: AppEvents["message-deleted"]) => {
+      patchHistory(queryClient, data.type, data.conversationId, (messages) =>
+        messages.map((message) =>
+          message.id === data.messageId
+            ? { ...message, is_deleted: true }
+            : message
+        )
+      );
+
+      patchConversation(queryClient, data.conversationId, (conversation) =>
+        conversation.lastMessage?.id === data.messageId
+          ? {
+              ...conversation,
+              lastMessage: { ...conversation.lastMessage, is_deleted: true },
+            }
+          : conversation
+      );
+    };
+
+    const handleMessageReaction = (data: MessageReactionData) => {
+      patchAllHistories(queryClient, (messages) =>
+        messages.map((message) =>
+          message.id === data.message_id
+            ? {
+                ...message,
+                reactions: applyReaction(
+                  normalizeReactions(message.reactions),
+                  String(data.user_id),
+                  data.emoji,
+                  data.action || "add"
+                ),
+              }
+            : message
+        )
+      );
+    };
+
+    const handleMessagePin = (data: MessagePinData) => {
+      const type: ConversationType = data.group_id ? "group" : "private";
+      const conversationId =
+        data.group_id ||
+        (String(data.user_id) === currentUserId
+          ? data.recipient_id
+          : data.user_id);
+      if (!conversationId) return;
+
+      queryClient.setQueryData<PinnedMessage[]>(
+        queryKeys.pins.conversation(type, String(conversationId)),
+        (old) => (old ? applyPin(old, data) : old)
+      );
+    };
+
+    const handleGroupRead = (data: GroupReadData) => {
+      const readAt = data.read_at || new Date().toISOString();
+      data.message_ids.forEach((messageId) => {
+        queryClient.setQueryData<GroupReadReceipt[]>(
+          queryKeys.readReceipts.message(data.group_id, messageId),
+          (old) =>
+            old ? applyGroupRead(old, String(data.user_id), readAt) : old
+        );
+      });
+    };
+
+    const handleFriendAdded = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.friends.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations.all });
+    };
+
+    eventBus.on("new-message", handleNewMessage);
+    eventBus.on("messages-read", handleMessagesRead);
+    eventBus.on("user-status-changed", handleUserStatusChanged);
+    eventBus.on("message-edited", handleMessageEdited);
+    eventBus.on("message-deleted", handleMessageDeleted);
+    eventBus.on("message-reaction", handleMessageReaction);
+    eventBus.on("message-pin", handleMessagePin);
+    eventBus.on("group-messages-read", handleGroupRead);
+    eventBus.on("friend-added", handleFriendAdded);
+
+    return () => {
+      eventBus.off("new-message", handleNewMessage);
+      eventBus.off("messages-read", handleMessagesRead);
+      eventBus.off("user-status-changed", handleUserStatusChanged);
+      eventBus.off("message-edited", handleMessageEdited);
+      eventBus.off("message-deleted", handleMessageDeleted);
+      eventBus.off("message-reaction", handleMessageReaction);
+      eventBus.off("message-pin", handleMessagePin);
+      eventBus.off("group-messages-read", handleGroupRead);
+      eventBus.off("friend-added", handleFriendAdded);
+    };
+  }, [queryClient, currentUserId]);
+};
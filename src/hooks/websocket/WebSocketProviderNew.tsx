@@ -9,6 +9,8 @@ import React, {
 } from "react";
 import { useWebSocket } from "./useWebSocket";
 import { useEventBus } from "./useEventBus";
+import { useQueryCacheSync } from "@/hooks/queries/useQueryCacheSync";
+import { useOutboxReplay } from "@/hooks/messages/useOutbox";
 
 // Combined WebSocket + EventBus context type
 type WebSocketContextType = Omit<
@@ -45,6 +47,12 @@ export const WebSocketProvider = ({ children }: { children: ReactNode }) => {
   // Initialize EventBus
   const { sendPrivateMessage: eventBusSendMessage } = useEventBus();
 
+  // Patch cached chat data as real-time events arrive
+  useQueryCacheSync();
+
+  // Send messages left in the outbox by a reload or lost connection
+  useOutboxReplay();
+
   // EventBus is always "connected" since it's a local event system
   const eventBusConnected = true;
   const eventBusError = null;
@@ -1,19 +1,14 @@
 import { useCallback } from "react";
 import { useWebSocketEvent } from "./useWebSocketListener";
-import { eventBus } from "./useWebSocket";
+import { eventBus } from "./useEventBus";
+import { GroupBlockingEvent } from "@/types/events";
 
 /**
  * Hook for listening to user blocking events in groups
  * Implements WebSocket event handling for block/unblock operations
  */
 
-interface BlockingEventData {
-  group_id: string;
-  user_id: string;
-  blocked_user_id: string;
-  action: "blocked" | "unblocked";
-  timestamp: string;
-}
+type BlockingEventData = GroupBlockingEvent;
 
 interface UseBlockingListenerOptions {
   groupId?: string;
@@ -1,67 +1,54 @@
-import mitt from "mitt";
+import mitt, { Handler } from "mitt";
 import { useEffect, useCallback } from "react";
+import { apiClient } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import {
+  AppEventName,
+  AppEventPayload,
+  AppEvents,
+  LEGACY_EVENT_NAMES,
+  LegacyEventName,
+} from "@/types/events";
 
-export type EventTypes = {
-  "unread-counts-updated": any[];
-  "message-received": any;
-  "message-sent": any;
-  "message-read": string[];
-  "message-deleted": {
-    messageId: string;
-    conversationId: string;
-    type: "private" | "group";
-  };
-  "message-edited": {
-    messageId: string;
-    conversationId: string;
-    content: string;
-    type: "private" | "group";
-  };
-  "friend-status-changed": { userId: string; status: "online" | "offline" };
-  "retry-failed-message": string;
-  "typing-status-changed": {
-    userId: string;
-    recipientId: string;
-    isTyping: boolean;
-  };
-  "user-status-changed": {
-    userId: string;
-    status: "online" | "offline";
-    lastSeen?: string;
-    timestamp?: string;
-    formattedLastSeen?: string | null;
-  };
-  "private-message": any;
-  "group-message": any;
-  "refresh-messages": void;
-  "friend-added": void;
-  // Enhanced WebSocket events
-  "websocket-connected": "messages" | "presence";
-  "websocket-disconnected": "messages" | "presence";
-  "connection-quality-changed": "excellent" | "good" | "poor" | "disconnected";
-  // Additional events
-  "message-reaction": any;
-  "temp-message-replaced": { tempId: string; realId: string; content: string };
-  "new-message-received": {
-    messageId: string;
-    senderId: string;
-    senderName: string;
-    content: string;
-    timestamp: string;
-    formattedTimestamp?: string;
-  };
-  // Legacy support for existing components
-  new_message: any;
-  user_typing: any;
-  typing: any;
-  stop_typing: any;
-  user_status: any;
-  status: any;
-  read: any;
-  unread_count: any;
+const emitter = mitt<AppEvents>();
+
+const warnedLegacyNames = new Set<string>();
+
+const isLegacyEventName = (name: string): name is LegacyEventName =>
+  Object.prototype.hasOwnProperty.call(LEGACY_EVENT_NAMES, name);
+
+// Map a legacy event name onto the event that replaced it
+const resolveEventName = (name: AppEventName): keyof AppEvents => {
+  if (!isLegacyEventName(name)) return name;
+
+  const replacement = LEGACY_EVENT_NAMES[name];
+  if (process.env.NODE_ENV === "development" && !warnedLegacyNames.has(name)) {
+    warnedLegacyNames.add(name);
+    console.warn(
+      `[eventBus] "${name}" is deprecated, use "${replacement}" instead`
+    );
+  }
+  return replacement;
 };
 
-export const eventBus = mitt<EventTypes>();
+/**
+ * The app-wide event bus. WebSocket handlers, hooks and components all
+ * publish and subscribe here. Legacy event names are routed to their
+ * replacements.
+ */
+export const eventBus = {
+  on<K extends AppEventName>(event: K, handler: Handler<AppEventPayload<K>>) {
+    emitter.on(resolveEventName(event), handler as Handler<any>);
+  },
+
+  off<K extends AppEventName>(event: K, handler?: Handler<AppEventPayload<K>>) {
+    emitter.off(resolveEventName(event), handler as Handler<any>);
+  },
+
+  emit<K extends AppEventName>(event: K, data: AppEventPayload<K>) {
+    emitter.emit(resolveEventName(event), data as any);
+  },
+};
 
 /**
  * Hook to interact with the global event bus
@@ -70,9 +57,9 @@ export const eventBus = mitt<EventTypes>();
 export function useEventBus() {
   // Subscribe to an event
   const on = useCallback(
-    <K extends keyof EventTypes>(
+    <K extends AppEventName>(
       event: K,
-      handler: (data: EventTypes[K]) => void
+      handler: (data: AppEventPayload<K>) => void
     ) => {
       eventBus.on(event, handler);
 
@@ -86,7 +73,7 @@ export function useEventBus() {
 
   // Emit an event
   const emit = useCallback(
-    <K extends keyof EventTypes>(event: K, data: EventTypes[K]) => {
+    <K extends AppEventName>(event: K, data: AppEventPayload<K>) => {
       eventBus.emit(event, data);
     },
     []
@@ -94,9 +81,9 @@ export function useEventBus() {
 
   // Subscribe to an event with automatic cleanup on unmount
   const useEvent = useCallback(
-    <K extends keyof EventTypes>(
+    <K extends AppEventName>(
       event: K,
-      handler: (data: EventTypes[K]) => void,
+      handler: (data: AppEventPayload<K>) => void,
       dependencies: any[] = []
     ) => {
       useEffect(() => {
@@ -127,28 +114,16 @@ export function useEventBus() {
         });
 
         // Send the message to the backend API via proxy
-        const response = await fetch("/api/proxy/messages", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            recipient_id: recipientId,
-            content,
-            type,
-          }),
+        const result = await apiClient.post(API_ENDPOINTS.messages.root, {
+          recipient_id: recipientId,
+          content,
+          type,
         });
 
-        if (response.ok) {
-          const result = await response.json();
-
-          // Emit message confirmation
-          emit("message-received", result.data);
+        // Emit message confirmation
+        emit("message-received", result.data);
 
-          return true;
-        } else {
-          throw new Error("Failed to send message");
-        }
+        return true;
       } catch (error) {
 
         // Emit retry event for failed messages
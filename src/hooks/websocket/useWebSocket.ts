@@ -1,79 +1,22 @@
 import { useEffect, useState, useRef, useCallback } from "react";
-import { useSession } from "next-auth/react";
-import { useRouter } from "next/navigation";
-
-// Message types that can be sent/received via WebSocket
-export enum WebSocketMessageType {
-  MESSAGE = "message",
-  TYPING = "typing",
-  STOP_TYPING = "stop_typing", // Added missing STOP_TYPING enum value
-  STATUS = "status",
-  READ = "read",
-  UNREAD_COUNT = "unread_count",
-  MESSAGE_REACTION = "message_reaction", // Support for message reactions
-  ERROR = "error",
-}
-
-// Message interfaces
-export interface WebSocketMessage {
-  type: WebSocketMessageType;
-  data: any;
-}
-
-export interface NewMessageData {
-  id: string;
-  sender_id: string; // Changed to match the provided code
-  recipient_id: string; // Changed to match the provided code
-  content: string;
-  type: string; // Added from the provided code
-  read: boolean;
-  created_at: string; // Changed to match the provided code
-  updated_at: string; // Added from the provided code
-  media_url?: string; // Changed to match the provided code
-  sender?: {
-    id: string;
-    name: string;
-    profile_picture_url?: string; // Changed to match the provided code
-  };
-}
-
-export interface UserStatusData {
-  user_id: string;
-  status: "online" | "offline" | "busy" | "away";
-  last_seen?: string; // Changed to match the provided code
-}
-
-export interface TypingData {
-  user_id: string; // Changed to match the provided code
-  recipient_id: string; // Changed to match the provided code
-  is_typing: boolean; // Changed to match the provided code
-}
-
-// Custom event system (similar to Vue's eventBus)
-type EventCallback = (...args: any[]) => void;
-class EventBus {
-  private events: Record<string, EventCallback[]> = {};
-
-  on(event: string, callback: EventCallback) {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(callback);
-  }
-
-  off(event: string, callback: EventCallback) {
-    if (!this.events[event]) return;
-    this.events[event] = this.events[event].filter((cb) => cb !== callback);
-  }
-
-  emit(event: string, ...args: any[]) {
-    if (!this.events[event]) return;
-    this.events[event].forEach((callback) => callback(...args));
-  }
-}
-
-// Create a singleton event bus
-export const eventBus = new EventBus();
+import { signOut, useSession } from "next-auth/react";
+import { eventBus } from "./useEventBus";
+import {
+  decodeFrame,
+  encodeFrame,
+  InboundFrame,
+  OutboundFrame,
+  NewMessageData,
+  TypingData,
+  UserStatusData,
+  validateOutboundFrame,
+  WebSocketMessageType,
+  WebSocketSocketName,
+} from "@/types/websocket";
+import { enqueueOutboxMessage } from "@/utils/outbox";
+
+// localStorage key of the frame queue used before the outbox existed
+const LEGACY_QUEUE_KEY = "websocket_message_queue";
 
 interface UseWebSocketOptions {
   autoConnect?: boolean;
@@ -82,8 +25,7 @@ interface UseWebSocketOptions {
 export function useWebSocket(
   options: UseWebSocketOptions = { autoConnect: true }
 ) {
-  const { data: session } = useSession();
-  const router = useRouter();
+  const { data: session, update: updateSession } = useSession();
 
   // State variables for Messages WebSocket
   const socketMessagesRef = useRef<WebSocket | null>(null);
@@ -106,10 +48,11 @@ export function useWebSocket(
   const maxReconnectAttempts = 5;
   const reconnectIntervalRef = useRef(2000); // Start with 2 seconds
 
-  // Enhanced message queue with retry logic and persistence
+  // Frames waiting for the socket to open. Chat messages are not kept here
+  // but in the persistent outbox (utils/outbox.ts).
   const messageQueueRef = useRef<
     Array<{
-      message: WebSocketMessage;
+      message: OutboundFrame;
       id: string;
       timestamp: number;
       retryCount: number;
@@ -119,6 +62,13 @@ export function useWebSocket(
 
   const activeSubscriptionsRef = useRef<string[]>([]);
   const authCheckInProgressRef = useRef(false);
+  const signingOutRef = useRef(false);
+  // Socket handlers are bound once, so they read the user from here
+  const userIdRef = useRef<string | undefined>(undefined);
+  userIdRef.current = session?.user?.id;
+
+  // Bumped to reconnect after an auth close when the session is still valid
+  const [authRetryNonce, setAuthRetryNonce] = useState(0);
 
   // Message deduplication tracking
   const processedMessageIdsRef = useRef<Set<string>>(new Set());
@@ -138,7 +88,7 @@ export function useWebSocket(
 
   // Enhanced message queue helpers with retry logic
   const addToMessageQueue = useCallback(
-    (message: WebSocketMessage, maxRetries: number = 3) => {
+    (message: OutboundFrame, maxRetries: number = 3) => {
       const queueItem = {
         message,
         id: generateMessageId(),
@@ -147,14 +97,6 @@ export function useWebSocket(
         maxRetries,
       };
       messageQueueRef.current = [...messageQueueRef.current, queueItem];
-
-      // Persist queue to localStorage for recovery after page reload
-      try {
-        localStorage.setItem(
-          "websocket_message_queue",
-          JSON.stringify(messageQueueRef.current)
-        );
-      } catch (error) {}
     },
     [generateMessageId]
   );
@@ -174,7 +116,7 @@ export function useWebSocket(
 
     messageQueueRef.current.forEach((queueItem) => {
       try {
-        socketMessagesRef.current!.send(JSON.stringify(queueItem.message));
+        socketMessagesRef.current!.send(encodeFrame(queueItem.message));
         processedIds.push(queueItem.id);
       } catch (error) {
         // Increment retry count
@@ -190,33 +132,34 @@ export function useWebSocket(
 
     // Update queue with only failed messages that can still be retried
     messageQueueRef.current = failedMessages;
-
-    // Update persisted queue
-    try {
-      localStorage.setItem(
-        "websocket_message_queue",
-        JSON.stringify(messageQueueRef.current)
-      );
-    } catch (error) {}
   }, [isMessagesConnected]);
 
-  // Restore message queue from localStorage on component mount
-  const restoreMessageQueue = useCallback(() => {
+  // Move chat messages left in the old localStorage queue into the outbox
+  const migrateLegacyQueue = useCallback(() => {
+    if (!session?.user?.id) return;
+
     try {
-      const storedQueue = localStorage.getItem("websocket_message_queue");
-      if (storedQueue) {
-        const parsedQueue = JSON.parse(storedQueue);
-        // Only restore messages that are less than 1 hour old
-        const oneHourAgo = Date.now() - 60 * 60 * 1000;
-        messageQueueRef.current = parsedQueue.filter(
-          (item: any) =>
-            item.timestamp > oneHourAgo && item.retryCount < item.maxRetries
-        );
-      }
-    } catch (error) {
-      messageQueueRef.current = [];
-    }
-  }, []);
+      const storedQueue = localStorage.getItem(LEGACY_QUEUE_KEY);
+      if (!storedQueue) return;
+      localStorage.removeItem(LEGACY_QUEUE_KEY);
+
+      JSON.parse(storedQueue).forEach((item: any) => {
+        const frame = item?.message;
+        if (
+          frame?.type !== WebSocketMessageType.MESSAGE ||
+          validateOutboundFrame(frame).length > 0
+        ) {
+          return;
+        }
+        enqueueOutboxMessage({
+          conversation_type: frame.data.group_id ? "group" : "private",
+          target_id: frame.data.group_id || frame.data.recipient_id,
+          sender_id: session?.user?.id,
+          content: frame.data.content,
+        });
+      });
+    } catch (error) {}
+  }, [session?.user?.id]);
 
   // Helper to update the combined connection state
   const updateConnectedState = useCallback(() => {
@@ -271,20 +214,42 @@ export function useWebSocket(
     }
   }, [session?.access_token]);
 
-  // Handle authentication failure
-  const handleAuthFailure = useCallback(() => {
-    // Clean up WebSocket resources
+  // Sign out once the session can no longer be refreshed
+  const signOutExpiredSession = useCallback(async () => {
+    if (signingOutRef.current) return;
+    signingOutRef.current = true;
+
     disconnect();
     clear();
 
-    // Show toast notification (if you have a toast library)
-    // Example: toast.error("Authentication failed. Please log in again.");
-
-    // Redirect to login page
     if (typeof window !== "undefined") {
-      router.push("/login");
+      await signOut({ callbackUrl: "/" });
+    }
+  }, []);
+
+  // Handle authentication failure
+  const handleAuthFailure = useCallback(async () => {
+    disconnect();
+
+    // The socket may have been rejected because the access token went stale.
+    // Refetching the session runs the jwt callback, which refreshes it.
+    const freshSession = await updateSession();
+
+    if (!freshSession?.access_token || freshSession.error) {
+      await signOutExpiredSession();
+      return;
     }
-  }, [router]);
+
+    // A rotated token reconnects through the session effect below; otherwise
+    // retry with the same token a bounded number of times
+    if (
+      freshSession.access_token === session?.access_token &&
+      reconnectAttemptsRef.current < maxReconnectAttempts
+    ) {
+      reconnectAttemptsRef.current++;
+      setAuthRetryNonce((nonce) => nonce + 1);
+    }
+  }, [updateSession, signOutExpiredSession, session?.access_token]);
 
   // Initialize WebSocket connections
   const connect = useCallback(async () => {
@@ -444,6 +409,9 @@ export function useWebSocket(
       // Process any queued messages with enhanced retry logic
       processMessageQueue();
 
+      // Lets the outbox replay messages sent while offline
+      eventBus.emit("websocket-connected", "messages");
+
       // Show toast notification (if you have a toast library)
       // Example: toast.success("Connected to messaging service");
 
@@ -480,12 +448,12 @@ export function useWebSocket(
     if (!isMessagesConnected || !socketMessagesRef.current) return;
 
     const unreadSubscription = {
-      action: "subscribe",
+      action: "subscribe" as const,
       channel: "unread_counts",
     };
 
     try {
-      socketMessagesRef.current.send(JSON.stringify(unreadSubscription));
+      socketMessagesRef.current.send(encodeFrame(unreadSubscription));
     } catch (error) {}
   }, [isMessagesConnected]);
 
@@ -498,12 +466,12 @@ export function useWebSocket(
       if (activeSubscriptionsRef.current.includes(channel)) return;
 
       const subscription = {
-        action: "subscribe",
+        action: "subscribe" as const,
         channel: channel,
       };
 
       try {
-        socketPresenceRef.current.send(JSON.stringify(subscription));
+        socketPresenceRef.current.send(encodeFrame(subscription));
 
         // Add to active subscriptions
         if (!activeSubscriptionsRef.current.includes(channel)) {
@@ -517,11 +485,25 @@ export function useWebSocket(
     [isPresenceConnected]
   );
 
+  // Validate a raw frame, reporting malformed ones instead of handling them
+  const readFrame = useCallback(
+    (event: MessageEvent, socket: WebSocketSocketName): InboundFrame | null => {
+      const result = decodeFrame(event.data, socket);
+      if (!result.ok) {
+        eventBus.emit("websocket-protocol-error", result.diagnostic);
+        return null;
+      }
+      return result.frame;
+    },
+    []
+  );
+
   // Handle incoming messages from Messages WebSocket
   const handleMessagesMessage = useCallback((event: MessageEvent) => {
-    try {
-      const message = JSON.parse(event.data) as WebSocketMessage;
+    const message = readFrame(event, "messages");
+    if (!message) return;
 
+    try {
       // Process message based on its type
       switch (message.type) {
         case WebSocketMessageType.MESSAGE:
@@ -532,6 +514,10 @@ export function useWebSocket(
           handleTypingNotification(message.data);
           break;
 
+        case WebSocketMessageType.STOP_TYPING:
+          handleTypingNotification({ ...message.data, is_typing: false });
+          break;
+
         case WebSocketMessageType.UNREAD_COUNT:
           handleUnreadCount(message.data);
           break;
@@ -540,6 +526,22 @@ export function useWebSocket(
           handleMessageRead(message.data);
           break;
 
+        case WebSocketMessageType.DELIVERED:
+          eventBus.emit("messages-delivered", message.data);
+          break;
+
+        case WebSocketMessageType.MESSAGE_REACTION:
+          eventBus.emit("message-reaction", message.data);
+          break;
+
+        case WebSocketMessageType.MESSAGE_PIN:
+          eventBus.emit("message-pin", message.data);
+          break;
+
+        case WebSocketMessageType.GROUP_READ:
+          eventBus.emit("group-messages-read", message.data);
+          break;
+
         case WebSocketMessageType.ERROR:
           setError(
             `Error from server: ${message.data.message || "Unknown error"}`
@@ -555,9 +557,10 @@ export function useWebSocket(
 
   // Handle incoming messages from Presence WebSocket
   const handlePresenceMessage = useCallback((event: MessageEvent) => {
-    try {
-      const message = JSON.parse(event.data) as WebSocketMessage;
+    const message = readFrame(event, "presence");
+    if (!message) return;
 
+    try {
       // Process message based on its type
       switch (message.type) {
         case WebSocketMessageType.STATUS:
@@ -655,6 +658,25 @@ export function useWebSocket(
 
     // Emit event for components to react to new messages
     eventBus.emit("new-message", data);
+
+    // Tell the sender their private message reached this client
+    const userId = userIdRef.current;
+    const socket = socketMessagesRef.current;
+    if (
+      !data.group_id &&
+      userId &&
+      String(data.sender_id) !== String(userId) &&
+      socket?.readyState === WebSocket.OPEN
+    ) {
+      try {
+        socket.send(
+          encodeFrame({
+            type: WebSocketMessageType.DELIVERED,
+            data: { message_ids: [data.id], recipient_id: String(userId) },
+          })
+        );
+      } catch (error) {}
+    }
   }, []);
 
   // Handle errors for Messages WebSocket
@@ -683,6 +705,7 @@ export function useWebSocket(
       setIsMessagesConnected(false);
       setIsMessagesConnecting(false);
       updateConnectedState();
+      eventBus.emit("websocket-disconnected", "messages");
 
       // Check for authentication errors based on close code
       if (
@@ -773,11 +796,34 @@ export function useWebSocket(
 
   // Send a message through Messages WebSocket
   const sendMessage = useCallback(
-    (message: WebSocketMessage) => {
-      if (!isMessagesConnected || !socketMessagesRef.current) {
-        // Queue message for when connection is established
+    (message: OutboundFrame) => {
+      // Never queue or send a frame the server would reject
+      const issues = validateOutboundFrame(message);
+      if (issues.length > 0) {
+        eventBus.emit("websocket-protocol-error", {
+          socket: "messages",
+          direction: "outbound",
+          reason: "invalid-data",
+          type: message.type,
+          issues,
+        });
+        return;
+      }
 
-        addToMessageQueue(message);
+      if (!isMessagesConnected || !socketMessagesRef.current) {
+        // Chat messages go to the outbox so they survive a reload
+        if (message.type === WebSocketMessageType.MESSAGE) {
+          const { group_id, recipient_id, content } = message.data;
+          enqueueOutboxMessage({
+            conversation_type: group_id ? "group" : "private",
+            target_id: (group_id || recipient_id)!,
+            sender_id: session?.user?.id,
+            content,
+          });
+        } else {
+          // Queue message for when connection is established
+          addToMessageQueue(message);
+        }
 
         // Try to connect if not already connecting
         if (!isMessagesConnecting && !isMessagesConnected) {
@@ -787,7 +833,7 @@ export function useWebSocket(
       }
 
       try {
-        socketMessagesRef.current.send(JSON.stringify(message));
+        socketMessagesRef.current.send(encodeFrame(message));
       } catch (error) {
         // Add to queue to retry later
         addToMessageQueue(message);
@@ -798,6 +844,7 @@ export function useWebSocket(
       isMessagesConnecting,
       connectMessagesWebSocket,
       addToMessageQueue,
+      session?.user?.id,
     ]
   );
 
@@ -916,11 +963,6 @@ export function useWebSocket(
 
     // Clear message deduplication tracking
     processedMessageIdsRef.current.clear();
-
-    // Clear persisted queue
-    try {
-      localStorage.removeItem("websocket_message_queue");
-    } catch (error) {}
   }, []);
 
   // Subscribe to private messages from a specific user
@@ -936,11 +978,11 @@ export function useWebSocket(
 
       try {
         const subscription = {
-          action: "subscribe",
+          action: "subscribe" as const,
           channel: `private:${userId}`,
         };
 
-        socketMessagesRef.current.send(JSON.stringify(subscription));
+        socketMessagesRef.current.send(encodeFrame(subscription));
 
         // Keep track of active subscriptions for reconnection handling
         if (!activeSubscriptionsRef.current.includes(`private:${userId}`)) {
@@ -967,11 +1009,11 @@ export function useWebSocket(
 
       try {
         const unsubscribeAction = {
-          action: "unsubscribe",
+          action: "unsubscribe" as const,
           channel: `private:${userId}`,
         };
 
-        socketMessagesRef.current.send(JSON.stringify(unsubscribeAction));
+        socketMessagesRef.current.send(encodeFrame(unsubscribeAction));
 
         // Remove from active subscriptions list
         activeSubscriptionsRef.current = activeSubscriptionsRef.current.filter(
@@ -982,14 +1024,21 @@ export function useWebSocket(
     [isMessagesConnected]
   );
 
-  // Restore message queue on component mount
+  // Pick up messages queued by older versions
   useEffect(() => {
-    restoreMessageQueue();
-  }, [restoreMessageQueue]);
+    migrateLegacyQueue();
+  }, [migrateLegacyQueue]);
+
+  // A failed token refresh ends the session
+  useEffect(() => {
+    if (session?.error === "RefreshAccessTokenError") {
+      signOutExpiredSession();
+    }
+  }, [session?.error, signOutExpiredSession]);
 
   // Connect when component mounts if autoConnect is true
   useEffect(() => {
-    if (options.autoConnect && session?.access_token) {
+    if (options.autoConnect && session?.access_token && !session.error) {
       connect();
     }
 
@@ -997,7 +1046,14 @@ export function useWebSocket(
     return () => {
       disconnect();
     };
-  }, [options.autoConnect, session?.access_token, connect, disconnect]);
+  }, [
+    options.autoConnect,
+    session?.access_token,
+    session?.error,
+    authRetryNonce,
+    connect,
+    disconnect,
+  ]);
 
   return {
     // Combined state
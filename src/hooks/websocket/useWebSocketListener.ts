@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback } from "react";
-import { eventBus } from "./useWebSocket";
+import { eventBus } from "./useEventBus";
+import { AppEventName } from "@/types/events";
 
 /**
  * useWebSocketListener Hook - React adaptation of Vue WebSocket listener patterns
@@ -19,7 +20,7 @@ import { eventBus } from "./useWebSocket";
 
 // Event listener configuration
 interface EventListenerConfig {
-  event: string;
+  event: AppEventName;
   handler: (...args: any[]) => void;
   debounceMs?: number; // Debounce time in milliseconds
   condition?: () => boolean; // Conditional listener - only trigger if condition is true
@@ -224,7 +225,7 @@ export function useWebSocketListener(
  * Simplified hook for single event listening
  */
 export function useWebSocketEvent(
-  event: string,
+  event: AppEventName,
   handler: (...args: any[]) => void,
   options?: {
     debounceMs?: number;
@@ -276,7 +277,7 @@ export function useNewMessageListener(
     once?: boolean;
   }
 ) {
-  return useWebSocketEvent("new_message", onNewMessage, {
+  return useWebSocketEvent("new-message", onNewMessage, {
     condition: options?.condition,
     once: options?.once,
   });
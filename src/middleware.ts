@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { getTokenExpiryMs } from "@/utils/tokenExpiry";
 
 export async function middleware(request: NextRequest) {
   // Get token using NextAuth JWT
@@ -9,28 +10,14 @@ export async function middleware(request: NextRequest) {
     secret: process.env.NEXTAUTH_SECRET,
   });
 
-  // Check if token exists and is not expired
-  const now = Math.floor(Date.now() / 1000);
-
-  // Properly check the expiresAt field type before converting to Date
-  let tokenExpiry = 0;
-  if (token?.expiresAt) {
-    if (
-      typeof token.expiresAt === "string" ||
-      token.expiresAt instanceof Date ||
-      typeof token.expiresAt === "number"
-    ) {
-      tokenExpiry = new Date(token.expiresAt).getTime() / 1000;
-    } else {
-      (
-        typeof token.expiresAt
-      );
-    }
-  }
-
-  const isTokenValid = !!token && tokenExpiry > now;
-
-  
+  // An expired access token is fine while a refresh token is available:
+  // the jwt callback rotates it on the next session fetch. A failed refresh
+  // is final and sends the user back to the login page.
+  const tokenExpiry = getTokenExpiryMs(token?.expiresAt) ?? 0;
+  const isTokenValid =
+    !!token &&
+    !token.error &&
+    (tokenExpiry > Date.now() || !!token.refresh_token);
 
   const isAuthPage =
     request.nextUrl.pathname === "/" ||
@@ -0,0 +1,123 @@
+// Event map for the app-wide event bus (hooks/websocket/useEventBus.ts).
+// Every event published on the bus must be listed here with its payload.
+import type {
+  DeliveredData,
+  GroupReadData,
+  MessagePinData,
+  MessageReactionData,
+  NewMessageData,
+  ProtocolDiagnostic,
+} from "@/types/websocket";
+import type { OutboxEntry } from "@/utils/outbox";
+import type { MessageDraft } from "@/utils/drafts";
+
+export type PresenceStatus = "online" | "offline" | "busy" | "away";
+
+export interface TypingStatusEvent {
+  userId: string;
+  recipientId: string;
+  isTyping: boolean;
+}
+
+export interface UserStatusEvent {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen?: string;
+  timestamp?: string;
+  formattedLastSeen?: string | null;
+}
+
+export interface GroupBlockingEvent {
+  group_id: string;
+  user_id: string;
+  blocked_user_id: string;
+  action: "blocked" | "unblocked";
+  timestamp: string;
+}
+
+export type AppEvents = {
+  // Messages WebSocket
+  "new-message": NewMessageData;
+  "messages-read": string[];
+  "messages-delivered": DeliveredData;
+  "typing-status-changed": TypingStatusEvent;
+  "unread-counts-updated": any[];
+  // Presence WebSocket
+  "user-status-changed": UserStatusEvent;
+  "friend-status-changed": { userId: string; status: "online" | "offline" };
+  // Connection state
+  "websocket-connected": "messages" | "presence";
+  "websocket-disconnected": "messages" | "presence";
+  "connection-quality-changed": "excellent" | "good" | "poor" | "disconnected";
+  // A frame failed validation and was dropped
+  "websocket-protocol-error": ProtocolDiagnostic;
+  // Local message lifecycle
+  "message-received": any;
+  "message-sent": any;
+  "message-deleted": {
+    messageId: string;
+    conversationId: string;
+    type: "private" | "group";
+  };
+  "message-edited": {
+    messageId: string;
+    conversationId: string;
+    content: string;
+    type: "private" | "group";
+  };
+  "message-reaction": MessageReactionData;
+  "message-pin": MessagePinData;
+  "group-messages-read": GroupReadData;
+  "retry-failed-message": string;
+  // Offline outbox (utils/outbox.ts)
+  "outbox-updated": OutboxEntry;
+  "outbox-delivered": { entry: OutboxEntry; message: any };
+  // Upload of a queued attachment, 0-100
+  "outbox-upload-progress": { entry: OutboxEntry; progress: number };
+  // Composer drafts (utils/drafts.ts); null once a draft is cleared
+  "draft-updated": { key: string; draft: MessageDraft | null };
+  "temp-message-replaced": { tempId: string; realId: string; content: string };
+  "new-message-received": {
+    messageId: string;
+    senderId: string;
+    senderName: string;
+    content: string;
+    timestamp: string;
+    formattedTimestamp?: string;
+  };
+  "private-message": any;
+  "group-message": any;
+  "refresh-messages": void;
+  "friend-added": void;
+  // Group moderation, as sent by the server and after filtering by
+  // useBlockingListener
+  user_blocked_in_group: GroupBlockingEvent;
+  user_unblocked_in_group: GroupBlockingEvent;
+  "user-blocked-in-group": GroupBlockingEvent;
+  "user-unblocked-in-group": GroupBlockingEvent;
+};
+
+// Old event names still used by some listeners, mapped to the event that
+// replaced them. Using one logs a deprecation warning in development.
+export const LEGACY_EVENT_NAMES = {
+  new_message: "new-message",
+  "message-read": "messages-read",
+  read: "messages-read",
+  user_typing: "typing-status-changed",
+  typing: "typing-status-changed",
+  stop_typing: "typing-status-changed",
+  user_status: "user-status-changed",
+  status: "user-status-changed",
+  unread_count: "unread-counts-updated",
+} as const satisfies Record<string, keyof AppEvents>;
+
+export type LegacyEventName = keyof typeof LEGACY_EVENT_NAMES;
+
+export type AppEventName = keyof AppEvents | LegacyEventName;
+
+// Payload type for an event name, following legacy aliases
+export type AppEventPayload<K extends AppEventName> = K extends LegacyEventName
+  ? AppEvents[(typeof LEGACY_EVENT_NAMES)[K]]
+  : K extends keyof AppEvents
+  ? AppEvents[K]
+  : never;
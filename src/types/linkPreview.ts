@@ -0,0 +1,18 @@
+// Shared types for the /api/link-preview route
+
+export const LINK_PREVIEW_ENDPOINT = "/api/link-preview";
+
+// Open Graph / Twitter card metadata of a web page
+export interface LinkPreview {
+  url: string; // the page's canonical or final URL
+  title: string;
+  description?: string;
+  image?: string;
+  site_name?: string;
+}
+
+// Body of a successful response; `preview` is null when the page has no
+// usable metadata or could not be fetched
+export interface LinkPreviewResponse {
+  preview: LinkPreview | null;
+}
@@ -1,4 +1,5 @@
 // Shared message types for consistency across components
+import type { MessagePinData } from "@/types/websocket";
 
 export interface BaseMessage {
   id: string;
@@ -32,13 +33,54 @@ export interface BaseMessage {
     profile_picture_url?: string;
   };
   attachment?: {
-    type: "image" | "file";
+    type: "image" | "file" | "audio";
     url: string;
     name: string;
     size?: string;
+    placeholder?: string; // low-res preview shown while an image loads
   };
   media_url?: string;
   attachment_url?: string;
+  attachment_placeholder?: string; // data URL of a low-res image preview
+  reactions?: MessageReaction[];
+  reply_to?: string; // id of the message this one answers
+  forwarded?: boolean; // copied from another conversation
+  mentions?: string[]; // user ids mentioned in the content
+}
+
+// What a reply shows of the message it answers
+export interface ReplyPreview {
+  id: string;
+  senderName: string;
+  content: string;
+  isDeleted?: boolean;
+}
+
+// A message pinned to the top of a conversation
+export interface PinnedMessage {
+  message_id: string;
+  sender_id?: string;
+  sender_name?: string;
+  content: string;
+  attachment_url?: string;
+  pinned_by: string; // user id
+  pinned_at: string;
+}
+
+// How far a sent private message has got: accepted by the server,
+// received by the recipient's client, or read
+export type DeliveryStatus = "sent" | "delivered" | "read";
+
+// One group member having read a message
+export interface GroupReadReceipt {
+  user_id: string;
+  read_at: string;
+}
+
+// Everyone who reacted to a message with one emoji
+export interface MessageReaction {
+  emoji: string;
+  users: string[]; // user ids
 }
 
 export interface ConversationMessage extends BaseMessage {
@@ -121,3 +163,238 @@ export const normalizeSingleMessage = (response: any): BaseMessage | null => {
   const messages = normalizeApiResponse<BaseMessage>(response);
   return messages.length > 0 ? messages[0] : null;
 };
+
+// First page of a conversation's history as kept in the query cache.
+// `messages` is always the normalized array; the rest of the API response
+// (pagination, totals) is kept alongside it.
+export interface ConversationHistory<T = any> {
+  messages: T[];
+  total?: number;
+  current_page?: number;
+  pagination?: ApiResponse["pagination"];
+  [key: string]: any;
+}
+
+// A friend or group together with its latest message, used to build the
+// conversations list
+export interface ConversationPreview {
+  id: string;
+  type: "friend" | "group";
+  entity: any; // friend or group as returned by the API
+  lastMessage: any | null;
+}
+
+export const toConversationHistory = <T = any>(
+  response: any
+): ConversationHistory<T> => {
+  // Drop `data` so patches only ever need to touch `messages`
+  const { data, ...rest } =
+    response && !Array.isArray(response) ? response : ({} as any);
+  return { ...rest, messages: normalizeApiResponse<T>(response) };
+};
+
+/**
+ * Aggregate the reactions a message arrives with. The API sends one row per
+ * user (`{ emoji, user_id }`); lists that are already aggregated pass
+ * through.
+ */
+export const normalizeReactions = (raw: unknown): MessageReaction[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.reduce<MessageReaction[]>((reactions, item) => {
+    if (!item || typeof item.emoji !== "string") return reactions;
+
+    const users: string[] = Array.isArray(item.users)
+      ? item.users.map(String)
+      : Array.isArray(item.user_ids)
+      ? item.user_ids.map(String)
+      : item.user_id
+      ? [String(item.user_id)]
+      : [];
+
+    return users.reduce(
+      (acc, userId) => applyReaction(acc, userId, item.emoji, "add"),
+      reactions
+    );
+  }, []);
+};
+
+/**
+ * Add or remove one user's reaction. Applying the same change twice has no
+ * effect, so an optimistic update and its WebSocket echo count once.
+ */
+export const applyReaction = (
+  reactions: MessageReaction[] | undefined,
+  userId: string,
+  emoji: string,
+  action: "add" | "remove"
+): MessageReaction[] => {
+  const current = reactions || [];
+  const existing = current.find((reaction) => reaction.emoji === emoji);
+
+  if (action === "add") {
+    if (existing?.users.includes(userId)) return current;
+    return existing
+      ? current.map((reaction) =>
+          reaction === existing
+            ? { ...reaction, users: [...reaction.users, userId] }
+            : reaction
+        )
+      : [...current, { emoji, users: [userId] }];
+  }
+
+  if (!existing?.users.includes(userId)) return current;
+  return current
+    .map((reaction) =>
+      reaction === existing
+        ? { ...reaction, users: reaction.users.filter((id) => id !== userId) }
+        : reaction
+    )
+    .filter((reaction) => reaction.users.length > 0);
+};
+
+const byNewestPin = (a: PinnedMessage, b: PinnedMessage) =>
+  b.pinned_at.localeCompare(a.pinned_at);
+
+/**
+ * Read the pins of a conversation, newest first. Rows may carry the pinned
+ * message flat or nested under `message`.
+ */
+export const normalizePinnedMessages = (response: any): PinnedMessage[] =>
+  normalizeApiResponse<any>(
+    Array.isArray(response?.pins) ? response.pins : response
+  )
+    .filter((row) => row && (row.message_id || row.message?.id))
+    .map((row) => {
+      const message = row.message || row;
+      return {
+        message_id: String(row.message_id || message.id),
+        sender_id: message.sender_id,
+        sender_name: message.sender_name || message.sender?.name,
+        content: message.content || "",
+        attachment_url: message.attachment_url,
+        pinned_by: String(row.pinned_by || row.user_id || ""),
+        pinned_at: row.pinned_at || row.created_at || new Date().toISOString(),
+      };
+    })
+    .sort(byNewestPin);
+
+/**
+ * Apply a pin or unpin event. Like applyReaction it is idempotent, so an
+ * optimistic update and its WebSocket echo count once.
+ */
+export const applyPin = (
+  pins: PinnedMessage[] | undefined,
+  data: MessagePinData
+): PinnedMessage[] => {
+  const current = pins || [];
+  const isPinned = current.some((pin) => pin.message_id === data.message_id);
+
+  if (data.action === "unpin") {
+    return isPinned
+      ? current.filter((pin) => pin.message_id !== data.message_id)
+      : current;
+  }
+
+  if (isPinned) return current;
+  return [
+    {
+      message_id: data.message_id,
+      sender_id: data.message?.sender_id,
+      sender_name: data.message?.sender_name,
+      content: data.message?.content || "",
+      attachment_url: data.message?.attachment_url,
+      pinned_by: data.user_id,
+      pinned_at: data.pinned_at || new Date().toISOString(),
+    },
+    ...current,
+  ].sort(byNewestPin);
+};
+
+/**
+ * Read the per-member receipts of a group message. Rows may name the
+ * reader as `user_id` or nest it under `user`.
+ */
+export const normalizeReadReceipts = (response: any): GroupReadReceipt[] => {
+  const rows = Array.isArray(response?.reads)
+    ? response.reads
+    : Array.isArray(response?.read_by)
+    ? response.read_by
+    : normalizeApiResponse<any>(response);
+
+  return rows
+    .filter((row: any) => row && (row.user_id || row.user?.id))
+    .map((row: any) => ({
+      user_id: String(row.user_id || row.user.id),
+      read_at: row.read_at || row.created_at || new Date().toISOString(),
+    }));
+};
+
+/**
+ * Record that a member read a message. The first read wins, so replays
+ * and the echo of our own acknowledgement change nothing.
+ */
+export const applyGroupRead = (
+  receipts: GroupReadReceipt[] | undefined,
+  userId: string,
+  readAt: string
+): GroupReadReceipt[] => {
+  const current = receipts || [];
+  if (current.some((receipt) => receipt.user_id === userId)) return current;
+  return [...current, { user_id: userId, read_at: readAt }];
+};
+
+/**
+ * Combine receipts from two sources, keeping each member's earliest read
+ */
+export const mergeReadReceipts = (
+  a: GroupReadReceipt[] | undefined,
+  b: GroupReadReceipt[] | undefined
+): GroupReadReceipt[] => {
+  const byUser = new Map<string, GroupReadReceipt>();
+  [...(a || []), ...(b || [])].forEach((receipt) => {
+    const existing = byUser.get(receipt.user_id);
+    if (!existing || receipt.read_at < existing.read_at) {
+      byUser.set(receipt.user_id, receipt);
+    }
+  });
+  return Array.from(byUser.values());
+};
+
+const DELIVERY_ORDER: DeliveryStatus[] = ["sent", "delivered", "read"];
+
+/**
+ * The later of two delivery statuses. Acknowledgements can arrive out of
+ * order or be replayed, so a status never moves backwards.
+ */
+export const advanceDeliveryStatus = (
+  current: DeliveryStatus | undefined,
+  next: DeliveryStatus
+): DeliveryStatus =>
+  current && DELIVERY_ORDER.indexOf(current) > DELIVERY_ORDER.indexOf(next)
+    ? current
+    : next;
+
+// Fields the API may use to report how far a message got
+type DeliveryFields = Partial<
+  Pick<BaseMessage, "delivered_at" | "read" | "is_read">
+> & {
+  delivery_status?: string;
+  read_at?: string;
+  delivered?: boolean;
+};
+
+const isDeliveryStatus = (value: unknown): value is DeliveryStatus =>
+  DELIVERY_ORDER.includes(value as DeliveryStatus);
+
+/**
+ * Delivery status of a message as reported by the API
+ */
+export const deliveryStatusOf = (message: DeliveryFields): DeliveryStatus => {
+  if (isDeliveryStatus(message.delivery_status)) {
+    return message.delivery_status;
+  }
+  if (message.read || message.is_read || message.read_at) return "read";
+  if (message.delivered || message.delivered_at) return "delivered";
+  return "sent";
+};
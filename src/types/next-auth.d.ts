@@ -8,6 +8,8 @@ declare module "next-auth" {
   interface Session {
     access_token?: string;
     expiresAt?: string;
+    // Set when the access token could not be refreshed; sign the user out
+    error?: "RefreshAccessTokenError";
     user: {
       id?: string;
       name?: string;
@@ -17,20 +19,25 @@ declare module "next-auth" {
   }
 
   /**
-   * Extending the built-in JWT type
+   * Extending the built-in User type
    */
-  interface JWT {
+  interface User extends DefaultUser {
     access_token?: string;
+    refresh_token?: string;
     expiresAt?: string;
-    id?: string;
+    id: string;
   }
+}
 
+declare module "next-auth/jwt" {
   /**
-   * Extending the built-in User type
+   * Extending the built-in JWT type
    */
-  interface User extends DefaultUser {
+  interface JWT {
     access_token?: string;
+    refresh_token?: string;
     expiresAt?: string;
-    id: string;
+    error?: "RefreshAccessTokenError";
+    id?: string;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+// Shared types for responses produced by the /api/proxy route itself
+
+// Request header: the client can render placeholder data for failed reads.
+// Response header: the body is a ProxyFallbackEnvelope, not upstream data.
+export const PROXY_FALLBACK_HEADER = "X-Proxy-Fallback";
+
+export type ProxyErrorCode =
+  | "UPSTREAM_ERROR" // backend answered with an error status
+  | "UPSTREAM_UNREACHABLE" // backend could not be reached
+  | "UPSTREAM_TIMEOUT" // backend did not answer in time
+  | "RATE_LIMITED"; // request budget spent, see the Retry-After header
+
+export interface ProxyError {
+  code: ProxyErrorCode;
+  message: string;
+  service: string;
+  route: string;
+  status?: number;
+}
+
+// Body of a failed request on a route that has a fallback
+export interface ProxyErrorEnvelope {
+  success: false;
+  message: string; // same as error.message, for callers reading `message`
+  error: ProxyError;
+}
+
+// Body sent with HTTP 200 to clients that opted in to fallbacks
+export interface ProxyFallbackEnvelope<T = any> extends ProxyErrorEnvelope {
+  fallback: true;
+  data: T;
+}
+
+// Helper to detect degraded-mode responses
+export const isProxyFallbackResponse = (response: Response): boolean => {
+  return response.headers.get(PROXY_FALLBACK_HEADER) === "true";
+};
+
+// Helper to read the proxy error envelope from a failed response, if any
+export const readProxyError = async (
+  response: Response
+): Promise<ProxyError | null> => {
+  try {
+    const body = await response.clone().json();
+    return body?.error && typeof body.error.code === "string"
+      ? (body.error as ProxyError)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Whether an error means the backend service itself is down. The proxy
+// only reports UPSTREAM_ERROR for 5xx answers on degradable routes
+export const isServiceUnavailableError = (error: ProxyError | null) => {
+  return (
+    error?.code === "UPSTREAM_UNREACHABLE" ||
+    error?.code === "UPSTREAM_TIMEOUT" ||
+    error?.code === "UPSTREAM_ERROR"
+  );
+};
@@ -0,0 +1,61 @@
+// Types for the backend's scheduled messages (messages/scheduled).
+// The backend owns the schedule and sends each message when it is due, so
+// it goes out even when the sender's tab is closed.
+
+export type ScheduledConversationType = "private" | "group";
+
+export type ScheduledMessageStatus =
+  | "scheduled" // waiting for send_at
+  | "sending" // being sent by the backend
+  | "failed"; // gave up; the sender can edit it to try again
+
+export interface ScheduledMessage {
+  id: string;
+  conversation_type: ScheduledConversationType;
+  target_id: string; // friend or group id
+  content: string;
+  mentions?: string[];
+  reply_to?: string;
+  send_at: string; // ISO timestamp
+  created_at: string;
+  updated_at: string;
+  status: ScheduledMessageStatus;
+  last_error?: string;
+}
+
+export interface CreateScheduledMessageRequest {
+  conversation_type: ScheduledConversationType;
+  target_id: string;
+  content: string;
+  send_at: string;
+  mentions?: string[];
+  reply_to?: string;
+}
+
+export type UpdateScheduledMessageRequest = Partial<
+  Pick<ScheduledMessage, "content" | "send_at" | "mentions">
+>;
+
+export const MAX_SCHEDULED_CONTENT_LENGTH = 4000;
+
+// Schedules must be at least this far ahead, and at most a year out
+export const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+export const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Why a send time can't be used, or null when it is fine
+ */
+export const validateSendAt = (
+  sendAt: string,
+  now: number = Date.now()
+): string | null => {
+  const time = Date.parse(sendAt);
+  if (Number.isNaN(time)) return "Pick a valid date and time";
+  if (time < now + MIN_SCHEDULE_LEAD_MS) {
+    return "Pick a time at least a minute from now";
+  }
+  if (time > now + MAX_SCHEDULE_AHEAD_MS) {
+    return "Messages can be scheduled up to a year ahead";
+  }
+  return null;
+};
@@ -0,0 +1,410 @@
+// WebSocket protocol schema for the messages and presence sockets.
+// Every frame is `{ v, type, data }`. Inbound frames are validated with
+// decodeFrame before any handler sees them; outbound frames go through
+// encodeFrame so a bad payload never reaches the server.
+
+// Bump when a frame changes shape in a way older clients can't read
+export const WS_PROTOCOL_VERSION = 1;
+
+// Frame types that can be sent/received via WebSocket
+export enum WebSocketMessageType {
+  MESSAGE = "message",
+  TYPING = "typing",
+  STOP_TYPING = "stop_typing",
+  STATUS = "status",
+  READ = "read",
+  DELIVERED = "delivered",
+  UNREAD_COUNT = "unread_count",
+  MESSAGE_REACTION = "message_reaction",
+  MESSAGE_PIN = "message_pin",
+  GROUP_READ = "group_read",
+  ERROR = "error",
+}
+
+export type WebSocketSocketName = "messages" | "presence";
+
+// Inbound payloads
+
+export interface NewMessageData {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  group_id?: string;
+  temp_id?: string; // echoed back for messages sent from the outbox
+  reply_to?: string;
+  forwarded?: boolean;
+  mentions?: string[];
+  content: string;
+  type: string;
+  read: boolean;
+  created_at: string;
+  updated_at: string;
+  media_url?: string;
+  sender?: {
+    id: string;
+    name: string;
+    profile_picture_url?: string;
+  };
+}
+
+export interface UserStatusData {
+  user_id: string;
+  status: "online" | "offline" | "busy" | "away";
+  last_seen?: string;
+}
+
+export interface TypingData {
+  user_id: string;
+  recipient_id: string;
+  is_typing: boolean;
+}
+
+export interface ReadData {
+  message_ids: string[];
+}
+
+// Private messages reached the recipient's socket. The recipient's client
+// sends it as an acknowledgement; the server relays it to the sender.
+export interface DeliveredData {
+  message_ids: string[];
+  recipient_id?: string;
+  delivered_at?: string;
+}
+
+export interface UnreadCountData {
+  unreadCounts: any[];
+}
+
+export interface MessageReactionData {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  action?: "add" | "remove";
+}
+
+export interface MessagePinData {
+  message_id: string;
+  user_id: string; // who pinned or unpinned it
+  action: "pin" | "unpin";
+  group_id?: string;
+  recipient_id?: string; // the other participant of a private chat
+  pinned_at?: string;
+  message?: {
+    sender_id?: string;
+    sender_name?: string;
+    content?: string;
+    attachment_url?: string;
+  };
+}
+
+// A group member read messages; one frame per acknowledgement batch
+export interface GroupReadData {
+  group_id: string;
+  user_id: string;
+  message_ids: string[];
+  read_at?: string;
+}
+
+export interface ErrorData {
+  message?: string;
+  code?: string;
+}
+
+// Outbound payloads
+
+export interface SendMessageData {
+  recipient_id?: string;
+  group_id?: string;
+  content: string;
+  reply_to?: string;
+  mentions?: string[];
+}
+
+export interface SendReactionData {
+  message_id: string;
+  emoji: string;
+  action?: "add" | "remove";
+}
+
+type Frame<T extends WebSocketMessageType, D> = {
+  v: number;
+  type: T;
+  data: D;
+};
+
+export type InboundFrame =
+  | Frame<WebSocketMessageType.MESSAGE, NewMessageData>
+  | Frame<WebSocketMessageType.TYPING, TypingData>
+  | Frame<WebSocketMessageType.STOP_TYPING, TypingData>
+  | Frame<WebSocketMessageType.STATUS, UserStatusData>
+  | Frame<WebSocketMessageType.READ, ReadData>
+  | Frame<WebSocketMessageType.DELIVERED, DeliveredData>
+  | Frame<WebSocketMessageType.UNREAD_COUNT, UnreadCountData>
+  | Frame<WebSocketMessageType.MESSAGE_REACTION, MessageReactionData>
+  | Frame<WebSocketMessageType.MESSAGE_PIN, MessagePinData>
+  | Frame<WebSocketMessageType.GROUP_READ, GroupReadData>
+  | Frame<WebSocketMessageType.ERROR, ErrorData>;
+
+// Outbound frames are built without `v`; encodeFrame stamps it
+export type OutboundFrame =
+  | Omit<Frame<WebSocketMessageType.MESSAGE, SendMessageData>, "v">
+  | Omit<Frame<WebSocketMessageType.TYPING, TypingData>, "v">
+  | Omit<Frame<WebSocketMessageType.STOP_TYPING, TypingData>, "v">
+  | Omit<Frame<WebSocketMessageType.READ, ReadData>, "v">
+  | Omit<Frame<WebSocketMessageType.DELIVERED, DeliveredData>, "v">
+  | Omit<Frame<WebSocketMessageType.MESSAGE_REACTION, SendReactionData>, "v">;
+
+// Channel subscriptions are control frames outside the typed protocol
+export interface SubscriptionFrame {
+  v: number;
+  action: "subscribe" | "unsubscribe";
+  channel: string;
+}
+
+// Payload of the websocket-protocol-error event
+export interface ProtocolDiagnostic {
+  socket: WebSocketSocketName;
+  direction: "inbound" | "outbound";
+  reason:
+    "invalid-json" | "unknown-type" | "unsupported-version" | "invalid-data";
+  type?: string;
+  issues: string[];
+  raw?: string; // truncated frame, for debugging
+}
+
+// Field rules, checked against the frame's `data` object
+
+type FieldRule = {
+  type: "string" | "number" | "boolean" | "object" | "string[]" | "array";
+  optional?: boolean;
+  oneOf?: readonly string[];
+};
+
+type DataSchema = Record<string, FieldRule>;
+
+const TYPING_SCHEMA: DataSchema = {
+  user_id: { type: "string" },
+  recipient_id: { type: "string" },
+  is_typing: { type: "boolean", optional: true },
+};
+
+const READ_SCHEMA: DataSchema = {
+  message_ids: { type: "string[]" },
+};
+
+const DELIVERED_SCHEMA: DataSchema = {
+  message_ids: { type: "string[]" },
+  recipient_id: { type: "string", optional: true },
+  delivered_at: { type: "string", optional: true },
+};
+
+const REACTION_ACTIONS = ["add", "remove"] as const;
+
+const INBOUND_SCHEMAS: Record<WebSocketMessageType, DataSchema> = {
+  [WebSocketMessageType.MESSAGE]: {
+    id: { type: "string" },
+    sender_id: { type: "string" },
+    recipient_id: { type: "string", optional: true },
+    group_id: { type: "string", optional: true },
+    temp_id: { type: "string", optional: true },
+    reply_to: { type: "string", optional: true },
+    forwarded: { type: "boolean", optional: true },
+    mentions: { type: "string[]", optional: true },
+    content: { type: "string" },
+    created_at: { type: "string", optional: true },
+    sender: { type: "object", optional: true },
+  },
+  [WebSocketMessageType.TYPING]: TYPING_SCHEMA,
+  [WebSocketMessageType.STOP_TYPING]: TYPING_SCHEMA,
+  [WebSocketMessageType.STATUS]: {
+    user_id: { type: "string" },
+    status: { type: "string", oneOf: ["online", "offline", "busy", "away"] },
+    last_seen: { type: "string", optional: true },
+  },
+  [WebSocketMessageType.READ]: READ_SCHEMA,
+  [WebSocketMessageType.DELIVERED]: DELIVERED_SCHEMA,
+  [WebSocketMessageType.UNREAD_COUNT]: {
+    unreadCounts: { type: "array" },
+  },
+  [WebSocketMessageType.MESSAGE_REACTION]: {
+    message_id: { type: "string" },
+    user_id: { type: "string" },
+    emoji: { type: "string" },
+    action: { type: "string", optional: true, oneOf: REACTION_ACTIONS },
+  },
+  [WebSocketMessageType.MESSAGE_PIN]: {
+    message_id: { type: "string" },
+    user_id: { type: "string" },
+    action: { type: "string", oneOf: ["pin", "unpin"] },
+    group_id: { type: "string", optional: true },
+    recipient_id: { type: "string", optional: true },
+    pinned_at: { type: "string", optional: true },
+    message: { type: "object", optional: true },
+  },
+  [WebSocketMessageType.GROUP_READ]: {
+    group_id: { type: "string" },
+    user_id: { type: "string" },
+    message_ids: { type: "string[]" },
+    read_at: { type: "string", optional: true },
+  },
+  [WebSocketMessageType.ERROR]: {
+    message: { type: "string", optional: true },
+    code: { type: "string", optional: true },
+  },
+};
+
+const OUTBOUND_SCHEMAS: Partial<Record<WebSocketMessageType, DataSchema>> = {
+  [WebSocketMessageType.MESSAGE]: {
+    recipient_id: { type: "string", optional: true },
+    group_id: { type: "string", optional: true },
+    content: { type: "string" },
+    reply_to: { type: "string", optional: true },
+    mentions: { type: "string[]", optional: true },
+  },
+  [WebSocketMessageType.TYPING]: TYPING_SCHEMA,
+  [WebSocketMessageType.STOP_TYPING]: TYPING_SCHEMA,
+  [WebSocketMessageType.READ]: READ_SCHEMA,
+  [WebSocketMessageType.DELIVERED]: DELIVERED_SCHEMA,
+  [WebSocketMessageType.MESSAGE_REACTION]: {
+    message_id: { type: "string" },
+    emoji: { type: "string" },
+    action: { type: "string", optional: true, oneOf: REACTION_ACTIONS },
+  },
+};
+
+const MAX_RAW_LENGTH = 500;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkField = (name: string, rule: FieldRule, value: unknown) => {
+  if (value === undefined || value === null) {
+    return rule.optional ? null : `${name} is required`;
+  }
+
+  let valid: boolean;
+  switch (rule.type) {
+    case "object":
+      valid = isPlainObject(value);
+      break;
+    case "array":
+      valid = Array.isArray(value);
+      break;
+    case "string[]":
+      valid =
+        Array.isArray(value) && value.every((item) => typeof item === "string");
+      break;
+    default:
+      valid = typeof value === rule.type;
+  }
+  if (!valid) return `${name} must be ${rule.type}`;
+
+  if (rule.oneOf && !rule.oneOf.includes(value as string)) {
+    return `${name} must be one of ${rule.oneOf.join(", ")}`;
+  }
+  return null;
+};
+
+const checkData = (schema: DataSchema, data: unknown): string[] => {
+  if (!isPlainObject(data)) return ["data must be an object"];
+
+  return Object.entries(schema)
+    .map(([name, rule]) => checkField(name, rule, data[name]))
+    .filter((issue): issue is string => issue !== null);
+};
+
+const isFrameType = (type: unknown): type is WebSocketMessageType =>
+  Object.values(WebSocketMessageType).includes(type as WebSocketMessageType);
+
+export type DecodeResult =
+  | { ok: true; frame: InboundFrame }
+  | { ok: false; diagnostic: ProtocolDiagnostic };
+
+/**
+ * Parse and validate a frame received on one of the sockets.
+ * Frames without `v` come from servers that predate versioning and are
+ * read as version 1.
+ */
+export const decodeFrame = (
+  raw: string,
+  socket: WebSocketSocketName
+): DecodeResult => {
+  const fail = (
+    reason: ProtocolDiagnostic["reason"],
+    issues: string[],
+    type?: string
+  ): DecodeResult => ({
+    ok: false,
+    diagnostic: {
+      socket,
+      direction: "inbound",
+      reason,
+      type,
+      issues,
+      raw: typeof raw === "string" ? raw.slice(0, MAX_RAW_LENGTH) : undefined,
+    },
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return fail("invalid-json", ["frame is not valid JSON"]);
+  }
+
+  if (!isPlainObject(parsed)) {
+    return fail("invalid-json", ["frame must be an object"]);
+  }
+
+  const version = parsed.v ?? 1;
+  if (typeof version !== "number" || version > WS_PROTOCOL_VERSION) {
+    return fail(
+      "unsupported-version",
+      [`protocol version ${String(version)} is not supported`],
+      String(parsed.type)
+    );
+  }
+
+  if (!isFrameType(parsed.type)) {
+    return fail(
+      "unknown-type",
+      [`unknown frame type ${String(parsed.type)}`],
+      String(parsed.type)
+    );
+  }
+
+  const issues = checkData(INBOUND_SCHEMAS[parsed.type], parsed.data);
+  if (issues.length > 0) {
+    return fail("invalid-data", issues, parsed.type);
+  }
+
+  return {
+    ok: true,
+    frame: { ...parsed, v: version } as InboundFrame,
+  };
+};
+
+/**
+ * Validate an outbound frame. Returns the issues found, empty when valid.
+ */
+export const validateOutboundFrame = (frame: OutboundFrame): string[] => {
+  const schema = isPlainObject(frame) ? OUTBOUND_SCHEMAS[frame.type] : null;
+  if (!schema) return [`unknown frame type ${String(frame?.type)}`];
+
+  const issues = checkData(schema, frame.data);
+  if (
+    frame.type === WebSocketMessageType.MESSAGE &&
+    !frame.data.recipient_id &&
+    !frame.data.group_id
+  ) {
+    issues.push("recipient_id or group_id is required");
+  }
+  return issues;
+};
+
+/**
+ * Stamp the protocol version on an outbound frame and serialize it
+ */
+export const encodeFrame = (
+  frame: OutboundFrame | Omit<SubscriptionFrame, "v">
+) => JSON.stringify({ v: WS_PROTOCOL_VERSION, ...frame });
@@ -0,0 +1,530 @@
+/**
+ * API Client
+ * Single entry point for talking to the backend through /api/proxy. Every
+ * data hook goes through it, so auth headers, timeouts, retries, error
+ * parsing and response unwrapping behave the same everywhere.
+ *
+ * - Auth: sends the session access token; on a 401 the session is refetched
+ *   once (which rotates the token) and the request is replayed
+ * - Retry: short Retry-After waits on 429, plus one retry of GET/HEAD
+ *   requests on network failures and 502/503/504
+ * - Abort: per-request timeout combined with the caller's AbortSignal
+ * - Errors: every failure is thrown as an ApiError
+ */
+
+import type { Session } from "next-auth";
+import { getSession } from "next-auth/react";
+import { normalizeApiResponse } from "@/types/messages";
+import {
+  PROXY_FALLBACK_HEADER,
+  isProxyFallbackResponse,
+  isServiceUnavailableError,
+  type ProxyError,
+  type ProxyFallbackEnvelope,
+} from "@/types/proxy";
+import { fetchWithRetryAfter } from "@/utils/retryAfter";
+import { getTokenExpiryMs } from "@/utils/tokenExpiry";
+
+export const API_BASE_URL = "/api/proxy";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_IDEMPOTENT_RETRIES = 1;
+const RETRY_DELAY_MS = 500;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+export type ApiErrorCode =
+  | "HTTP_ERROR" // any other non-2xx answer
+  | "UNAUTHORIZED" // 401 after a session refresh
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "SERVICE_UNAVAILABLE" // the backend service is unreachable or failing
+  | "TIMEOUT"
+  | "ABORTED" // cancelled by the caller's signal
+  | "NETWORK_ERROR";
+
+interface ApiErrorInit {
+  message: string;
+  code: ApiErrorCode;
+  endpoint: string;
+  status?: number;
+  details?: unknown;
+  proxyError?: ProxyError | null;
+}
+
+/**
+ * Error thrown by the API client for every failed request
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly endpoint: string;
+  readonly status: number; // 0 when no response was received
+  readonly details?: unknown; // parsed error body, if any
+  readonly proxyError: ProxyError | null;
+
+  constructor({
+    message,
+    code,
+    endpoint,
+    status = 0,
+    details,
+    proxyError = null,
+  }: ApiErrorInit) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.details = details;
+    this.proxyError = proxyError;
+  }
+
+  get isServiceUnavailable() {
+    return this.code === "SERVICE_UNAVAILABLE";
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+export type ApiResponseType = "json" | "text" | "blob" | "raw";
+
+export type ApiQuery = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+export interface ApiRequestOptions extends Omit<RequestInit, "body"> {
+  // Plain objects and arrays are sent as JSON; FormData, Blob, strings
+  // and streams are passed through untouched
+  body?: unknown;
+  query?: ApiQuery;
+  timeoutMs?: number; // 0 disables the timeout
+  retries?: number; // defaults to 1 for GET/HEAD, 0 otherwise
+  responseType?: ApiResponseType; // "raw" returns the Response itself
+}
+
+export interface ApiClientConfig {
+  baseUrl?: string;
+  getAccessToken?: () => string | null | undefined;
+  // Ask the proxy for placeholder data instead of errors on failed reads
+  acceptFallback?: boolean;
+  // Called with true on fallback data or an unreachable service, false on
+  // any successful response
+  onServiceStatusChange?: (unavailable: boolean) => void;
+  timeoutMs?: number;
+}
+
+// Session refetch in flight, shared by every client so a burst of 401s
+// triggers one token rotation instead of one per request
+let sessionRefresh: Promise<Session | null> | null = null;
+
+const refetchSession = () => {
+  if (!sessionRefresh) {
+    sessionRefresh = getSession().finally(() => {
+      sessionRefresh = null;
+    });
+  }
+  return sessionRefresh;
+};
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isJsonBody = (body: unknown) =>
+  body !== null &&
+  typeof body === "object" &&
+  !(body instanceof FormData) &&
+  !(body instanceof Blob) &&
+  !(body instanceof URLSearchParams) &&
+  !(body instanceof ArrayBuffer) &&
+  !(body instanceof ReadableStream);
+
+const readErrorMessage = (data: any, text: string, status: number) => {
+  if (typeof data?.message === "string" && data.message) return data.message;
+  if (typeof data?.error === "string" && data.error) return data.error;
+  if (typeof data?.error?.message === "string") return data.error.message;
+  return text || `API error: ${status}`;
+};
+
+const errorCodeForStatus = (
+  status: number,
+  proxyError: ProxyError | null
+): ApiErrorCode => {
+  if (isServiceUnavailableError(proxyError)) return "SERVICE_UNAVAILABLE";
+  if (status === 401) return "UNAUTHORIZED";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 429) return "RATE_LIMITED";
+  return "HTTP_ERROR";
+};
+
+export class ApiClient {
+  private readonly config: ApiClientConfig;
+  // Token obtained by a session refresh, newer than getAccessToken's until
+  // that one changes or the refreshed token expires
+  private refreshed: {
+    token: string;
+    replaces: string | null;
+    expiresAt: number;
+  } | null = null;
+
+  constructor(config: ApiClientConfig = {}) {
+    this.config = config;
+  }
+
+  get<T = any>(endpoint: string, options: ApiRequestOptions = {}) {
+    return this.request<T>(endpoint, { ...options, method: "GET" });
+  }
+
+  post<T = any>(
+    endpoint: string,
+    body?: unknown,
+    options: ApiRequestOptions = {}
+  ) {
+    return this.request<T>(endpoint, { ...options, method: "POST", body });
+  }
+
+  put<T = any>(
+    endpoint: string,
+    body?: unknown,
+    options: ApiRequestOptions = {}
+  ) {
+    return this.request<T>(endpoint, { ...options, method: "PUT", body });
+  }
+
+  patch<T = any>(
+    endpoint: string,
+    body?: unknown,
+    options: ApiRequestOptions = {}
+  ) {
+    return this.request<T>(endpoint, { ...options, method: "PATCH", body });
+  }
+
+  delete<T = any>(endpoint: string, options: ApiRequestOptions = {}) {
+    return this.request<T>(endpoint, { ...options, method: "DELETE" });
+  }
+
+  /**
+   * GET a collection and normalize the array/data/messages shapes
+   */
+  async getList<T = any>(
+    endpoint: string,
+    options: ApiRequestOptions = {}
+  ): Promise<T[]> {
+    const response = await this.get(endpoint, options);
+    return normalizeApiResponse<T>(response);
+  }
+
+  /**
+   * Build the proxy URL for an endpoint ("messages", "/messages?x=1", ...)
+   */
+  buildUrl(endpoint: string, query?: ApiQuery) {
+    const baseUrl = this.config.baseUrl ?? API_BASE_URL;
+    const path = endpoint.replace(/^\/+/, "");
+    let url = path ? `${baseUrl}/${path}` : baseUrl;
+
+    if (query) {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value));
+        }
+      });
+      const queryString = params.toString();
+      if (queryString) {
+        url += `${url.includes("?") ? "&" : "?"}${queryString}`;
+      }
+    }
+
+    return url;
+  }
+
+  async request<T = any>(
+    endpoint: string,
+    options: ApiRequestOptions = {}
+  ): Promise<T> {
+    const {
+      body,
+      query,
+      timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      retries,
+      responseType = "json",
+      signal,
+      headers,
+      ...init
+    } = options;
+
+    const method = (init.method || "GET").toUpperCase();
+    const url = this.buildUrl(endpoint, query);
+    const replayable = !(body instanceof ReadableStream);
+    const maxRetries = !replayable
+      ? 0
+      : (retries ??
+        (method === "GET" || method === "HEAD"
+          ? DEFAULT_IDEMPOTENT_RETRIES
+          : 0));
+
+    let sessionRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+
+      try {
+        response = await this.send(url, {
+          ...init,
+          method,
+          body,
+          headers,
+          signal,
+          timeoutMs,
+        });
+      } catch (error) {
+        const apiError = this.toRequestError(error, endpoint);
+        if (apiError.code === "NETWORK_ERROR" && attempt < maxRetries) {
+          await delay(RETRY_DELAY_MS * (attempt + 1));
+          continue;
+        }
+        throw apiError;
+      }
+
+      // Stale access token: refetch the session (rotating the token) once
+      if (response.status === 401 && !sessionRefreshed && replayable) {
+        sessionRefreshed = true;
+        if (await this.refreshSession()) {
+          continue;
+        }
+      }
+
+      if (
+        RETRYABLE_STATUSES.has(response.status) &&
+        attempt < maxRetries &&
+        !isProxyFallbackResponse(response)
+      ) {
+        await delay(RETRY_DELAY_MS * (attempt + 1));
+        continue;
+      }
+
+      return this.handleResponse<T>(response, endpoint, responseType);
+    }
+  }
+
+  private getToken() {
+    const sessionToken = this.config.getAccessToken?.() || null;
+    if (
+      this.refreshed &&
+      (sessionToken !== this.refreshed.replaces ||
+        Date.now() >= this.refreshed.expiresAt)
+    ) {
+      this.refreshed = null;
+    }
+    return this.refreshed?.token || sessionToken;
+  }
+
+  private async refreshSession() {
+    try {
+      const session = await refetchSession();
+      if (!session?.access_token || session.error) {
+        return false;
+      }
+      this.refreshed = {
+        token: session.access_token,
+        replaces: this.config.getAccessToken?.() || null,
+        expiresAt: getTokenExpiryMs(session.expiresAt) ?? Infinity,
+      };
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async send(
+    url: string,
+    {
+      body,
+      headers,
+      signal,
+      timeoutMs,
+      ...init
+    }: Omit<ApiRequestOptions, "query" | "retries" | "responseType">
+  ) {
+    const requestHeaders = new Headers(headers);
+    if (!requestHeaders.has("Accept")) {
+      requestHeaders.set("Accept", "application/json");
+    }
+
+    const token = this.getToken();
+    if (token && !requestHeaders.has("Authorization")) {
+      requestHeaders.set("Authorization", `Bearer ${token}`);
+    }
+
+    if (this.config.acceptFallback) {
+      requestHeaders.set(PROXY_FALLBACK_HEADER, "true");
+    }
+
+    let requestBody: BodyInit | undefined;
+    if (isJsonBody(body)) {
+      requestHeaders.set("Content-Type", "application/json");
+      requestBody = JSON.stringify(body);
+    } else if (body !== undefined && body !== null) {
+      // Let the browser set the multipart boundary for FormData
+      if (body instanceof FormData) {
+        requestHeaders.delete("Content-Type");
+      } else if (!requestHeaders.has("Content-Type")) {
+        requestHeaders.set("Content-Type", "application/json");
+      }
+      requestBody = body as BodyInit;
+    }
+
+    // Combine the timeout with the caller's signal
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const timeoutId = timeoutMs
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new DOMException("Request timed out", "TimeoutError")
+            ),
+          timeoutMs
+        )
+      : undefined;
+
+    try {
+      return await fetchWithRetryAfter(url, {
+        credentials: "include",
+        ...init,
+        headers: requestHeaders,
+        body: requestBody,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private toRequestError(error: unknown, endpoint: string): ApiError {
+    if (error instanceof ApiError) return error;
+
+    const name = (error as any)?.name;
+    const reason = (error as any)?.cause ?? error;
+
+    if (name === "TimeoutError" || reason?.name === "TimeoutError") {
+      return new ApiError({
+        message: `Request timeout: ${endpoint}`,
+        code: "TIMEOUT",
+        endpoint,
+      });
+    }
+
+    if (name === "AbortError") {
+      return new ApiError({
+        message: `Request aborted: ${endpoint}`,
+        code: "ABORTED",
+        endpoint,
+      });
+    }
+
+    return new ApiError({
+      message: `Network error: ${endpoint}`,
+      code: "NETWORK_ERROR",
+      endpoint,
+      details: error,
+    });
+  }
+
+  private async handleResponse<T>(
+    response: Response,
+    endpoint: string,
+    responseType: ApiResponseType
+  ): Promise<T> {
+    // Degraded mode - return the placeholder but flag the outage
+    if (isProxyFallbackResponse(response)) {
+      const envelope: ProxyFallbackEnvelope<T> = await response.json();
+      this.config.onServiceStatusChange?.(true);
+
+      // Placeholder JSON can't stand in for a Response or a file
+      if (responseType === "raw" || responseType === "blob") {
+        throw new ApiError({
+          message: envelope.message || "Service temporarily unavailable",
+          code: "SERVICE_UNAVAILABLE",
+          endpoint,
+          status: envelope.error?.status ?? 503,
+          details: envelope,
+          proxyError: envelope.error,
+        });
+      }
+      return envelope.data;
+    }
+
+    if (!response.ok) {
+      const error = await this.toHttpError(response, endpoint);
+      if (error.isServiceUnavailable) {
+        this.config.onServiceStatusChange?.(true);
+      }
+      throw error;
+    }
+
+    this.config.onServiceStatusChange?.(false);
+
+    switch (responseType) {
+      case "raw":
+        return response as T;
+      case "blob":
+        return (await response.blob()) as T;
+      case "text":
+        return (await response.text()) as T;
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const contentType = response.headers.get("content-type");
+    if (contentType?.includes("application/json")) {
+      return response.json();
+    }
+
+    return (await response.text()) as T;
+  }
+
+  private async toHttpError(response: Response, endpoint: string) {
+    const text = await response.text().catch(() => "");
+
+    let data: any = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON, keep the raw text as the message
+    }
+
+    const proxyError: ProxyError | null =
+      data?.error && typeof data.error.code === "string" ? data.error : null;
+
+    return new ApiError({
+      message: readErrorMessage(data, text, response.status),
+      code: errorCodeForStatus(response.status, proxyError),
+      endpoint,
+      status: response.status,
+      details: data ?? text,
+      proxyError,
+    });
+  }
+}
+
+/**
+ * Unwrap `{ data: ... }` responses, leaving other shapes untouched
+ */
+export const unwrapApiData = <T = any>(response: any): T => {
+  return response && typeof response === "object" && "data" in response
+    ? response.data
+    : response;
+};
+
+// Shared client for code outside React (helpers, callbacks). The proxy
+// authenticates from the session cookie, so no token getter is needed.
+export const apiClient = new ApiClient();
@@ -0,0 +1,75 @@
+/**
+ * API Endpoints
+ * Paths relative to /api/proxy, grouped by backend service. Use these with
+ * the ApiClient instead of hand-built strings so a route change happens in
+ * one place.
+ */
+
+export const API_ENDPOINTS = {
+  users: {
+    me: "users/me",
+    profile: "users/profile",
+    avatar: "users/profile/avatar",
+    password: "users/password",
+  },
+  messages: {
+    root: "messages",
+    byId: (messageId: string) => `messages/${messageId}`,
+    reactions: (messageId: string) => `messages/${messageId}/reactions`,
+    reaction: (messageId: string, emoji: string) =>
+      `messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+    pin: (messageId: string) => `messages/${messageId}/pin`,
+    pinned: "messages/pinned",
+    scheduled: "messages/scheduled",
+    scheduledById: (scheduledId: string) => `messages/scheduled/${scheduledId}`,
+    history: "messages/history",
+    conversations: "messages/conversations",
+    read: "messages/read",
+    media: "messages/media",
+    search: "messages/search",
+    unreadCount: "messages/unread-count",
+  },
+  friends: {
+    root: "friends",
+    byId: (friendId: string) => `friends/${friendId}`,
+    add: "friends/add",
+    reject: "friends/reject",
+    block: "friends/block",
+    unblock: "friends/unblock",
+    blocked: "friends/blocked",
+    search: "friends/search",
+  },
+  groups: {
+    root: "groups",
+    byId: (groupId: string) => `groups/${groupId}`,
+    members: (groupId: string) => `groups/${groupId}/members`,
+    member: (groupId: string, userId: string) =>
+      `groups/${groupId}/members/${userId}`,
+    leave: (groupId: string) => `groups/${groupId}/leave`,
+    messages: (groupId: string) => `groups/${groupId}/messages`,
+    read: (groupId: string) => `groups/${groupId}/read`,
+    messageReads: (groupId: string, messageId: string) =>
+      `groups/${groupId}/messages/${messageId}/reads`,
+    blocks: (groupId: string) => `groups/${groupId}/blocks`,
+    block: (groupId: string, userId: string) =>
+      `groups/${groupId}/blocks/${userId}`,
+  },
+  notifications: {
+    root: "notifications",
+    read: (notificationId: string) => `notifications/${notificationId}/read`,
+    readAll: "notifications/read-all",
+    unreadCount: "notifications/unread-count",
+    health: "notifications/health",
+  },
+  files: {
+    upload: "files/upload",
+    // Chunked upload sessions
+    uploads: "files/uploads",
+    uploadSession: (uploadId: string) => `files/uploads/${uploadId}`,
+    uploadChunk: (uploadId: string, index: number) =>
+      `files/uploads/${uploadId}/chunks/${index}`,
+    completeUpload: (uploadId: string) => `files/uploads/${uploadId}/complete`,
+    byId: (fileId: string) => `files/${fileId}`,
+    health: "health",
+  },
+} as const;
@@ -0,0 +1,334 @@
+/**
+ * Chunked Upload - resumable uploads to the file service
+ * Files are sent in chunks inside an upload session. Each chunk is retried
+ * on its own, an upload waits while the browser is offline, and the session
+ * is remembered so that uploading the same file again picks up where the
+ * last attempt stopped.
+ */
+
+import { apiClient, isApiError } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+
+export const CHUNK_SIZE = 1024 * 1024; // 1MB
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const CHUNK_TIMEOUT_MS = 60000;
+
+// upload sessions by file, so a retry can resume
+const SESSIONS_STORAGE_KEY = "chunked-upload-sessions";
+// the file service drops unfinished sessions after a day
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface ChunkedUploadTarget {
+  relatedTo: string; // recipient or group id
+  relatedType: "user" | "group";
+  mediaType: string;
+  placeholder?: string;
+}
+
+export interface ChunkedUploadOptions {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChunkedUploadResult {
+  file_id: string;
+  url: string;
+  filename?: string;
+}
+
+interface StoredSession {
+  uploadId: string;
+  createdAt: number;
+}
+
+/**
+ * Thrown when the caller's signal cancels an upload
+ */
+export class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+export const isUploadCancelled = (
+  error: unknown
+): error is UploadCancelledError => error instanceof UploadCancelledError;
+
+/**
+ * Thrown when the file service has no upload session API; callers fall
+ * back to sending the whole file in one request
+ */
+export class ChunkedUploadUnsupportedError extends Error {
+  constructor() {
+    super("Chunked uploads are not supported by the file service");
+    this.name = "ChunkedUploadUnsupportedError";
+  }
+}
+
+// Answers of a file service without the upload session endpoints
+const UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+// Set once the file service turns down an upload session
+let sessionsUnsupported = false;
+
+/**
+ * False once the file service has shown it can't take chunked uploads
+ */
+export const isChunkedUploadSupported = () => !sessionsUnsupported;
+
+const readSessions = (): Record<string, StoredSession> => {
+  try {
+    const sessions = JSON.parse(
+      localStorage.getItem(SESSIONS_STORAGE_KEY) || "{}"
+    );
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(sessions as Record<string, StoredSession>).filter(
+        ([, session]) => now - session.createdAt < SESSION_MAX_AGE_MS
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+const writeSessions = (sessions: Record<string, StoredSession>) => {
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // Uploads still work, they just can't be resumed
+  }
+};
+
+const rememberSession = (key: string, uploadId: string) => {
+  writeSessions({
+    ...readSessions(),
+    [key]: { uploadId, createdAt: Date.now() },
+  });
+};
+
+const forgetSession = (key: string) => {
+  const sessions = readSessions();
+  delete sessions[key];
+  writeSessions(sessions);
+};
+
+const sessionKey = (file: File, target: ChunkedUploadTarget) =>
+  [
+    target.relatedType,
+    target.relatedTo,
+    file.name,
+    file.size,
+    file.lastModified,
+  ].join(":");
+
+// Resolves once `subscribe` calls back, or rejects when the upload is
+// cancelled first
+const waitFor = (
+  subscribe: (done: () => void) => () => void,
+  signal?: AbortSignal
+) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      unsubscribe();
+      reject(new UploadCancelledError());
+    };
+    const unsubscribe = subscribe(() => {
+      signal?.removeEventListener("abort", onAbort);
+      unsubscribe();
+      resolve();
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  waitFor((done) => {
+    const timeoutId = setTimeout(done, ms);
+    return () => clearTimeout(timeoutId);
+  }, signal);
+
+const waitUntilOnline = (signal?: AbortSignal) =>
+  waitFor((done) => {
+    window.addEventListener("online", done);
+    return () => window.removeEventListener("online", done);
+  }, signal);
+
+// Dropped connections, timeouts and server hiccups are worth another try
+const isRetryable = (error: unknown) =>
+  isApiError(error) &&
+  (error.code === "NETWORK_ERROR" ||
+    error.code === "TIMEOUT" ||
+    error.code === "SERVICE_UNAVAILABLE" ||
+    error.code === "RATE_LIMITED" ||
+    error.status >= 500);
+
+const sendChunk = async (
+  uploadId: string,
+  file: File,
+  index: number,
+  signal?: AbortSignal
+) => {
+  const start = index * CHUNK_SIZE;
+  const chunk = file.slice(start, start + CHUNK_SIZE);
+  let failures = 0;
+
+  for (;;) {
+    const formData = new FormData();
+    formData.append("chunk", chunk, file.name);
+
+    try {
+      await apiClient.put(
+        API_ENDPOINTS.files.uploadChunk(uploadId, index),
+        formData,
+        { signal, timeoutMs: CHUNK_TIMEOUT_MS }
+      );
+      return;
+    } catch (error) {
+      if (!isRetryable(error)) throw error;
+
+      // Offline time doesn't use up attempts
+      if (!navigator.onLine) {
+        await waitUntilOnline(signal);
+        continue;
+      }
+
+      failures += 1;
+      if (failures >= MAX_CHUNK_ATTEMPTS) throw error;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (failures - 1), signal);
+    }
+  }
+};
+
+// Chunks the file service already has, or null when the session is gone
+const fetchReceivedChunks = async (
+  uploadId: string,
+  signal?: AbortSignal
+): Promise<Set<number> | null> => {
+  try {
+    const status = await apiClient.get(
+      API_ENDPOINTS.files.uploadSession(uploadId),
+      { signal }
+    );
+    return new Set<number>(status?.received_chunks || []);
+  } catch (error) {
+    if (isApiError(error) && error.code === "ABORTED") throw error;
+    return null;
+  }
+};
+
+// Opens an upload session and returns its id
+const startSession = async (
+  file: File,
+  target: ChunkedUploadTarget,
+  totalChunks: number,
+  signal?: AbortSignal
+): Promise<string> => {
+  let session: any;
+  try {
+    session = await apiClient.post(
+      API_ENDPOINTS.files.uploads,
+      {
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+        chunk_size: CHUNK_SIZE,
+        total_chunks: totalChunks,
+        type: "attachment",
+        related_to: target.relatedTo,
+        related_type: target.relatedType,
+        for_message: true,
+        media_type: target.mediaType,
+        ...(target.placeholder ? { placeholder: target.placeholder } : {}),
+      },
+      { signal }
+    );
+  } catch (error) {
+    if (isApiError(error) && UNSUPPORTED_STATUSES.has(error.status)) {
+      sessionsUnsupported = true;
+      throw new ChunkedUploadUnsupportedError();
+    }
+    throw error;
+  }
+
+  if (!session?.upload_id) {
+    throw new Error("Invalid upload session response - missing upload ID");
+  }
+  return session.upload_id as string;
+};
+
+/**
+ * Upload a file in chunks, resuming an earlier session for the same file
+ * when there is one. Progress is reported in bytes the server confirmed.
+ * Rejects with a ChunkedUploadUnsupportedError on file services without
+ * upload sessions.
+ */
+export const uploadInChunks = async (
+  file: File,
+  target: ChunkedUploadTarget,
+  { onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<ChunkedUploadResult> => {
+  if (sessionsUnsupported) throw new ChunkedUploadUnsupportedError();
+
+  const key = sessionKey(file, target);
+  const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+  const chunkSize = (index: number) =>
+    Math.min(CHUNK_SIZE, file.size - index * CHUNK_SIZE);
+
+  let uploadId: string | null = readSessions()[key]?.uploadId || null;
+
+  try {
+    let received: Set<number> | null = null;
+    if (uploadId) {
+      received = await fetchReceivedChunks(uploadId, signal);
+      if (!received) {
+        forgetSession(key);
+        uploadId = null;
+      }
+    }
+
+    if (!uploadId) {
+      uploadId = await startSession(file, target, totalChunks, signal);
+      rememberSession(key, uploadId);
+    }
+
+    let uploadedBytes = 0;
+    received?.forEach((index) => {
+      if (index < totalChunks) uploadedBytes += chunkSize(index);
+    });
+    onProgress?.(uploadedBytes, file.size);
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received?.has(index)) continue;
+      await sendChunk(uploadId, file, index, signal);
+      uploadedBytes += chunkSize(index);
+      onProgress?.(uploadedBytes, file.size);
+    }
+
+    // Assembling a large file can take a while
+    const result = await apiClient.post<ChunkedUploadResult>(
+      API_ENDPOINTS.files.completeUpload(uploadId),
+      undefined,
+      { signal, timeoutMs: 0 }
+    );
+    forgetSession(key);
+    return result;
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+
+    // Cancelled: the server can drop the chunks it has
+    forgetSession(key);
+    if (uploadId) {
+      apiClient
+        .delete(API_ENDPOINTS.files.uploadSession(uploadId))
+        .catch(() => {});
+    }
+    throw new UploadCancelledError();
+  }
+};
@@ -0,0 +1,264 @@
+/**
+ * Message Drafts
+ * What the user left in a conversation's composer: the text, attachments
+ * picked but not sent yet, and the reply or edit in progress. Kept in
+ * IndexedDB keyed by user and conversation, so a draft survives switching
+ * conversations and reloads. Attachment Blobs live in their own store and
+ * are only written when picked, not on every save of the draft text.
+ */
+
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import type { ReplyPreview } from "@/types/messages";
+import { openIndexedDb } from "@/utils/indexedDb";
+
+const DB_NAME = "chat-drafts";
+const DB_VERSION = 1;
+const DRAFTS_STORE = "drafts";
+const ATTACHMENTS_STORE = "attachments";
+
+export type DraftConversationType = "private" | "group";
+
+export interface DraftAttachment {
+  id: string;
+  blob: Blob;
+  name: string;
+  type: string;
+  size: number;
+  caption?: string; // sent as the file's message text
+}
+
+// The composer state a draft restores
+export interface DraftContent {
+  content: string; // group drafts keep mention tokens
+  attachments: DraftAttachment[];
+  reply_to?: ReplyPreview;
+  editing_message_id?: string;
+}
+
+export interface MessageDraft extends DraftContent {
+  key: string; // see draftKey
+  owner_id: string;
+  conversation_type: DraftConversationType;
+  target_id: string; // friend or group id
+  updated_at: string;
+}
+
+// A draft as stored; the Blobs of its attachments are kept by id in the
+// attachments store
+type StoredDraft = Omit<MessageDraft, "attachments"> & {
+  attachments: Omit<DraftAttachment, "blob">[];
+};
+
+interface StoredAttachmentBlob {
+  id: string; // DraftAttachment id
+  blob: Blob;
+}
+
+export const EMPTY_DRAFT: DraftContent = { content: "", attachments: [] };
+
+export const draftKey = (
+  ownerId: string,
+  conversationType: DraftConversationType,
+  targetId: string
+) => `${ownerId}:${conversationType}:${targetId}`;
+
+// In-memory copy, also the store for browsers without IndexedDB
+const memoryStore = new Map<string, MessageDraft>();
+// Attachments whose Blob is already in the database
+const storedBlobIds = new Set<string>();
+let loadPromise: Promise<void> | null = null;
+
+const toStoredDraft = (draft: MessageDraft): StoredDraft => ({
+  ...draft,
+  attachments: draft.attachments.map(({ id, name, type, size, caption }) => ({
+    id,
+    name,
+    type,
+    size,
+    caption,
+  })),
+});
+
+const runTransaction = openIndexedDb(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(DRAFTS_STORE, { keyPath: "key" });
+  db.createObjectStore(ATTACHMENTS_STORE, { keyPath: "id" });
+});
+
+const loadDrafts = () => {
+  if (!loadPromise) {
+    loadPromise = Promise.all([
+      runTransaction<StoredDraft[]>(DRAFTS_STORE, "readonly", (transaction) =>
+        transaction.objectStore(DRAFTS_STORE).getAll()
+      ),
+      runTransaction<StoredAttachmentBlob[]>(
+        ATTACHMENTS_STORE,
+        "readonly",
+        (transaction) => transaction.objectStore(ATTACHMENTS_STORE).getAll()
+      ),
+    ])
+      .then(([stored, blobs]) => {
+        const blobsById = new Map<string, Blob>();
+        blobs?.forEach(({ id, blob }) => {
+          blobsById.set(id, blob);
+          storedBlobIds.add(id);
+        });
+
+        stored?.forEach((draft) => {
+          // Keep anything saved in this tab while the database was opening
+          if (memoryStore.has(draft.key)) return;
+
+          const attachments: DraftAttachment[] = [];
+          draft.attachments.forEach((attachment) => {
+            const blob = blobsById.get(attachment.id);
+            if (blob) attachments.push({ ...attachment, blob });
+          });
+          memoryStore.set(draft.key, { ...draft, attachments });
+        });
+      })
+      .catch(() => undefined);
+  }
+  return loadPromise;
+};
+
+// Writes the draft and the Blobs it gained, and deletes the Blobs of
+// attachments it lost, in one transaction
+const persistDraft = async (
+  key: string,
+  draft: MessageDraft | null,
+  previous: MessageDraft | undefined
+) => {
+  const kept = new Set(draft?.attachments.map((attachment) => attachment.id));
+  const added = (draft?.attachments || []).filter(
+    (attachment) => !storedBlobIds.has(attachment.id)
+  );
+  const removed = (previous?.attachments || [])
+    .map((attachment) => attachment.id)
+    .filter((id) => !kept.has(id));
+
+  let written = false;
+  await runTransaction(
+    [DRAFTS_STORE, ATTACHMENTS_STORE],
+    "readwrite",
+    (transaction) => {
+      written = true;
+      const blobs = transaction.objectStore(ATTACHMENTS_STORE);
+      added.forEach(({ id, blob }) => blobs.put({ id, blob }));
+      removed.forEach((id) => blobs.delete(id));
+
+      const drafts = transaction.objectStore(DRAFTS_STORE);
+      if (!draft) {
+        drafts.delete(key);
+        return;
+      }
+      drafts.put(toStoredDraft(draft));
+    }
+  );
+
+  // Without a database there is nothing to keep track of
+  if (!written) return;
+  added.forEach(({ id }) => storedBlobIds.add(id));
+  removed.forEach((id) => storedBlobIds.delete(id));
+};
+
+/**
+ * Whether the composer state is worth keeping
+ */
+export const isDraftEmpty = (draft: DraftContent) =>
+  !draft.content.trim() &&
+  draft.attachments.length === 0 &&
+  !draft.reply_to &&
+  !draft.editing_message_id;
+
+/**
+ * The user's drafts, keyed by draftKey
+ */
+export const getDrafts = async (
+  ownerId: string
+): Promise<Record<string, MessageDraft>> => {
+  await loadDrafts();
+
+  const drafts: Record<string, MessageDraft> = {};
+  memoryStore.forEach((draft) => {
+    if (draft.owner_id === ownerId) drafts[draft.key] = draft;
+  });
+  return drafts;
+};
+
+export const getDraft = async (
+  ownerId: string,
+  conversationType: DraftConversationType,
+  targetId: string
+): Promise<MessageDraft | null> => {
+  await loadDrafts();
+
+  return memoryStore.get(draftKey(ownerId, conversationType, targetId)) || null;
+};
+
+/**
+ * Store the composer state of a conversation. An empty composer removes
+ * the draft.
+ */
+export const saveDraft = async (
+  ownerId: string,
+  conversationType: DraftConversationType,
+  targetId: string,
+  content: DraftContent
+) => {
+  await loadDrafts();
+
+  const key = draftKey(ownerId, conversationType, targetId);
+  const previous = memoryStore.get(key);
+  if (isDraftEmpty(content)) {
+    if (!previous) return;
+
+    memoryStore.delete(key);
+    try {
+      await persistDraft(key, null, previous);
+    } catch {}
+    eventBus.emit("draft-updated", { key, draft: null });
+    return;
+  }
+
+  const draft: MessageDraft = {
+    key,
+    owner_id: ownerId,
+    conversation_type: conversationType,
+    target_id: targetId,
+    content: content.content,
+    attachments: content.attachments,
+    reply_to: content.reply_to,
+    editing_message_id: content.editing_message_id,
+    updated_at: new Date().toISOString(),
+  };
+  memoryStore.set(key, draft);
+  try {
+    await persistDraft(key, draft, previous);
+  } catch {
+    // The memory copy still lasts until the tab closes
+  }
+  eventBus.emit("draft-updated", { key, draft });
+};
+
+/**
+ * Turn a picked file into a draft attachment
+ */
+export const toDraftAttachment = (file: File): DraftAttachment => ({
+  id: `draft-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  blob: file,
+  name: file.name,
+  type: file.type,
+  size: file.size,
+});
+
+/**
+ * Back to a File for the upload helpers. Keeping lastModified lets a
+ * resend resume the chunked upload of the same file.
+ */
+export const draftAttachmentToFile = (attachment: DraftAttachment) =>
+  new File([attachment.blob], attachment.name, {
+    type: attachment.type,
+    lastModified:
+      attachment.blob instanceof File
+        ? attachment.blob.lastModified
+        : undefined,
+  });
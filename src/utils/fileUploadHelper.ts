@@ -1,12 +1,22 @@
 /**
  * File Upload Helper - 2-Step Process (Optimized for Chat)
- * Step 1: Upload file directly to file service via proxy (bypasses useFiles auto-refresh)
+ * Step 1: Upload file to file service via proxy, in resumable chunks where the service supports them (bypasses useFiles auto-refresh)
  * Step 2: Send message with file attachment to /api/proxy/messages
  *
  * This implementation prevents unnecessary API calls by avoiding the useFiles hook
  * which automatically refreshes the file list after uploads.
  */
 
+import { apiClient, isApiError } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import {
+  ChunkedUploadUnsupportedError,
+  isChunkedUploadSupported,
+  UploadCancelledError,
+  uploadInChunks,
+} from "@/utils/chunkedUpload";
+import { compressImage, isCompressibleImage } from "@/utils/imageCompression";
+
 export interface FileUploadResult {
   fileId: string;
   fileName: string;
@@ -14,22 +24,44 @@ export interface FileUploadResult {
   fileType: string;
   fileUrl: string;
   messageId?: string;
+  placeholder?: string; // low-res preview of an image
 }
 
 export interface UploadProgressCallback {
   (progress: number): void;
 }
 
+// Largest file the file service takes in a single request
+export const MAX_SINGLE_UPLOAD_SIZE = 10 * 1024 * 1024;
+// Chunked uploads are resumable, so attachments may be larger
+export const MAX_CHUNKED_UPLOAD_SIZE = 100 * 1024 * 1024;
+// Largest photo accepted before compression
+const MAX_SOURCE_IMAGE_SIZE = 40 * 1024 * 1024;
+
+/**
+ * Largest chat attachment uploadFileToServer can send right now
+ */
+const maxAttachmentSize = (file: File) => {
+  if (isChunkedUploadSupported()) return MAX_CHUNKED_UPLOAD_SIZE;
+  // Photos are compressed before they are uploaded
+  return isCompressibleImage(file)
+    ? MAX_SOURCE_IMAGE_SIZE
+    : MAX_SINGLE_UPLOAD_SIZE;
+};
+
 /**
- * Validate file before upload
+ * Validate a chat attachment before upload
  */
 export const validateFile = (
   file: File
 ): { valid: boolean; error?: string } => {
-  // File size validation (max 10MB)
-  const maxSize = 10 * 1024 * 1024; // 10MB
+  // File size validation (100MB with chunked uploads, 10MB without)
+  const maxSize = maxAttachmentSize(file);
   if (file.size > maxSize) {
-    return { valid: false, error: "File size should be less than 10MB" };
+    return {
+      valid: false,
+      error: `File size should be less than ${formatFileSize(maxSize)}`,
+    };
   }
 
   // File type validation
@@ -57,18 +89,24 @@ export const validateFile = (
     "video/mov",
     "video/wmv",
     "video/webm",
-    // Audio
+    // Audio, including what MediaRecorder produces for voice messages
     "audio/mp3",
     "audio/wav",
     "audio/ogg",
     "audio/mpeg",
+    "audio/webm",
+    "audio/mp4",
+    "audio/aac",
+    "audio/x-m4a",
     // Archives
     "application/zip",
     "application/x-rar-compressed",
     "application/x-7z-compressed",
   ];
 
-  if (!allowedTypes.includes(file.type)) {
+  // Recordings may carry a codecs parameter, e.g. audio/webm;codecs=opus
+  const baseType = file.type.split(";")[0].trim();
+  if (!allowedTypes.includes(baseType)) {
     return {
       valid: false,
       error: `File type "${file.type}" is not supported. Please select a valid image, document, video, or audio file.`,
@@ -78,35 +116,106 @@ export const validateFile = (
   return { valid: true };
 };
 
+// For file services without upload sessions: the whole file in one request
+const uploadInOneRequest = async (
+  upload: File,
+  recipientId: string,
+  isGroup: boolean,
+  placeholder?: string,
+  signal?: AbortSignal
+) => {
+  if (upload.size > MAX_SINGLE_UPLOAD_SIZE) {
+    throw new Error(
+      `File size should be less than ${formatFileSize(MAX_SINGLE_UPLOAD_SIZE)}`
+    );
+  }
+
+  const formData = new FormData();
+  formData.append("file", upload);
+  formData.append("type", "attachment");
+  formData.append("related_to", recipientId);
+  formData.append("related_type", isGroup ? "group" : "user");
+  formData.append("for_message", "true");
+  formData.append("media_type", getMediaType(upload.type));
+  if (placeholder) {
+    formData.append("placeholder", placeholder);
+  }
+
+  try {
+    return await apiClient.post(API_ENDPOINTS.files.upload, formData, {
+      timeoutMs: 0,
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new UploadCancelledError();
+    throw error;
+  }
+};
+
+// Service errors carry their status in the message
+const toUploadError = (error: unknown): never => {
+  if (isApiError(error)) {
+    throw new Error(`File upload failed: ${error.status} - ${error.message}`);
+  }
+  throw error;
+};
+
 /**
  * Step 1: Upload file directly to file service via proxy (bypasses useFiles hook refresh)
+ * Progress is reported in percent of the file. Aborting `signal` cancels
+ * the upload and rejects with an UploadCancelledError. Without upload
+ * sessions on the file service the file goes up in one request and
+ * progress jumps to 100 at the end.
  */
 export const uploadFileToServer = async (
   file: File,
   recipientId: string,
   isGroup: boolean = false,
-  onProgress?: UploadProgressCallback
-): Promise<{ fileId: string; fileUrl: string; fileName: string }> => {
-  const formData = new FormData();
-  formData.append("file", file);
-  formData.append("type", "attachment");
-  formData.append("related_to", recipientId);
-  formData.append("related_type", isGroup ? "group" : "user");
-  formData.append("for_message", "true");
+  onProgress?: UploadProgressCallback,
+  signal?: AbortSignal
+): Promise<{
+  fileId: string;
+  fileUrl: string;
+  fileName: string;
+  placeholder?: string;
+}> => {
+  // Photos go up downsized and without their metadata
+  const { file: upload, placeholder } = await compressImage(file);
 
   // Call the file service directly via proxy to avoid useFiles hook's automatic refresh
-  const response = await fetch("/api/proxy/files/upload", {
-    method: "POST",
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`File upload failed: ${response.status} - ${errorText}`);
+  let result: any;
+  try {
+    result = await uploadInChunks(
+      upload,
+      {
+        relatedTo: recipientId,
+        relatedType: isGroup ? "group" : "user",
+        mediaType: getMediaType(upload.type),
+        placeholder,
+      },
+      {
+        signal,
+        onProgress: (uploadedBytes, totalBytes) =>
+          onProgress?.(
+            totalBytes ? Math.round((uploadedBytes / totalBytes) * 100) : 100
+          ),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ChunkedUploadUnsupportedError) {
+      result = await uploadInOneRequest(
+        upload,
+        recipientId,
+        isGroup,
+        placeholder,
+        signal
+      ).catch(toUploadError);
+      onProgress?.(100);
+    } else {
+      toUploadError(error);
+    }
   }
 
-  const result = await response.json();
-
   if (!result.file_id) {
     throw new Error("Invalid file upload response - missing file ID");
   }
@@ -114,7 +223,8 @@ export const uploadFileToServer = async (
   return {
     fileId: result.file_id,
     fileUrl: result.url,
-    fileName: result.filename || file.name,
+    fileName: result.filename || upload.name,
+    placeholder,
   };
 };
 
@@ -128,46 +238,39 @@ export const sendMessageWithFile = async (
   fileUrl: string,
   messageText: string = "",
   isGroup: boolean = false,
-  accessToken?: string
+  accessToken?: string,
+  tempId?: string, // lets the server drop replays of the same message
+  messageType: string = "file",
+  placeholder?: string
 ): Promise<{ messageId: string; message: any }> => {
-  const endpoint = "/api/proxy/messages"; // Use unified messages endpoint for both individual and group chats
+  const endpoint = API_ENDPOINTS.messages.root; // Use unified messages endpoint for both individual and group chats
 
   const payload = {
     content: messageText || `📎 ${fileName}`,
     attachment_url: fileUrl,
-    type: "file",
+    type: messageType,
     ...(isGroup ? { group_id: recipientId } : { recipient_id: recipientId }),
-  };
-
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
+    ...(tempId ? { temp_id: tempId } : {}),
+    ...(placeholder ? { attachment_placeholder: placeholder } : {}),
   };
 
   // Add authentication header if access token is provided
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
+  const headers: HeadersInit = accessToken
+    ? { Authorization: `Bearer ${accessToken}` }
+    : {};
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    ({
-      status: response.status,
-      statusText: response.statusText,
-      error: errorText,
-      endpoint,
-      payload,
-    });
-    throw new Error(`Message send failed: ${response.status} - ${errorText}`);
+  let result: any;
+  try {
+    result = await apiClient.post(endpoint, payload, { headers });
+  } catch (error) {
+    if (isApiError(error)) {
+      throw new Error(
+        `Message send failed: ${error.status} - ${error.message}`
+      );
+    }
+    throw error;
   }
 
-  const result = await response.json();
-
   return {
     messageId: result.data?.id || result.id,
     message: result.data || result,
@@ -183,7 +286,8 @@ export const uploadFileAndSendMessage = async (
   messageText: string = "",
   isGroup: boolean = false,
   onProgress?: UploadProgressCallback,
-  accessToken?: string
+  accessToken?: string,
+  signal?: AbortSignal
 ): Promise<FileUploadResult> => {
   // Validate file first
   const validation = validateFile(file);
@@ -192,16 +296,17 @@ export const uploadFileAndSendMessage = async (
   }
 
   try {
-    // Step 1: Upload file
-    if (onProgress) onProgress(25);
+    // Step 1: Upload file (the first 95%)
+    if (onProgress) onProgress(0);
 
     const uploadResult = await uploadFileToServer(
       file,
       recipientId,
       isGroup,
-      onProgress
+      onProgress && ((progress) => onProgress(Math.round(progress * 0.95))),
+      signal
     );
-    if (onProgress) onProgress(75);
+    if (signal?.aborted) throw new UploadCancelledError();
 
     // Step 2: Send message with file attachment
     const messageResult = await sendMessageWithFile(
@@ -211,7 +316,10 @@ export const uploadFileAndSendMessage = async (
       uploadResult.fileUrl,
       messageText,
       isGroup,
-      accessToken // Pass the access token for authentication
+      accessToken, // Pass the access token for authentication
+      undefined,
+      getMessageTypeForFile(file),
+      uploadResult.placeholder
     );
 
     if (onProgress) onProgress(100);
@@ -223,6 +331,7 @@ export const uploadFileAndSendMessage = async (
       fileType: file.type,
       fileUrl: uploadResult.fileUrl,
       messageId: messageResult.messageId,
+      placeholder: uploadResult.placeholder,
     };
 
     return result;
@@ -243,6 +352,22 @@ export const getMediaType = (
   return "document";
 };
 
+/**
+ * Message type of a file attachment; audio is played inline
+ */
+export const getMessageTypeForFile = (file: File): "audio" | "file" =>
+  getMediaType(file.type) === "audio" ? "audio" : "file";
+
+/**
+ * How a message bubble shows an attachment of this MIME type
+ */
+export const getAttachmentType = (
+  mimeType: string
+): "image" | "audio" | "file" => {
+  const mediaType = getMediaType(mimeType);
+  return mediaType === "image" || mediaType === "audio" ? mediaType : "file";
+};
+
 /**
  * Format file size for display
  */
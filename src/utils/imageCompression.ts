@@ -0,0 +1,100 @@
+/**
+ * Image Compression - shrink photos before they are uploaded
+ * Phone photos are often 8-10MB. Images are downsized, re-encoded and
+ * stripped of their metadata in a worker, and a tiny placeholder is made
+ * to show in the chat while the full image loads.
+ */
+
+import {
+  ImageProcessingOptions,
+  ProcessedImage,
+  processImage,
+} from "@/utils/imageProcessing";
+
+export interface CompressedImage {
+  file: File;
+  placeholder?: string;
+}
+
+// NEXT_PUBLIC_IMAGE_MAX_DIMENSION overrides the longest side
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 2048,
+  quality: 0.82,
+  placeholderSize: 24,
+};
+
+// GIFs would lose their animation and SVGs are not bitmaps
+const COMPRESSIBLE_TYPES = [
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/bmp",
+];
+
+/**
+ * Whether compressImage re-encodes this file
+ */
+export const isCompressibleImage = (file: Blob) =>
+  COMPRESSIBLE_TYPES.includes(file.type);
+
+const canUseWorker = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+const processInWorker = (file: Blob, options: ImageProcessingOptions) =>
+  new Promise<ProcessedImage>((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./imageCompression.worker.ts", import.meta.url)
+    );
+    worker.onmessage = (event) => {
+      worker.terminate();
+      if (event.data.error) reject(new Error(event.data.error));
+      else resolve(event.data.result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Image worker failed"));
+    };
+    worker.postMessage({ file, options });
+  });
+
+/**
+ * Prepare an image for upload. Files that aren't compressible images, or
+ * that the browser can't decode, come back unchanged.
+ */
+export const compressImage = async (
+  file: File,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<CompressedImage> => {
+  if (
+    typeof window === "undefined" ||
+    typeof createImageBitmap === "undefined" ||
+    !isCompressibleImage(file)
+  ) {
+    return { file };
+  }
+
+  const settings = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  let processed: ProcessedImage;
+  try {
+    processed = canUseWorker()
+      ? await processInWorker(file, settings).catch(() =>
+          processImage(file, settings)
+        )
+      : await processImage(file, settings);
+  } catch (error) {
+    return { file };
+  }
+
+  // The re-encode replaces the original even when it came out larger:
+  // PNGs and WebPs can carry EXIF and text metadata too
+  const extension = processed.blob.type === "image/webp" ? "webp" : "jpg";
+  const baseName = file.name.replace(/\.[^./]+$/, "") || "image";
+  return {
+    file: new File([processed.blob], `${baseName}.${extension}`, {
+      type: processed.blob.type,
+      lastModified: file.lastModified,
+    }),
+    placeholder: processed.placeholder,
+  };
+};
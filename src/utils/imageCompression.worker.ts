@@ -0,0 +1,26 @@
+/**
+ * Image Compression Worker
+ * Keeps decoding and re-encoding large photos off the main thread.
+ * Receives `{ file, options }` and answers with `{ result }` or `{ error }`.
+ */
+
+import { ImageProcessingOptions, processImage } from "@/utils/imageProcessing";
+
+// The project is typed against the DOM library, not the worker one
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage: (message: unknown) => void;
+};
+
+worker.onmessage = async (
+  event: MessageEvent<{ file: Blob; options: ImageProcessingOptions }>
+) => {
+  try {
+    const result = await processImage(event.data.file, event.data.options);
+    worker.postMessage({ result });
+  } catch (error) {
+    worker.postMessage({
+      error: error instanceof Error ? error.message : "Image processing failed",
+    });
+  }
+};
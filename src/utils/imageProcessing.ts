@@ -0,0 +1,139 @@
+/**
+ * Image Processing - canvas work behind image compression
+ * Runs in the compression worker when the browser has OffscreenCanvas and
+ * on the main thread otherwise, so nothing here may rely on either.
+ */
+
+export interface ImageProcessingOptions {
+  maxDimension: number; // longest side of the uploaded image, in pixels
+  quality: number; // 0-1, for the lossy formats
+  placeholderSize: number; // longest side of the placeholder
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  placeholder: string; // tiny JPEG data URL shown while the image loads
+  width: number;
+  height: number;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnyContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (
+  canvas: AnyCanvas,
+  type: string,
+  quality: number
+): Promise<Blob> => {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Image encoding failed")),
+      type,
+      quality
+    )
+  );
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Draws the bitmap onto a new canvas. JPEG has no transparency, so
+// transparent areas are painted white instead of black.
+const drawScaled = (
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  opaque: boolean
+) => {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d") as AnyContext | null;
+  if (!context) throw new Error("Canvas is not available");
+
+  if (opaque) {
+    context.fillStyle = "#fff";
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * Decode an image, downsize it and re-encode it as WebP, or JPEG where
+ * the browser can't write WebP. Drawing onto a canvas drops all metadata,
+ * EXIF location included; the orientation is applied to the pixels first.
+ */
+export const processImage = async (
+  source: Blob,
+  options: ImageProcessingOptions
+): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(source, {
+    imageOrientation: "from-image",
+  });
+
+  try {
+    const { width, height } = scaleToFit(
+      bitmap.width,
+      bitmap.height,
+      options.maxDimension
+    );
+
+    let blob = await canvasToBlob(
+      drawScaled(bitmap, width, height, false),
+      "image/webp",
+      options.quality
+    );
+    // Browsers that can't encode WebP hand back a PNG instead
+    if (blob.type !== "image/webp") {
+      blob = await canvasToBlob(
+        drawScaled(bitmap, width, height, true),
+        "image/jpeg",
+        options.quality
+      );
+    }
+
+    const small = scaleToFit(
+      bitmap.width,
+      bitmap.height,
+      options.placeholderSize
+    );
+    const placeholder = await blobToDataUrl(
+      await canvasToBlob(
+        drawScaled(bitmap, small.width, small.height, true),
+        "image/jpeg",
+        0.5
+      )
+    );
+
+    return { blob, placeholder, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
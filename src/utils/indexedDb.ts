@@ -0,0 +1,54 @@
+/**
+ * IndexedDB Helper
+ * Opens a database once per tab and runs requests in transactions. Without
+ * IndexedDB (private mode, SSR) or when the database can't be opened every
+ * transaction resolves to null, so callers keep working from memory.
+ */
+
+export type RunTransaction = <T = unknown>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  // Resolves with the result of the request returned here
+  operation: (transaction: IDBTransaction) => IDBRequest<T> | void
+) => Promise<T | null>;
+
+/**
+ * Transaction runner for one database. `upgrade` creates the object stores
+ * when the database is first opened.
+ */
+export const openIndexedDb = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): RunTransaction => {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  const openDb = (): Promise<IDBDatabase | null> => {
+    if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        // Fall back to memory rather than failing every call
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      });
+    }
+    return dbPromise;
+  };
+
+  return async (storeNames, mode, operation) => {
+    const db = await openDb();
+    if (!db) return null;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const request = operation(transaction);
+      transaction.oncomplete = () => resolve(request ? request.result : null);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+};
@@ -0,0 +1,294 @@
+/**
+ * Markdown
+ * Parses the Markdown subset allowed in messages: bold, italics, inline
+ * code, fenced code blocks, lists, block quotes and autolinked URLs.
+ * The result is a plain tree that the UI renders as React elements, so
+ * message content never reaches the DOM as HTML.
+ */
+
+import { readMentionToken } from "./mentions";
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; text: string }
+  | { type: "mention"; userId: string; name: string };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; language?: string; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      items: MarkdownInline[][];
+    };
+
+// Quotes nested deeper than this are kept as plain text
+const MAX_QUOTE_DEPTH = 3;
+
+const FENCE_OPEN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*> ?(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+const URL_AT = /(?:https?:\/\/|www\.)[^\s<>"'`]+/y;
+const TRAILING_PUNCTUATION = /[.,;:!?'"*_]+$/;
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /\w/.test(char);
+
+/**
+ * Only http(s) links are ever produced. Returns null for anything else.
+ */
+export const toSafeHref = (raw: string): string | null => {
+  try {
+    const url = new URL(raw.startsWith("www.") ? `https://${raw}` : raw);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.href
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// A URL starting at `index`, without trailing punctuation or an
+// unbalanced closing parenthesis (e.g. a link written in parentheses)
+const readUrl = (text: string, index: number) => {
+  URL_AT.lastIndex = index;
+  const match = URL_AT.exec(text);
+  if (!match) return null;
+
+  let url = match[0].replace(TRAILING_PUNCTUATION, "");
+  while (url.endsWith(")") && url.split(")").length > url.split("(").length) {
+    url = url.slice(0, -1).replace(TRAILING_PUNCTUATION, "");
+  }
+
+  const href = toSafeHref(url);
+  return href ? { href, text: url } : null;
+};
+
+// Closing delimiter for emphasis opened at `index`, or -1
+const findClosing = (text: string, index: number, delimiter: string) => {
+  const contentStart = index + delimiter.length;
+  if (/\s/.test(text[contentStart] || " ")) return -1;
+
+  let close = text.indexOf(delimiter, contentStart + 1);
+  while (close !== -1) {
+    const valid =
+      !/\s/.test(text[close - 1]) &&
+      // `_` only counts at word boundaries, so snake_case stays intact
+      (delimiter[0] !== "_" || !isWordChar(text[close + delimiter.length])) &&
+      // `*` must not be the first half of `**`
+      (delimiter !== "*" || text[close + 1] !== "*");
+    if (valid) return close;
+    close = text.indexOf(delimiter, close + 1);
+  }
+  return -1;
+};
+
+/**
+ * Parse inline formatting within a single block
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    // Inline code: the content is taken literally
+    if (char === "`") {
+      const ticks = /^`+/.exec(text.slice(i))![0];
+      const close = text.indexOf(ticks, i + ticks.length);
+      if (close > i + ticks.length) {
+        flush();
+        nodes.push({
+          type: "code",
+          text: text.slice(i + ticks.length, close).trim() || " ",
+        });
+        i = close + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    if (char === "@") {
+      const mention = readMentionToken(text, i);
+      if (mention) {
+        flush();
+        nodes.push({
+          type: "mention",
+          userId: mention.userId,
+          name: mention.name,
+        });
+        i += mention.length;
+        continue;
+      }
+    }
+
+    if ((char === "h" || char === "w") && !isWordChar(text[i - 1])) {
+      const url = readUrl(text, i);
+      if (url) {
+        flush();
+        nodes.push({ type: "link", href: url.href, text: url.text });
+        i += url.text.length;
+        continue;
+      }
+    }
+
+    if (char === "*" || char === "_") {
+      const strong = text[i + 1] === char;
+      const delimiter = strong ? char + char : char;
+      const opensWord = char === "*" || !isWordChar(text[i - 1]);
+      const close = opensWord ? findClosing(text, i, delimiter) : -1;
+
+      if (close !== -1) {
+        flush();
+        nodes.push({
+          type: strong ? "strong" : "em",
+          children: parseInline(text.slice(i + delimiter.length, close)),
+        });
+        i = close + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+const parseBlocks = (lines: string[], depth: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    // Fenced code block; an unclosed fence runs to the end of the message
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE_CLOSE.test(lines[i])) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      i += 1; // Skip the closing fence
+      blocks.push({
+        type: "code",
+        language: fence[1].toLowerCase() || undefined,
+        text: code.join("\n"),
+      });
+      continue;
+    }
+
+    if (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(QUOTE_LINE.exec(lines[i])![1]);
+        i += 1;
+      }
+      blocks.push({ type: "quote", children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.exec(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length) {
+        const item = itemPattern.exec(lines[i]);
+        if (!item) break;
+        items.push(parseInline(item[item.length - 1]));
+        i += 1;
+      }
+      blocks.push({
+        type: "list",
+        ordered: Boolean(ordered),
+        start: ordered ? Number(ordered[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      (paragraph.length === 0 ||
+        !(
+          FENCE_OPEN.test(lines[i]) ||
+          QUOTE_LINE.test(lines[i]) ||
+          BULLET_ITEM.test(lines[i]) ||
+          ORDERED_ITEM.test(lines[i])
+        ))
+    ) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parse message content into blocks
+ */
+export const parseMarkdown = (content: string): MarkdownBlock[] =>
+  parseBlocks(content.replace(/\r\n?/g, "\n").split("\n"), 0);
+
+/**
+ * Links autolinked in the content, in order and without duplicates.
+ * Links inside code are left out.
+ */
+export const extractLinks = (content: string): string[] => {
+  const links = new Set<string>();
+
+  const visitInline = (nodes: MarkdownInline[]) =>
+    nodes.forEach((node) => {
+      if (node.type === "link") links.add(node.href);
+      if (node.type === "strong" || node.type === "em") {
+        visitInline(node.children);
+      }
+    });
+
+  const visitBlocks = (blocks: MarkdownBlock[]) =>
+    blocks.forEach((block) => {
+      if (block.type === "paragraph") visitInline(block.children);
+      if (block.type === "quote") visitBlocks(block.children);
+      if (block.type === "list") block.items.forEach(visitInline);
+    });
+
+  visitBlocks(parseMarkdown(content));
+  return Array.from(links);
+};
@@ -0,0 +1,137 @@
+/**
+ * Mentions
+ * A mention is stored in the message content as `@[Name](userId)`, so the
+ * name shown is the one the author picked even if the member later leaves
+ * or renames. The composer shows plain `@Name` text and only turns it into
+ * tokens on send.
+ */
+
+export interface MentionCandidate {
+  id: string; // user id
+  name: string;
+}
+
+export type MentionSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; userId: string; name: string };
+
+const MENTION_TOKEN = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const toToken = (mention: MentionCandidate) =>
+  `@[${mention.name.replace(/[\[\]\n]/g, "")}](${mention.id})`;
+
+/**
+ * Split message content into text and mention segments for rendering
+ */
+export const splitMentions = (content: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", text: content.slice(lastIndex, index) });
+    }
+    segments.push({ type: "mention", name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: "text", text: content.slice(lastIndex) });
+  }
+  return segments;
+};
+
+/**
+ * The mention token starting exactly at `index`, if there is one
+ */
+export const readMentionToken = (
+  text: string,
+  index: number
+): { userId: string; name: string; length: number } | null => {
+  const token = new RegExp(MENTION_TOKEN.source, "y");
+  token.lastIndex = index;
+  const match = token.exec(text);
+  return match
+    ? { name: match[1], userId: match[2], length: match[0].length }
+    : null;
+};
+
+/**
+ * Replace mention tokens with `@Name`, for previews and plain-text views
+ */
+export const stripMentionTokens = (content: string) =>
+  content.replace(MENTION_TOKEN, (_, name: string) => `@${name}`);
+
+/**
+ * User ids mentioned in the content, without duplicates
+ */
+export const extractMentionIds = (content: string) =>
+  Array.from(
+    new Set(Array.from(content.matchAll(MENTION_TOKEN), (match) => match[2]))
+  );
+
+/**
+ * Turn the `@Name` text of picked mentions into tokens. Mentions whose
+ * text was edited away are dropped.
+ */
+export const encodeMentions = (
+  text: string,
+  picked: MentionCandidate[]
+): { content: string; mentions: string[] } => {
+  let content = text;
+
+  // Longest names first, so "@Ann Lee" wins over "@Ann"
+  [...picked]
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach((mention) => {
+      const pattern = new RegExp(
+        `(^|[^\\w\\]])@${escapeRegExp(mention.name)}(?![\\w])`,
+        "g"
+      );
+      content = content.replace(
+        pattern,
+        (_, prefix: string) => `${prefix}${toToken(mention)}`
+      );
+    });
+
+  return { content, mentions: extractMentionIds(content) };
+};
+
+/**
+ * Reverse of encodeMentions, for loading a message back into the composer
+ */
+export const decodeMentions = (
+  content: string
+): { text: string; mentions: MentionCandidate[] } => {
+  const mentions = new Map<string, MentionCandidate>();
+  splitMentions(content).forEach((segment) => {
+    if (segment.type === "mention") {
+      mentions.set(segment.userId, { id: segment.userId, name: segment.name });
+    }
+  });
+
+  return {
+    text: stripMentionTokens(content),
+    mentions: Array.from(mentions.values()),
+  };
+};
+
+/**
+ * The `@query` being typed right before the caret, if any
+ */
+export const findMentionQuery = (
+  text: string,
+  caret: number
+): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return {
+    query: match[2],
+    start: caret - match[2].length - 1,
+  };
+};
@@ -0,0 +1,385 @@
+/**
+ * Message Outbox
+ * Messages the user has sent but the server has not confirmed yet, kept in
+ * IndexedDB so a reload or crash never loses them. Entries are keyed by
+ * temp_id and replayed oldest first; an entry is removed as soon as the
+ * server accepts it.
+ */
+
+import { apiClient, isApiError } from "@/utils/apiClient";
+import { API_ENDPOINTS } from "@/utils/apiEndpoints";
+import {
+  getMessageTypeForFile,
+  sendMessageWithFile,
+  uploadFileToServer,
+} from "@/utils/fileUploadHelper";
+import { UploadCancelledError } from "@/utils/chunkedUpload";
+import { openIndexedDb } from "@/utils/indexedDb";
+import { eventBus } from "@/hooks/websocket/useEventBus";
+import { ConversationMessage } from "@/types/messages";
+
+const DB_NAME = "chat-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "messages";
+
+export type OutboxStatus = "pending" | "retrying" | "failed";
+
+export interface OutboxEntry {
+  temp_id: string;
+  conversation_type: "private" | "group";
+  target_id: string; // recipient or group id
+  sender_id?: string;
+  content: string;
+  message_type: string;
+  reply_to?: string;
+  mentions?: string[];
+  attachment?: {
+    blob: Blob;
+    name: string;
+    type: string;
+    size: number;
+    // Set once the file is uploaded, so a replay only resends the message
+    uploaded?: {
+      fileId: string;
+      fileUrl: string;
+      fileName: string;
+      placeholder?: string;
+    };
+  };
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error?: string;
+  // The server refused the message; only a manual retry sends it again
+  rejected?: boolean;
+}
+
+export type NewOutboxEntry = Pick<
+  OutboxEntry,
+  "conversation_type" | "target_id" | "sender_id" | "content"
+> &
+  Partial<
+    Pick<OutboxEntry, "temp_id" | "message_type" | "reply_to" | "mentions">
+  > & {
+    file?: File;
+  };
+
+// In-memory store for browsers without IndexedDB (private mode, SSR)
+const memoryStore = new Map<string, OutboxEntry>();
+
+const runTransaction = openIndexedDb(DB_NAME, DB_VERSION, (db) => {
+  const store = db.createObjectStore(STORE_NAME, { keyPath: "temp_id" });
+  store.createIndex("created_at", "created_at");
+});
+
+// Single-store requests on the messages store
+const runOnStore = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) =>
+  runTransaction<T>(STORE_NAME, mode, (transaction) =>
+    operation(transaction.objectStore(STORE_NAME))
+  );
+
+const saveEntry = async (entry: OutboxEntry) => {
+  memoryStore.set(entry.temp_id, entry);
+  try {
+    await runOnStore("readwrite", (store) => store.put(entry));
+  } catch {
+    // The memory copy still gets the message out in this tab
+  }
+  eventBus.emit("outbox-updated", entry);
+};
+
+const removeEntry = async (tempId: string) => {
+  memoryStore.delete(tempId);
+  try {
+    await runOnStore("readwrite", (store) => store.delete(tempId));
+  } catch {}
+};
+
+/**
+ * All queued messages, oldest first
+ */
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  try {
+    const stored = await runOnStore<OutboxEntry[]>("readonly", (store) =>
+      store.index("created_at").getAll()
+    );
+    if (stored) {
+      stored.forEach((entry) => memoryStore.set(entry.temp_id, entry));
+    }
+  } catch {}
+
+  return Array.from(memoryStore.values()).sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  );
+};
+
+/**
+ * Queued messages for one conversation, oldest first
+ */
+export const getConversationOutbox = async (
+  conversationType: OutboxEntry["conversation_type"],
+  targetId: string
+) =>
+  (await getOutboxEntries()).filter(
+    (entry) =>
+      entry.conversation_type === conversationType &&
+      entry.target_id === targetId
+  );
+
+export const createTempId = () =>
+  `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Store a message in the outbox and start delivering it. Enqueuing a
+ * temp_id that is already queued returns the existing entry.
+ */
+export const enqueueOutboxMessage = async (
+  message: NewOutboxEntry
+): Promise<OutboxEntry> => {
+  const tempId = message.temp_id || createTempId();
+  const existing = memoryStore.get(tempId);
+  if (existing) return existing;
+
+  const entry: OutboxEntry = {
+    temp_id: tempId,
+    conversation_type: message.conversation_type,
+    target_id: message.target_id,
+    sender_id: message.sender_id,
+    content: message.content,
+    message_type:
+      message.message_type ||
+      (message.file ? getMessageTypeForFile(message.file) : "text"),
+    reply_to: message.reply_to,
+    mentions: message.mentions,
+    attachment: message.file
+      ? {
+          blob: message.file,
+          name: message.file.name,
+          type: message.file.type,
+          size: message.file.size,
+        }
+      : undefined,
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+  };
+
+  await saveEntry(entry);
+  flushOutbox();
+  return entry;
+};
+
+/**
+ * Send a failed or rejected message again
+ */
+export const retryOutboxMessage = async (tempId: string) => {
+  const entry = memoryStore.get(tempId);
+  if (!entry) return;
+
+  await saveEntry({ ...entry, rejected: false });
+  flushOutbox();
+};
+
+// Aborts the attachment upload of an entry that is being delivered
+const uploadControllers = new Map<string, AbortController>();
+
+/**
+ * Drop a queued message without sending it; an attachment still uploading
+ * is cancelled
+ */
+export const discardOutboxMessage = async (tempId: string) => {
+  uploadControllers.get(tempId)?.abort();
+  await removeEntry(tempId);
+};
+
+// Errors worth replaying later: no connection, timeouts, 5xx, rate limits.
+// Anything else means the server looked at the message and refused it.
+const isRetryableError = (error: unknown) => {
+  if (!isApiError(error)) return true;
+  if (!error.status) return true;
+  return error.status >= 500 || error.status === 408 || error.status === 429;
+};
+
+const deliverEntry = async (entry: OutboxEntry): Promise<any> => {
+  const isGroup = entry.conversation_type === "group";
+
+  if (entry.attachment) {
+    let uploaded = entry.attachment.uploaded;
+    if (!uploaded) {
+      // A fixed lastModified lets a replay resume the chunked upload
+      const file = new File([entry.attachment.blob], entry.attachment.name, {
+        type: entry.attachment.type,
+        lastModified: Date.parse(entry.created_at),
+      });
+      const controller = new AbortController();
+      uploadControllers.set(entry.temp_id, controller);
+      try {
+        uploaded = await uploadFileToServer(
+          file,
+          entry.target_id,
+          isGroup,
+          (progress) =>
+            eventBus.emit("outbox-upload-progress", { entry, progress }),
+          controller.signal
+        );
+      } finally {
+        uploadControllers.delete(entry.temp_id);
+      }
+
+      // Discarded while uploading: don't store it again or send it
+      const current = memoryStore.get(entry.temp_id);
+      if (!current) throw new UploadCancelledError();
+      await saveEntry({
+        ...current,
+        attachment: { ...entry.attachment, uploaded },
+      });
+    }
+
+    const result = await sendMessageWithFile(
+      entry.target_id,
+      uploaded.fileId,
+      uploaded.fileName,
+      uploaded.fileUrl,
+      entry.content,
+      isGroup,
+      undefined,
+      entry.temp_id,
+      entry.message_type,
+      uploaded.placeholder
+    );
+    return {
+      ...result.message,
+      attachment_url: uploaded.fileUrl,
+      attachment_placeholder: uploaded.placeholder,
+    };
+  }
+
+  // temp_id lets the server drop a replay of a message it already stored
+  const result: any = await apiClient.post(API_ENDPOINTS.messages.root, {
+    ...(isGroup
+      ? { group_id: entry.target_id }
+      : { recipient_id: entry.target_id }),
+    content: entry.content,
+    type: entry.message_type,
+    reply_to: entry.reply_to,
+    mentions: entry.mentions,
+    temp_id: entry.temp_id,
+  });
+  return result?.data || result;
+};
+
+// Only the signed-in user's messages are replayed; entries from another
+// account on this browser wait until that account signs in again
+let outboxOwner: string | undefined;
+
+export const setOutboxOwner = (userId: string | undefined) => {
+  outboxOwner = userId;
+};
+
+const inFlight = new Set<string>();
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+
+const flush = async () => {
+  const entries = await getOutboxEntries();
+
+  for (const queued of entries) {
+    if (queued.rejected || inFlight.has(queued.temp_id)) continue;
+    if (!outboxOwner || queued.sender_id !== outboxOwner) continue;
+
+    // The entry may have been delivered or discarded meanwhile
+    const entry = memoryStore.get(queued.temp_id);
+    if (!entry) continue;
+
+    inFlight.add(entry.temp_id);
+    const sending: OutboxEntry = {
+      ...entry,
+      status: entry.attempts > 0 ? "retrying" : "pending",
+    };
+    await saveEntry(sending);
+
+    try {
+      const message = await deliverEntry(sending);
+      await removeEntry(entry.temp_id);
+      eventBus.emit("outbox-delivered", { entry: sending, message });
+    } catch (error) {
+      const retryable = isRetryableError(error);
+      const current = memoryStore.get(entry.temp_id);
+      if (!current) continue; // discarded while sending
+
+      await saveEntry({
+        ...current,
+        status: "failed",
+        attempts: sending.attempts + 1,
+        last_error:
+          error instanceof Error ? error.message : "Failed to send message",
+        rejected: !retryable,
+      });
+
+      // Keep the order: nothing newer goes out while this one waits
+      if (retryable) break;
+    } finally {
+      inFlight.delete(entry.temp_id);
+    }
+  }
+};
+
+/**
+ * Deliver queued messages in order. Only one run goes at a time; calls made
+ * during a run are folded into a single extra pass afterwards.
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = flush().finally(() => {
+    flushPromise = null;
+    if (flushRequested) {
+      flushRequested = false;
+      flushOutbox();
+    }
+  });
+  return flushPromise;
+};
+
+/**
+ * The server echoed a message we queued (e.g. over the WebSocket), so the
+ * outbox copy is no longer needed
+ */
+export const acknowledgeOutboxMessage = async (tempId: string) => {
+  if (memoryStore.has(tempId) && !inFlight.has(tempId)) {
+    await removeEntry(tempId);
+  }
+};
+
+/**
+ * Render a queued message with the pending/retrying/failed flags the
+ * message bubbles already understand
+ */
+export const outboxEntryToMessage = (
+  entry: OutboxEntry
+): ConversationMessage => ({
+  id: entry.temp_id,
+  message_id: entry.temp_id,
+  temp_id: entry.temp_id,
+  sender_id: entry.sender_id || "",
+  recipient_id:
+    entry.conversation_type === "private" ? entry.target_id : undefined,
+  content: entry.content,
+  type: entry.message_type,
+  reply_to: entry.reply_to,
+  mentions: entry.mentions,
+  created_at: entry.created_at,
+  isCurrentUser: true,
+  pending: entry.status === "pending",
+  retrying: entry.status === "retrying",
+  failed: entry.status === "failed",
+  sent: false,
+  retryCount: entry.attempts,
+  errorMessage: entry.last_error,
+});
@@ -0,0 +1,72 @@
+/**
+ * Retry-After helper for proxy requests
+ * The proxy answers 429 with a Retry-After header when a per-user rate limit
+ * is hit. Short waits are absorbed here with a single retry; longer ones are
+ * handed back to the caller so the usual error handling can surface them.
+ */
+
+// Longest wait absorbed transparently before giving up
+const DEFAULT_MAX_WAIT_MS = 10000;
+
+/**
+ * Parse Retry-After (delta seconds or HTTP date) into milliseconds
+ */
+export const getRetryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get("Retry-After");
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * fetch() that waits out a short Retry-After on 429 and retries once.
+ * Bodies that can only be read once (streams) are never retried.
+ */
+export const fetchWithRetryAfter = async (
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  maxWaitMs: number = DEFAULT_MAX_WAIT_MS
+): Promise<Response> => {
+  const response = await fetch(input, init);
+  if (response.status !== 429) return response;
+
+  const retryAfterMs = getRetryAfterMs(response);
+  const replayableBody = !init?.body || !(init.body instanceof ReadableStream);
+
+  if (retryAfterMs === null || retryAfterMs > maxWaitMs || !replayableBody) {
+    return response;
+  }
+
+  await wait(retryAfterMs, init?.signal);
+  return fetch(input, init);
+};
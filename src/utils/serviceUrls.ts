@@ -0,0 +1,17 @@
+/**
+ * Service URLs
+ * Base URLs of the backend services, shared by the API proxy and the
+ * server-side code that calls a service directly (e.g. the token refresh).
+ */
+
+// Base URLs for different services - use environment variables in production
+export const SERVICE_BASE_URLS = {
+  api: process.env.API_BASE_URL || "http://localhost:8081/api",
+  group: process.env.GROUP_API_BASE_URL || "http://localhost:8082/api",
+  notification:
+    process.env.NOTIFICATION_API_BASE_URL || "http://localhost:8083/api",
+  files: process.env.FILES_API_BASE_URL || "http://localhost:8084/api",
+  presence: process.env.PRESENCE_API_BASE_URL || "http://localhost:8085/api",
+};
+
+export type ServiceName = keyof typeof SERVICE_BASE_URLS;
@@ -0,0 +1,186 @@
+/**
+ * Syntax Highlight
+ * A small tokenizer for the languages people paste into chat. It only
+ * tells keywords, strings, comments and numbers apart; anything fancier
+ * isn't worth the bundle size for code blocks in message bubbles.
+ */
+
+export type CodeTokenType =
+  | "plain"
+  | "keyword"
+  | "string"
+  | "comment"
+  | "number";
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  comments: RegExp[];
+  strings: RegExp[];
+  keywords: Set<string>;
+  caseInsensitive?: boolean;
+}
+
+// Longer snippets are shown without highlighting
+const MAX_HIGHLIGHT_LENGTH = 20000;
+
+const words = (list: string) => new Set(list.split(/\s+/));
+
+const LINE_COMMENT = /\/\/[^\n]*/;
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /#[^\n]*/;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/;
+const BACKTICK_QUOTED = /`(?:[^`\\]|\\[\s\S])*`?/;
+
+const CLIKE: LanguageSpec = {
+  comments: [LINE_COMMENT, BLOCK_COMMENT],
+  strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+  keywords: words(
+    "abstract as async await break case catch class const continue default defer delete do else enum export extends false final finally fn for func function go if impl implements import in instanceof interface let match mut new nil null package private protected pub public return self static struct super switch this throw throws true try type typeof undefined use var void while yield"
+  ),
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  clike: CLIKE,
+  python: {
+    comments: [HASH_COMMENT],
+    strings: [
+      /"""[\s\S]*?(?:"""|$)/,
+      /'''[\s\S]*?(?:'''|$)/,
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+    ],
+    keywords: words(
+      "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield"
+    ),
+  },
+  shell: {
+    comments: [HASH_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: words(
+      "case cd do done echo elif else esac exit export fi for function if in local read return then until while"
+    ),
+  },
+  sql: {
+    comments: [/--[^\n]*/, BLOCK_COMMENT],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED],
+    keywords: words(
+      "all alter and as asc begin between by case commit create delete desc distinct drop else end exists from group having in index inner insert into is join key left like limit not null offset on or order outer primary references right rollback select set table then union update values when where with"
+    ),
+    caseInsensitive: true,
+  },
+  json: {
+    comments: [],
+    strings: [DOUBLE_QUOTED],
+    keywords: words("true false null"),
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: "clike",
+  jsx: "clike",
+  javascript: "clike",
+  ts: "clike",
+  tsx: "clike",
+  typescript: "clike",
+  java: "clike",
+  kotlin: "clike",
+  c: "clike",
+  cpp: "clike",
+  "c++": "clike",
+  cs: "clike",
+  csharp: "clike",
+  go: "clike",
+  rust: "clike",
+  rs: "clike",
+  php: "clike",
+  swift: "clike",
+  dart: "clike",
+  py: "python",
+  python: "python",
+  sh: "shell",
+  bash: "shell",
+  shell: "shell",
+  zsh: "shell",
+  sql: "sql",
+  json: "json",
+};
+
+const NUMBER = /\b\d+(?:\.\d+)?\b/;
+const WORD = /[A-Za-z_$][\w$]*/;
+
+const tokenizers = new Map<string, RegExp>();
+
+// One alternation per language: comments, strings, numbers, then words
+const tokenizerFor = (name: string, spec: LanguageSpec) => {
+  let tokenizer = tokenizers.get(name);
+  if (!tokenizer) {
+    const group = (patterns: RegExp[]) =>
+      patterns.length > 0
+        ? `(${patterns.map((pattern) => pattern.source).join("|")})`
+        : "((?!))";
+    tokenizer = new RegExp(
+      [
+        group(spec.comments),
+        group(spec.strings),
+        `(${NUMBER.source})`,
+        `(${WORD.source})`,
+      ].join("|"),
+      "g"
+    );
+    tokenizers.set(name, tokenizer);
+  }
+  return tokenizer;
+};
+
+/**
+ * Split code into highlighted tokens. Unknown languages come back as a
+ * single plain token.
+ */
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  const name = language ? ALIASES[language.toLowerCase()] : undefined;
+  const spec = name ? LANGUAGES[name] : undefined;
+  if (!name || !spec || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return [{ type: "plain", text: code }];
+  }
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of code.matchAll(tokenizerFor(name, spec))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) push("plain", code.slice(lastIndex, index));
+
+    const [text, comment, string, number, word] = match;
+    if (comment) {
+      push("comment", text);
+    } else if (string) {
+      push("string", text);
+    } else if (number) {
+      push("number", text);
+    } else if (
+      word &&
+      spec.keywords.has(spec.caseInsensitive ? word.toLowerCase() : word)
+    ) {
+      push("keyword", text);
+    } else {
+      push("plain", text);
+    }
+    lastIndex = index + text.length;
+  }
+
+  if (lastIndex < code.length) push("plain", code.slice(lastIndex));
+  return tokens;
+};
@@ -0,0 +1,28 @@
+/**
+ * Token Expiry Helper
+ * The backend reports access token expiry as an ISO date, epoch seconds or
+ * epoch milliseconds depending on the endpoint. Normalize to epoch ms so the
+ * NextAuth callbacks and the middleware agree on when a token is stale.
+ */
+
+export const getTokenExpiryMs = (expiresAt: unknown): number | null => {
+  if (expiresAt instanceof Date) {
+    return expiresAt.getTime();
+  }
+
+  if (typeof expiresAt === "number") {
+    // Anything below 1e12 is too small to be milliseconds since 1970
+    return expiresAt < 1e12 ? expiresAt * 1000 : expiresAt;
+  }
+
+  if (typeof expiresAt === "string") {
+    const numeric = Number(expiresAt);
+    if (expiresAt.trim() !== "" && !Number.isNaN(numeric)) {
+      return getTokenExpiryMs(numeric);
+    }
+    const parsed = Date.parse(expiresAt);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  return null;
+};
@@ -0,0 +1,76 @@
+/**
+ * Token Refresh
+ * Exchanges the refresh token in a NextAuth JWT for a new access token.
+ * Runs on the server inside the jwt callback, so it calls the auth service
+ * directly instead of going through the proxy's relative URL.
+ */
+
+import type { JWT } from "next-auth/jwt";
+import { SERVICE_BASE_URLS } from "@/utils/serviceUrls";
+import { getTokenExpiryMs } from "@/utils/tokenExpiry";
+
+// Assumed when the backend doesn't say how long the new token lasts, so
+// it is refreshed again instead of being trusted forever
+const DEFAULT_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
+// Expiry of a refreshed token as an ISO date
+const readExpiresAt = (data: any) => {
+  const expiresInMs = Number(data.expires_in) * 1000;
+  const expiryMs =
+    getTokenExpiryMs(data.expires_at ?? data.expiresAt) ??
+    (expiresInMs > 0
+      ? Date.now() + expiresInMs
+      : Date.now() + DEFAULT_TOKEN_LIFETIME_MS);
+  return new Date(expiryMs).toISOString();
+};
+
+// Refreshes in flight by refresh token. Parallel requests with the same
+// expired token share one call, so a rotated refresh token isn't spent twice
+const pendingRefreshes = new Map<string, Promise<JWT>>();
+
+/**
+ * The token with a new access token. The backend may rotate the refresh
+ * token; the old one is kept if it doesn't. A failed refresh marks the
+ * token with RefreshAccessTokenError.
+ */
+export const refreshAccessToken = (token: JWT): Promise<JWT> => {
+  const refreshToken = String(token.refresh_token);
+  let pending = pendingRefreshes.get(refreshToken);
+  if (!pending) {
+    pending = requestRefresh(token).finally(() =>
+      pendingRefreshes.delete(refreshToken)
+    );
+    pendingRefreshes.set(refreshToken, pending);
+  }
+  return pending;
+};
+
+const requestRefresh = async (token: JWT): Promise<JWT> => {
+  try {
+    const response = await fetch(`${SERVICE_BASE_URLS.api}/auth/refresh`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ refresh_token: token.refresh_token }),
+      cache: "no-store",
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok || !data?.access_token) {
+      throw new Error(data?.message || `Refresh failed: ${response.status}`);
+    }
+
+    return {
+      ...token,
+      access_token: data.access_token,
+      refresh_token: data.refresh_token || token.refresh_token,
+      expiresAt: readExpiresAt(data),
+      error: undefined,
+    };
+  } catch (error) {
+    return { ...token, error: "RefreshAccessTokenError" };
+  }
+};
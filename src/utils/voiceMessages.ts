@@ -0,0 +1,131 @@
+/**
+ * Voice messages - recording formats and waveforms
+ * Recordings are made with MediaRecorder in whichever format the browser
+ * supports and sent as ordinary audio attachments. Waveforms are not
+ * stored anywhere; the player computes them from the audio itself.
+ */
+
+// Longest recording; the recorder stops and sends at this point
+export const MAX_VOICE_MESSAGE_MS = 2 * 60 * 1000;
+
+// Shorter recordings are treated as an accidental tap
+export const MIN_VOICE_MESSAGE_MS = 500;
+
+// Message text sent along with a voice message
+export const VOICE_MESSAGE_CAPTION = "🎤 Voice message";
+
+// In order of preference; Safari only records mp4
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+/**
+ * Whether this browser can record audio at all
+ */
+export const canRecordAudio = () =>
+  typeof window !== "undefined" &&
+  typeof window.MediaRecorder !== "undefined" &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * The best recording format the browser supports, or undefined to let
+ * MediaRecorder pick its default
+ */
+export const pickRecordingMimeType = (): string | undefined =>
+  RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Turn recorded chunks into a file ready for upload
+ */
+export const toVoiceMessageFile = (chunks: Blob[], mimeType: string) => {
+  // The codecs parameter is not part of the upload's content type
+  const type = mimeType.split(";")[0] || "audio/webm";
+  const extension = type === "audio/mp4" ? "m4a" : type.split("/")[1];
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+  return new File(chunks, `voice-message-${stamp}.${extension}`, { type });
+};
+
+/**
+ * Format a duration as m:ss
+ */
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+};
+
+/**
+ * Peak level of each of `bars` equal slices of the audio, scaled so the
+ * loudest slice is 1
+ */
+export const computeWaveform = (buffer: AudioBuffer, bars: number) => {
+  const samples = buffer.getChannelData(0);
+  const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const start = bar * sliceSize;
+    const end = Math.min(start + sliceSize, samples.length);
+    for (let i = start; i < end; i++) {
+      const level = Math.abs(samples[i]);
+      if (level > peak) peak = level;
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks, 0.01);
+  return peaks.map((peak) => peak / loudest);
+};
+
+// Least recently used waveforms are dropped beyond this many
+const MAX_CACHED_WAVEFORMS = 200;
+
+// Map order doubles as recency: a hit moves its entry to the end
+const waveformCache = new Map<string, Promise<number[]>>();
+
+/**
+ * Download and decode an audio file to draw its waveform. Recent results
+ * are kept, so a re-rendered player doesn't decode again.
+ */
+export const loadWaveform = (url: string, bars: number) => {
+  const key = `${bars}:${url}`;
+  const cached = waveformCache.get(key);
+  if (cached) {
+    waveformCache.delete(key);
+    waveformCache.set(key, cached);
+    return cached;
+  }
+
+  const loading = (async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Audio fetch failed: ${response.status}`);
+
+    const AudioContextClass =
+      window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+    try {
+      const buffer = await context.decodeAudioData(
+        await response.arrayBuffer()
+      );
+      return computeWaveform(buffer, bars);
+    } finally {
+      context.close();
+    }
+  })();
+
+  // A failed load may work later, e.g. once the URL is refreshed
+  loading.catch(() => {
+    if (waveformCache.get(key) === loading) waveformCache.delete(key);
+  });
+  waveformCache.set(key, loading);
+  if (waveformCache.size > MAX_CACHED_WAVEFORMS) {
+    waveformCache.delete(waveformCache.keys().next().value!);
+  }
+  return loading;
+};